@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it, mock } from 'node:test';
+
+import { ConfigService } from '@nestjs/config';
+import { Context } from 'telegraf';
+
+import { AuditLogRepository } from '../admin/audit-log.repository';
+import { TelegramAdminService } from '../auth/telegram-admin.service';
+import { I18nService } from '../i18n/i18n.service';
+import { UserLanguageService } from '../i18n/user-language.service';
+import { menuCallback } from '../telegram/callback-data';
+import { AbuseProtectionService } from './abuse-protection.service';
+import { BlocklistRepository } from './blocklist.repository';
+
+const SUPPORT_CHAT_ID = -1001;
+const VERIFICATION_CHAT_ID = -1002;
+
+type FakeContext = Context & {
+  answerCbQuery: ReturnType<typeof mock.fn>;
+  reply: ReturnType<typeof mock.fn>;
+};
+
+function createService(): AbuseProtectionService {
+  const config = new ConfigService({
+    RATE_LIMIT_USER_BURST: '1',
+    RATE_LIMIT_USER_PER_MINUTE: '1',
+    SUPPORT_CHAT_ID: String(SUPPORT_CHAT_ID),
+    VERIFICATION_CHAT_ID: String(VERIFICATION_CHAT_ID),
+  });
+  return new AbuseProtectionService(
+    config,
+    { list: async () => [] } as unknown as BlocklistRepository,
+    { hasRole: () => false, getRole: () => null } as unknown as TelegramAdminService,
+    {} as AuditLogRepository,
+    { t: (_language: string, key: string) => key } as unknown as I18nService,
+    { resolve: async () => 'en' } as unknown as UserLanguageService,
+  );
+}
+
+function tap(chatId: number): FakeContext {
+  return {
+    from: { id: 7, is_bot: false, first_name: 'Ann' },
+    chat: { id: chatId, type: chatId > 0 ? 'private' : 'supergroup' },
+    callbackQuery: { id: 'q', data: menuCallback(null) },
+    answerCbQuery: mock.fn(async () => true),
+    reply: mock.fn(async () => ({})),
+  } as unknown as FakeContext;
+}
+
+function groupMessage(chatId: number): FakeContext {
+  return {
+    from: { id: 7, is_bot: false, first_name: 'Ann' },
+    chat: { id: chatId, type: 'supergroup' },
+    message: { message_id: 1, text: 'hello' },
+    answerCbQuery: mock.fn(async () => true),
+    reply: mock.fn(async () => ({})),
+  } as unknown as FakeContext;
+}
+
+describe('AbuseProtectionService middleware', () => {
+  let service: AbuseProtectionService;
+  let next: ReturnType<typeof mock.fn>;
+
+  beforeEach(() => {
+    service = createService();
+    next = mock.fn(async () => undefined);
+  });
+
+  it('answers every limited button tap, with the cooldown text only once', async () => {
+    const middleware = service.middleware();
+    await middleware(tap(7), next as never);
+    const warned = tap(7);
+    await middleware(warned, next as never);
+    const quiet = tap(7);
+    await middleware(quiet, next as never);
+
+    assert.equal(next.mock.callCount(), 1);
+    assert.deepEqual(warned.answerCbQuery.mock.calls[0].arguments, ['rateLimited', { show_alert: false }]);
+    assert.equal(quiet.answerCbQuery.mock.callCount(), 1);
+    assert.deepEqual(quiet.answerCbQuery.mock.calls[0].arguments, [undefined]);
+  });
+
+  it('drops group messages over the limit without a reply', async () => {
+    const middleware = service.middleware();
+    await middleware(groupMessage(-5), next as never);
+    const dropped = groupMessage(-5);
+    await middleware(dropped, next as never);
+
+    assert.equal(next.mock.callCount(), 1);
+    assert.equal(dropped.reply.mock.callCount(), 0);
+  });
+
+  it('never limits the support and verification chats', async () => {
+    const middleware = service.middleware();
+    for (let i = 0; i < 5; i += 1) {
+      await middleware(groupMessage(SUPPORT_CHAT_ID), next as never);
+      await middleware(tap(VERIFICATION_CHAT_ID), next as never);
+    }
+
+    assert.equal(next.mock.callCount(), 10);
+  });
+});
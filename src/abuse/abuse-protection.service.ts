@@ -0,0 +1,407 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Context, MiddlewareFn } from 'telegraf';
+
+import { AuditLogRepository } from '../admin/audit-log.repository';
+import { recordTelegramAudit } from '../admin/telegram-audit';
+import { TelegramAdminService } from '../auth/telegram-admin.service';
+import { parseChatId, parsePositiveInt } from '../common/config-values';
+import { I18nService } from '../i18n/i18n.service';
+import { UserLanguageService } from '../i18n/user-language.service';
+import { CallbackAction, decodeCallbackData } from '../telegram/callback-data';
+import { describeUser, safeAnswerCbQuery } from '../telegram/telegram-context';
+import { TOPIC_START_PREFIX } from '../telegram/telegram-inline.service';
+import { BlockedUser, BlocklistRepository } from './blocklist.repository';
+import { TokenBucket } from './token-bucket';
+
+export const ABUSE_ADMIN_COMMANDS = ['block', 'unblock', 'blocked'];
+
+export type AutoBan = { userId: number; until: string };
+
+export type BlocklistSnapshot = { blocked: BlockedUser[] | null; autoBanned: AutoBan[] };
+
+type UserState = {
+  bucket: TokenBucket;
+  /** Inline queries arrive once per keystroke, so they have their own bucket. */
+  inlineBucket: TokenBucket;
+  /** No further cooldown reply is sent before this time. */
+  quietUntil: number;
+  /** Times the user ran into the limit and was told so, within the strike window. */
+  strikes: number[];
+};
+
+// Idle users are forgotten and the blocklist is re-read (another replica may have changed it) this often.
+const SWEEP_INTERVAL_MS = 60_000;
+
+const USAGE: Record<string, string> = {
+  block: 'Usage: /block <user id> [reason]',
+  unblock: 'Usage: /unblock <user id>',
+};
+
+/**
+ * Guards the bot against users (or scripts) hammering it. A middleware in front of every handler
+ * takes tokens from the user's bucket and from a bucket shared by everyone; sending a video costs
+ * more than opening a menu because it may mean a download and an ffmpeg run. A user over the limit
+ * gets one friendly cooldown reply and is ignored until their bucket refills, and a user who keeps
+ * running into the limit is banned for a while. Admins block users for good with /block, and are
+ * never limited themselves, nor is anyone in the support and verification chats, where operators
+ * and reviewers answer tickets and requests.
+ */
+@Injectable()
+export class AbuseProtectionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AbuseProtectionService.name);
+  private readonly enabled: boolean;
+  private readonly userBurst: number;
+  private readonly userPerMinute: number;
+  private readonly inlineBurst: number;
+  private readonly inlinePerMinute: number;
+  private readonly videoCost: number;
+  private readonly strikeLimit: number;
+  private readonly strikeWindowMs: number;
+  private readonly banMs: number;
+  private readonly globalBucket: TokenBucket;
+  /** SUPPORT_CHAT_ID and VERIFICATION_CHAT_ID; staff work there and must never lose an action. */
+  private readonly staffChatIds: Set<number>;
+  private readonly users = new Map<number, UserState>();
+  /** Temporary bans by user id, with the time they end. */
+  private readonly autoBans = new Map<number, number>();
+  private blocked = new Set<number>();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly blocklist: BlocklistRepository,
+    private readonly admins: TelegramAdminService,
+    private readonly auditLog: AuditLogRepository,
+    private readonly i18n: I18nService,
+    private readonly userLanguage: UserLanguageService,
+  ) {
+    this.enabled = this.configService.get<string>('RATE_LIMIT_ENABLED')?.toLowerCase() !== 'false';
+    this.userBurst = parsePositiveInt(this.configService.get<string>('RATE_LIMIT_USER_BURST')) ?? 10;
+    this.userPerMinute = parsePositiveInt(this.configService.get<string>('RATE_LIMIT_USER_PER_MINUTE')) ?? 20;
+    this.inlineBurst = parsePositiveInt(this.configService.get<string>('RATE_LIMIT_INLINE_BURST')) ?? 30;
+    this.inlinePerMinute = parsePositiveInt(this.configService.get<string>('RATE_LIMIT_INLINE_PER_MINUTE')) ?? 60;
+    this.videoCost = parsePositiveInt(this.configService.get<string>('RATE_LIMIT_VIDEO_COST')) ?? 5;
+    this.strikeLimit = parsePositiveInt(this.configService.get<string>('RATE_LIMIT_BAN_STRIKES')) ?? 5;
+    this.strikeWindowMs =
+      (parsePositiveInt(this.configService.get<string>('RATE_LIMIT_STRIKE_WINDOW_MINUTES')) ?? 10) * 60_000;
+    this.banMs = (parsePositiveInt(this.configService.get<string>('RATE_LIMIT_BAN_MINUTES')) ?? 30) * 60_000;
+    this.globalBucket = new TokenBucket(
+      parsePositiveInt(this.configService.get<string>('RATE_LIMIT_GLOBAL_BURST')) ?? 300,
+      parsePositiveInt(this.configService.get<string>('RATE_LIMIT_GLOBAL_PER_MINUTE')) ?? 1200,
+    );
+    this.staffChatIds = new Set(
+      ['SUPPORT_CHAT_ID', 'VERIFICATION_CHAT_ID']
+        .map((key) => parseChatId(this.configService.get<string>(key)))
+        .filter((chatId): chatId is number => chatId !== null),
+    );
+  }
+
+  async onModuleInit(): Promise<void> {
+    await this.reloadBlocklist();
+    this.sweepTimer = setInterval(() => {
+      this.sweep();
+      void this.reloadBlocklist();
+    }, SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  /**
+   * Telegraf middleware; register it before every handler. Updates without a user (e.g. channel
+   * posts) pass through.
+   */
+  middleware(): MiddlewareFn<Context> {
+    return async (ctx, next) => {
+      const userId = ctx.from?.id;
+      if (typeof userId !== 'number' || this.admins.hasRole(userId, 'editor')) {
+        return next();
+      }
+
+      if (this.isBlocked(userId)) {
+        return;
+      }
+      if (!this.enabled || (ctx.chat && this.staffChatIds.has(ctx.chat.id))) {
+        return next();
+      }
+
+      const now = Date.now();
+      const state = this.getState(userId, now);
+      // Typing an inline search is not abuse: over its limit a query is only dropped, never a strike.
+      const bucket = ctx.inlineQuery ? state.inlineBucket : state.bucket;
+      const cost = this.costOf(ctx);
+      const waitMs = bucket.waitTime(cost, now);
+      if (waitMs > 0) {
+        if (!ctx.inlineQuery) {
+          await this.handleLimited(ctx, userId, state, waitMs, now);
+        }
+        return;
+      }
+      // The user's tokens are only taken once the update passes the global limit too.
+      if (this.globalBucket.take(1, now) > 0) {
+        // Not the user's fault, so no strike; one reply per minute at most.
+        if (now >= state.quietUntil) {
+          state.quietUntil = now + 60_000;
+          await this.notify(ctx, 'botBusy', {});
+        } else if (ctx.callbackQuery) {
+          await safeAnswerCbQuery(ctx);
+        }
+        return;
+      }
+      bucket.take(cost, now);
+      return next();
+    };
+  }
+
+  /**
+   * Runs one of ABUSE_ADMIN_COMMANDS for users with the `admin` role in a private chat; ignored
+   * for everyone else.
+   */
+  async handleCommand(ctx: Context): Promise<void> {
+    const message = ctx.message;
+    if (ctx.chat?.type !== 'private' || !this.admins.isAdmin(ctx.from?.id) || !message || !('text' in message)) {
+      return;
+    }
+
+    const match = /^\/(\w+)(?:@\w+)?\s*([\s\S]*)$/.exec(message.text);
+    const command = match?.[1].toLowerCase() ?? '';
+    const [rawId = '', ...reasonWords] = (match?.[2].trim() ?? '').split(/\s+/);
+    const userId = Number(rawId);
+
+    switch (command) {
+      case 'blocked':
+        await ctx.reply(this.describeBlocked(await this.listBlocked()));
+        return;
+      case 'block': {
+        if (!Number.isSafeInteger(userId) || userId <= 0) {
+          await ctx.reply(USAGE.block);
+          return;
+        }
+        const reason = reasonWords.join(' ') || null;
+        const actor = describeUser(ctx.from);
+        const blocked = await this.block(userId, reason, actor);
+        if (blocked === 'admin') {
+          await ctx.reply(`User ${userId} has an admin role; remove it before blocking them.`);
+          return;
+        }
+        if (!blocked) {
+          await ctx.reply(`⚠️ Could not block user ${userId}. Check the logs.`);
+          return;
+        }
+        await recordTelegramAudit(this.auditLog, ctx, 'user.block', String(userId), { reason });
+        await ctx.reply(`🚫 Blocked user ${userId}. The bot now ignores them.`);
+        return;
+      }
+      case 'unblock': {
+        if (!Number.isSafeInteger(userId) || userId <= 0) {
+          await ctx.reply(USAGE.unblock);
+          return;
+        }
+        if (!(await this.unblock(userId))) {
+          await ctx.reply(`User ${userId} is not blocked.`);
+          return;
+        }
+        await recordTelegramAudit(this.auditLog, ctx, 'user.unblock', String(userId), {});
+        await ctx.reply(`✅ Unblocked user ${userId}.`);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Blocks a user until an admin unblocks them. Returns 'admin' without blocking when the user
+   * holds an admin role, and null when storing the block failed.
+   */
+  async block(userId: number, reason: string | null, blockedBy: string): Promise<BlockedUser | 'admin' | null> {
+    if (this.admins.getRole(userId)) {
+      return 'admin';
+    }
+    const blocked = await this.blocklist.add({ userId, reason, blockedBy });
+    if (blocked) {
+      this.blocked.add(userId);
+      this.logger.log(`${blockedBy} blocked user ${userId}${reason ? `: ${reason}` : ''}`);
+    }
+    return blocked;
+  }
+
+  /**
+   * Lifts an admin block and any automatic ban. Returns false when the user was neither.
+   */
+  async unblock(userId: number): Promise<boolean> {
+    const removed = await this.blocklist.remove(userId);
+    const wasBanned = this.autoBans.delete(userId);
+    this.blocked.delete(userId);
+    this.users.delete(userId);
+    return removed || wasBanned;
+  }
+
+  /**
+   * Blocked users from the store (null when it could not be read) and the running temporary bans
+   * of this instance.
+   */
+  async listBlocked(): Promise<BlocklistSnapshot> {
+    const now = Date.now();
+    const autoBanned = [...this.autoBans]
+      .filter(([, until]) => until > now)
+      .map(([userId, until]) => ({ userId, until: new Date(until).toISOString() }));
+    return { blocked: await this.blocklist.list(), autoBanned };
+  }
+
+  /**
+   * Counts a strike and replies once per cooldown; bans the user when the strikes within the window
+   * reach the limit. Updates the bot cannot answer (group messages) are dropped without a strike,
+   * so nobody is banned without having been warned. A button tap during the cooldown is still
+   * answered, without text, so the button stops spinning.
+   */
+  private async handleLimited(
+    ctx: Context,
+    userId: number,
+    state: UserState,
+    waitMs: number,
+    now: number,
+  ): Promise<void> {
+    if (now < state.quietUntil || !this.canNotify(ctx)) {
+      if (ctx.callbackQuery) {
+        await safeAnswerCbQuery(ctx);
+      }
+      return;
+    }
+    state.quietUntil = now + waitMs;
+    state.strikes = state.strikes.filter((strike) => now - strike < this.strikeWindowMs);
+    state.strikes.push(now);
+
+    if (state.strikes.length >= this.strikeLimit) {
+      this.autoBans.set(userId, now + this.banMs);
+      this.users.delete(userId);
+      this.logger.warn(
+        `User ${userId} hit the rate limit ${state.strikes.length} times; banned for ${this.banMs / 60_000} min`,
+      );
+      await this.notify(ctx, 'rateLimitBanned', { minutes: Math.ceil(this.banMs / 60_000) });
+      return;
+    }
+    await this.notify(ctx, 'rateLimited', { seconds: Math.ceil(waitMs / 1000) });
+  }
+
+  /**
+   * Sending a video may download and re-encode it: a topic or chapter tap, or a /start deep link to
+   * a topic. Everything else costs 1.
+   */
+  private costOf(ctx: Context): number {
+    const callbackQuery = ctx.callbackQuery;
+    if (callbackQuery && 'data' in callbackQuery && callbackQuery.data) {
+      const { action } = decodeCallbackData(callbackQuery.data);
+      return action === CallbackAction.Topic || action === CallbackAction.Chapter ? this.videoCost : 1;
+    }
+    const message = ctx.message;
+    if (message && 'text' in message && /^\/start(?:@\w+)?\s+/.test(message.text)) {
+      return message.text.split(/\s+/)[1]?.startsWith(TOPIC_START_PREFIX) ? this.videoCost : 1;
+    }
+    return 1;
+  }
+
+  /**
+   * Cooldown replies go where the user looks: a toast for a button tap, a message in a private
+   * chat. Group messages and inline queries are dropped silently.
+   */
+  private async notify(
+    ctx: Context,
+    key: 'rateLimited' | 'rateLimitBanned' | 'botBusy',
+    params: Record<string, number>,
+  ): Promise<void> {
+    try {
+      const language = await this.userLanguage.resolve(ctx.from);
+      const text = this.i18n.t(language, key, params);
+      if (ctx.callbackQuery) {
+        await ctx.answerCbQuery(text, { show_alert: key === 'rateLimitBanned' });
+      } else if (this.canNotify(ctx)) {
+        await ctx.reply(text);
+      }
+    } catch (error) {
+      this.logger.debug(`Unable to send a cooldown reply: ${String(error)}`);
+    }
+  }
+
+  private canNotify(ctx: Context): boolean {
+    return Boolean(ctx.callbackQuery) || (Boolean(ctx.message) && ctx.chat?.type === 'private');
+  }
+
+  private isBlocked(userId: number): boolean {
+    if (this.blocked.has(userId)) {
+      return true;
+    }
+    const bannedUntil = this.autoBans.get(userId);
+    if (bannedUntil === undefined) {
+      return false;
+    }
+    if (bannedUntil > Date.now()) {
+      return true;
+    }
+    this.autoBans.delete(userId);
+    return false;
+  }
+
+  private getState(userId: number, now: number): UserState {
+    let state = this.users.get(userId);
+    if (!state) {
+      state = {
+        bucket: new TokenBucket(this.userBurst, this.userPerMinute, now),
+        inlineBucket: new TokenBucket(this.inlineBurst, this.inlinePerMinute, now),
+        quietUntil: 0,
+        strikes: [],
+      };
+      this.users.set(userId, state);
+    }
+    return state;
+  }
+
+  private async reloadBlocklist(): Promise<void> {
+    const entries = await this.blocklist.list();
+    // Keep the last known blocks while the store is unreachable.
+    if (entries) {
+      this.blocked = new Set(entries.map((entry) => entry.userId));
+    }
+  }
+
+  /**
+   * Forgets users whose bucket refilled and who have no recent strikes, and expired bans, so the
+   * maps only hold active users.
+   */
+  private sweep(): void {
+    const now = Date.now();
+    for (const [userId, state] of this.users) {
+      const recentStrike = state.strikes.some((strike) => now - strike < this.strikeWindowMs);
+      if (!recentStrike && now >= state.quietUntil && state.bucket.isFull(now) && state.inlineBucket.isFull(now)) {
+        this.users.delete(userId);
+      }
+    }
+    for (const [userId, until] of this.autoBans) {
+      if (until <= now) {
+        this.autoBans.delete(userId);
+      }
+    }
+  }
+
+  private describeBlocked({ blocked, autoBanned }: BlocklistSnapshot): string {
+    if (!blocked) {
+      return '⚠️ Could not load the blocklist. Check the logs.';
+    }
+    if (blocked.length === 0 && autoBanned.length === 0) {
+      return 'No users are blocked.';
+    }
+    const lines = [
+      ...blocked.map((entry) => {
+        const reason = entry.reason ? ` — ${entry.reason}` : '';
+        return `🚫 ${entry.userId}${reason} (by ${entry.blockedBy}, ${entry.blockedAt})`;
+      }),
+      ...autoBanned.map((ban) => `⏳ ${ban.userId} — rate limit ban until ${ban.until}`),
+    ];
+    // Keep within Telegram's message length; the admin API lists everything.
+    return lines.slice(0, 50).join('\n') + (lines.length > 50 ? `\n… and ${lines.length - 50} more` : '');
+  }
+}
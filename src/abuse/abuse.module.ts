@@ -0,0 +1,34 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { AdminModule } from '../admin/admin.module';
+import { SupabaseService } from '../supabase/supabase.service';
+import { AbuseProtectionService } from './abuse-protection.service';
+import { BlocklistRepository, InMemoryBlocklistRepository, SupabaseBlocklistRepository } from './blocklist.repository';
+
+@Module({
+  imports: [AdminModule],
+  providers: [
+    {
+      provide: BlocklistRepository,
+      inject: [ConfigService, SupabaseService],
+      useFactory: (configService: ConfigService, supabaseService: SupabaseService) => {
+        const client = supabaseService.getClient();
+        if (!client) {
+          new Logger(AbuseModule.name).warn(
+            'Supabase is not configured; blocked users are kept in memory and lost on restart.',
+          );
+          return new InMemoryBlocklistRepository();
+        }
+
+        return new SupabaseBlocklistRepository(
+          client,
+          configService.get<string>('BLOCKLIST_TABLE') ?? 'blocked_users',
+        );
+      },
+    },
+    AbuseProtectionService,
+  ],
+  exports: [AbuseProtectionService],
+})
+export class AbuseModule {}
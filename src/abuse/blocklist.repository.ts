@@ -0,0 +1,118 @@
+import { Logger } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export type BlockedUser = {
+  userId: number;
+  reason: string | null;
+  /** Human-readable admin who blocked the user, e.g. "Jane (@jane, id 42)" or "admin API (API key)". */
+  blockedBy: string;
+  blockedAt: string;
+};
+
+export type NewBlockedUser = Omit<BlockedUser, 'blockedAt'>;
+
+/**
+ * Users an admin blocked from the bot. Used as the Nest injection token; see AbuseModule for the
+ * binding.
+ */
+export abstract class BlocklistRepository {
+  /** Newest first; null when loading failed. */
+  abstract list(): Promise<BlockedUser[] | null>;
+  /** Blocks the user, replacing the reason of an earlier block. Returns null when storing failed. */
+  abstract add(entry: NewBlockedUser): Promise<BlockedUser | null>;
+  /** Returns false when the user was not blocked or removing failed. */
+  abstract remove(userId: number): Promise<boolean>;
+}
+
+type BlockedUserRow = {
+  user_id: number;
+  reason: string | null;
+  blocked_by: string;
+  blocked_at: string;
+};
+
+export class SupabaseBlocklistRepository extends BlocklistRepository {
+  private readonly logger = new Logger(SupabaseBlocklistRepository.name);
+
+  constructor(
+    private readonly client: SupabaseClient,
+    private readonly table: string,
+  ) {
+    super();
+  }
+
+  async list(): Promise<BlockedUser[] | null> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .select('*')
+      .order('blocked_at', { ascending: false });
+
+    if (error) {
+      this.logger.warn(`Failed to load blocked users from "${this.table}": ${error.message}`);
+      return null;
+    }
+    return ((data ?? []) as BlockedUserRow[]).map((row) => this.fromRow(row));
+  }
+
+  async add(entry: NewBlockedUser): Promise<BlockedUser | null> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .upsert(
+        {
+          user_id: entry.userId,
+          reason: entry.reason,
+          blocked_by: entry.blockedBy,
+          blocked_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id' },
+      )
+      .select('*')
+      .single();
+
+    if (error) {
+      this.logger.error(`Failed to block user ${entry.userId}: ${error.message}`);
+      return null;
+    }
+    return this.fromRow(data as BlockedUserRow);
+  }
+
+  async remove(userId: number): Promise<boolean> {
+    const { data, error } = await this.client.from(this.table).delete().eq('user_id', userId).select('user_id');
+
+    if (error) {
+      this.logger.warn(`Failed to unblock user ${userId}: ${error.message}`);
+      return false;
+    }
+    return (data ?? []).length > 0;
+  }
+
+  private fromRow(row: BlockedUserRow): BlockedUser {
+    return {
+      userId: Number(row.user_id),
+      reason: row.reason,
+      blockedBy: row.blocked_by,
+      blockedAt: row.blocked_at,
+    };
+  }
+}
+
+/**
+ * Process-local store for development without Supabase; blocks are lost on restart.
+ */
+export class InMemoryBlocklistRepository extends BlocklistRepository {
+  private readonly blocked = new Map<number, BlockedUser>();
+
+  async list(): Promise<BlockedUser[]> {
+    return [...this.blocked.values()].sort((a, b) => b.blockedAt.localeCompare(a.blockedAt));
+  }
+
+  async add(entry: NewBlockedUser): Promise<BlockedUser | null> {
+    const blocked: BlockedUser = { ...entry, blockedAt: new Date().toISOString() };
+    this.blocked.set(entry.userId, blocked);
+    return blocked;
+  }
+
+  async remove(userId: number): Promise<boolean> {
+    return this.blocked.delete(userId);
+  }
+}
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { TokenBucket } from './token-bucket';
+
+describe('TokenBucket', () => {
+  it('allows a burst up to its capacity, then asks to wait for the refill', () => {
+    const bucket = new TokenBucket(3, 60, 0);
+    assert.equal(bucket.take(1, 0), 0);
+    assert.equal(bucket.take(1, 0), 0);
+    assert.equal(bucket.take(1, 0), 0);
+    // One token per second at 60 per minute.
+    assert.equal(bucket.take(1, 0), 1000);
+  });
+
+  it('takes nothing when it cannot serve the cost', () => {
+    const bucket = new TokenBucket(5, 60, 0);
+    assert.equal(bucket.take(4, 0), 0);
+    assert.equal(bucket.take(3, 0), 2000);
+    assert.equal(bucket.take(1, 0), 0);
+  });
+
+  it('refills with time, never above its capacity', () => {
+    const bucket = new TokenBucket(2, 60, 0);
+    bucket.take(2, 0);
+    assert.equal(bucket.isFull(1000), false);
+    assert.equal(bucket.isFull(2000), true);
+    assert.equal(bucket.take(2, 60_000), 0);
+    assert.equal(bucket.take(1, 60_000), 1000);
+  });
+
+  it('caps the cost at the capacity so expensive actions still fit a full bucket', () => {
+    const bucket = new TokenBucket(3, 60, 0);
+    assert.equal(bucket.take(10, 0), 0);
+    assert.equal(bucket.take(10, 0), 3000);
+  });
+
+  it('reports the wait without taking tokens', () => {
+    const bucket = new TokenBucket(1, 60, 0);
+    assert.equal(bucket.waitTime(1, 0), 0);
+    assert.equal(bucket.waitTime(1, 0), 0);
+    assert.equal(bucket.take(1, 0), 0);
+    assert.equal(bucket.waitTime(1, 500), 500);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Classic token bucket: holds up to `capacity` tokens and regains `refillPerMinute` per minute.
+ * Every action takes tokens according to its cost, so a user may burst up to `capacity` and is then
+ * held to the refill rate.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+  private readonly refillPerMs: number;
+
+  constructor(
+    readonly capacity: number,
+    refillPerMinute: number,
+    now = Date.now(),
+  ) {
+    this.tokens = capacity;
+    this.updatedAt = now;
+    this.refillPerMs = refillPerMinute / 60_000;
+  }
+
+  /**
+   * Takes `cost` tokens (capped at the capacity, so every action fits a full bucket). Returns 0
+   * when they were taken, otherwise the milliseconds until enough tokens are back; nothing is taken
+   * then.
+   */
+  take(cost: number, now = Date.now()): number {
+    const waitMs = this.waitTime(cost, now);
+    if (waitMs === 0) {
+      this.tokens -= Math.min(cost, this.capacity);
+    }
+    return waitMs;
+  }
+
+  /**
+   * Like `take`, without taking anything.
+   */
+  waitTime(cost: number, now = Date.now()): number {
+    this.refill(now);
+    const needed = Math.min(cost, this.capacity);
+    return this.tokens >= needed ? 0 : Math.ceil((needed - this.tokens) / this.refillPerMs);
+  }
+
+  isFull(now = Date.now()): boolean {
+    this.refill(now);
+    return this.tokens >= this.capacity;
+  }
+
+  private refill(now: number): void {
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+  }
+}
@@ -0,0 +1,101 @@
+import { ArgumentsHost, Catch, ExceptionFilter, HttpException, HttpStatus, Logger } from '@nestjs/common';
+import { TelegramError } from 'telegraf';
+
+import { CatalogValidationError } from '../catalog/support-topic';
+
+/**
+ * Body of every admin API error response.
+ */
+export type AdminApiError = {
+  statusCode: number;
+  error: string;
+  message: string;
+  /** Individual validation problems, when there are several. */
+  issues?: string[];
+  path: string;
+  timestamp: string;
+};
+
+type HttpResponse = {
+  status(code: number): HttpResponse;
+  json(body: unknown): void;
+};
+
+/**
+ * Turns whatever an admin API handler throws into an AdminApiError. Catalog validation failures
+ * become 400 with their issues, Telegram refusals 502 with Telegram's description, and anything
+ * unexpected a logged 500 that does not leak internals.
+ */
+@Catch()
+export class AdminApiExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(AdminApiExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost): void {
+    const http = host.switchToHttp();
+    const request = http.getRequest<{ method: string; url: string }>();
+    const body = this.toError(exception, `${request.method} ${request.url}`);
+    http.getResponse<HttpResponse>().status(body.statusCode).json({ ...body, path: request.url });
+  }
+
+  private toError(exception: unknown, route: string): Omit<AdminApiError, 'path'> {
+    const timestamp = new Date().toISOString();
+
+    if (exception instanceof HttpException) {
+      const statusCode = exception.getStatus();
+      const response = exception.getResponse();
+      const details = typeof response === 'object' && response !== null ? (response as Record<string, unknown>) : {};
+      // Nest's own exceptions carry an array of messages in `message`.
+      const messages = Array.isArray(details.message) ? details.message.map(String) : null;
+      const issues = Array.isArray(details.issues) ? details.issues.map(String) : messages;
+      return {
+        statusCode,
+        error: typeof details.error === 'string' ? details.error : this.reasonPhrase(statusCode),
+        message: typeof details.message === 'string' ? details.message : exception.message,
+        ...(issues ? { issues } : {}),
+        timestamp,
+      };
+    }
+
+    if (exception instanceof CatalogValidationError) {
+      return {
+        statusCode: HttpStatus.BAD_REQUEST,
+        error: 'Bad Request',
+        message: 'The change would make the topic catalog invalid',
+        issues: exception.issues,
+        timestamp,
+      };
+    }
+
+    if (exception instanceof TelegramError) {
+      return {
+        statusCode: HttpStatus.BAD_GATEWAY,
+        error: 'Bad Gateway',
+        message: `Telegram refused the request: ${exception.description}`,
+        timestamp,
+      };
+    }
+
+    this.logger.error(`${route} failed: ${String(exception)}`);
+    return {
+      statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+      error: 'Internal Server Error',
+      message: 'Internal server error',
+      timestamp,
+    };
+  }
+
+  /**
+   * `HttpStatus.NOT_FOUND` becomes "Not Found", matching the `error` of Nest's built-in exceptions.
+   */
+  private reasonPhrase(statusCode: number): string {
+    const name = HttpStatus[statusCode];
+    if (!name) {
+      return 'Error';
+    }
+    return name
+      .toLowerCase()
+      .split('_')
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  }
+}
@@ -0,0 +1,154 @@
+import { BadRequestException } from '@nestjs/common';
+
+import { SupportTopic } from '../catalog/support-topic';
+import { isLanguage, Language, SUPPORTED_LANGUAGES } from '../i18n/language';
+
+/**
+ * Request bodies and query strings of the admin API. Parsing checks the shape (object, known
+ * fields, basic types) and throws BadRequestException listing every issue; content rules for topics
+ * stay with the catalog validation that every save runs.
+ */
+
+export type CreateTopicBody = Omit<SupportTopic, 'order' | 'enabled'> &
+  Partial<Pick<SupportTopic, 'order' | 'enabled'>>;
+
+/** Fields set to null are removed from the topic. */
+export type UpdateTopicBody = { [Field in Exclude<keyof SupportTopic, 'key'>]?: SupportTopic[Field] | null };
+
+export type SendTopicBody = {
+  chatId: number;
+  language?: Language;
+};
+
+export type BlockUserBody = {
+  reason: string | null;
+};
+
+export type Page = {
+  limit: number;
+  offset: number;
+};
+
+const TOPIC_FIELDS: Array<keyof SupportTopic> = [
+  'key',
+  'label',
+  'caption',
+  'storagePath',
+  'storageBackend',
+  'order',
+  'enabled',
+  'category',
+  'width',
+  'height',
+  'encodingProfile',
+  'chapters',
+  'keywords',
+  'assets',
+  'requiresVerification',
+  'translations',
+];
+const REQUIRED_TOPIC_FIELDS: Array<keyof SupportTopic> = ['key', 'label', 'caption'];
+
+export function parseCreateTopicBody(body: unknown): CreateTopicBody {
+  const value = requireObject(body);
+  const issues = unknownFieldIssues(value, TOPIC_FIELDS);
+  for (const field of REQUIRED_TOPIC_FIELDS) {
+    if (typeof value[field] !== 'string') {
+      issues.push(`"${field}" must be a string`);
+    }
+  }
+  throwIfIssues(issues);
+  return value as CreateTopicBody;
+}
+
+export function parseUpdateTopicBody(body: unknown, key: string): UpdateTopicBody {
+  const value = requireObject(body);
+  const issues = unknownFieldIssues(value, TOPIC_FIELDS);
+  if ('key' in value && value.key !== key) {
+    issues.push('"key" cannot be changed; create a new topic and delete this one instead');
+  }
+  for (const field of REQUIRED_TOPIC_FIELDS) {
+    if (field !== 'key' && field in value && typeof value[field] !== 'string') {
+      issues.push(`"${field}" must be a string`);
+    }
+  }
+  if (Object.keys(value).filter((field) => field !== 'key').length === 0) {
+    issues.push('the body changes no field');
+  }
+  throwIfIssues(issues);
+
+  const changes = { ...value };
+  delete changes.key;
+  return changes as UpdateTopicBody;
+}
+
+export function parseSendTopicBody(body: unknown): SendTopicBody {
+  const value = requireObject(body);
+  const issues = unknownFieldIssues(value, ['chatId', 'language']);
+  if (!Number.isSafeInteger(value.chatId) || value.chatId === 0) {
+    issues.push('"chatId" must be a non-zero integer');
+  }
+  if (value.language !== undefined && !isLanguage(value.language)) {
+    issues.push(`"language" must be one of ${SUPPORTED_LANGUAGES.join(', ')}`);
+  }
+  throwIfIssues(issues);
+  return { chatId: value.chatId as number, language: value.language as Language | undefined };
+}
+
+export function parseBlockUserBody(body: unknown): BlockUserBody {
+  // The body is optional: a block needs no reason.
+  const value = body === undefined || body === null ? {} : requireObject(body);
+  const issues = unknownFieldIssues(value, ['reason']);
+  if (value.reason !== undefined && value.reason !== null && typeof value.reason !== 'string') {
+    issues.push('"reason" must be a string');
+  }
+  throwIfIssues(issues);
+  return { reason: typeof value.reason === 'string' && value.reason.trim() ? value.reason.trim() : null };
+}
+
+/**
+ * Reads `limit` and `offset` query parameters; `limit` is capped at `maxLimit`.
+ */
+export function parsePage(
+  limit: string | undefined,
+  offset: string | undefined,
+  defaultLimit: number,
+  maxLimit: number,
+): Page {
+  const issues: string[] = [];
+  const parsedLimit = parseQueryInt(limit, 'limit', 1, issues) ?? defaultLimit;
+  const parsedOffset = parseQueryInt(offset, 'offset', 0, issues) ?? 0;
+  throwIfIssues(issues);
+  return { limit: Math.min(parsedLimit, maxLimit), offset: parsedOffset };
+}
+
+function parseQueryInt(value: string | undefined, name: string, min: number, issues: string[]): number | null {
+  if (value === undefined || value === '') {
+    return null;
+  }
+  const parsed = Number(value);
+  if (!Number.isSafeInteger(parsed) || parsed < min) {
+    issues.push(`"${name}" must be an integer of at least ${min}`);
+    return null;
+  }
+  return parsed;
+}
+
+function requireObject(body: unknown): Record<string, unknown> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new BadRequestException({ message: 'Invalid request body', issues: ['the body must be a JSON object'] });
+  }
+  return body as Record<string, unknown>;
+}
+
+function unknownFieldIssues(value: Record<string, unknown>, known: readonly string[]): string[] {
+  return Object.keys(value)
+    .filter((field) => !known.includes(field))
+    .map((field) => `unknown field "${field}"`);
+}
+
+function throwIfIssues(issues: string[]): void {
+  if (issues.length > 0) {
+    throw new BadRequestException({ message: 'Invalid request', issues });
+  }
+}
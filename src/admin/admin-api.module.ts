@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+
+import { AbuseModule } from '../abuse/abuse.module';
+import { SupportModule } from '../support/support.module';
+import { TelegramModule } from '../telegram/telegram.module';
+import { AdminModule } from './admin.module';
+import { AdminTopicsController } from './admin-topics.controller';
+import { AdminUsersController } from './admin-users.controller';
+
+/**
+ * HTTP API for the internal dashboard under `/admin`. Kept apart from AdminModule because it
+ * sends through the bot, and TelegramModule already depends on AdminModule.
+ */
+@Module({
+  imports: [AdminModule, AbuseModule, SupportModule, TelegramModule],
+  controllers: [AdminTopicsController, AdminUsersController],
+})
+export class AdminApiModule {}
@@ -0,0 +1,148 @@
+import {
+  Body,
+  ConflictException,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpException,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  Patch,
+  Post,
+  UseFilters,
+  UseGuards,
+} from '@nestjs/common';
+
+import { Admin, AdminAuthGuard, AdminPrincipal } from '../auth/admin-auth.guard';
+import { SupportTopic } from '../catalog/support-topic';
+import { TopicCatalogService } from '../catalog/topic-catalog.service';
+import { TelegramService } from '../telegram/telegram.service';
+import { AdminApiExceptionFilter } from './admin-api-exception.filter';
+import { parseCreateTopicBody, parseSendTopicBody, parseUpdateTopicBody } from './admin-api.dto';
+import { AuditLogRepository } from './audit-log.repository';
+
+const ORDER_STEP = 10;
+
+/**
+ * Topic CRUD for the internal dashboard. Changes go through the same catalog validation and audit
+ * log as the Telegram topic commands.
+ */
+@Controller('admin/topics')
+@UseGuards(AdminAuthGuard)
+@UseFilters(AdminApiExceptionFilter)
+export class AdminTopicsController {
+  constructor(
+    private readonly catalog: TopicCatalogService,
+    private readonly telegramService: TelegramService,
+    private readonly auditLog: AuditLogRepository,
+  ) {}
+
+  /**
+   * Every topic in menu order, disabled ones included.
+   */
+  @Get()
+  list() {
+    return this.catalog.getAllTopics();
+  }
+
+  @Get(':key')
+  get(@Param('key') key: string) {
+    return this.findTopic(key);
+  }
+
+  /**
+   * Creates a topic; it is appended to the menu and stays disabled unless the body says otherwise.
+   */
+  @Post()
+  async create(@Body() body: unknown, @Admin() admin: AdminPrincipal) {
+    const input = parseCreateTopicBody(body);
+    const topics = this.catalog.getAllTopics();
+    if (topics.some((topic) => topic.key === input.key)) {
+      throw new ConflictException(`Topic ${input.key} already exists`);
+    }
+
+    const topic: SupportTopic = {
+      ...input,
+      order: input.order ?? (topics.length > 0 ? Math.max(...topics.map((entry) => entry.order)) : 0) + ORDER_STEP,
+      enabled: input.enabled ?? false,
+    };
+    await this.catalog.saveTopics([topic]);
+    await this.audit(admin, 'topic.add', topic.key, { topic });
+    return this.findTopic(topic.key);
+  }
+
+  /**
+   * Changes the given fields; a field set to null is removed.
+   */
+  @Patch(':key')
+  async update(@Param('key') key: string, @Body() body: unknown, @Admin() admin: AdminPrincipal) {
+    const topic = this.findTopic(key);
+    const changes = parseUpdateTopicBody(body, key);
+
+    const updated: Record<string, unknown> = { ...topic };
+    for (const [field, value] of Object.entries(changes)) {
+      if (value === null) {
+        delete updated[field];
+      } else {
+        updated[field] = value;
+      }
+    }
+    await this.catalog.saveTopics([updated as SupportTopic]);
+    await this.audit(admin, 'topic.edit', key, { changes });
+    return this.findTopic(key);
+  }
+
+  @Delete(':key')
+  @HttpCode(204)
+  async remove(@Param('key') key: string, @Admin() admin: AdminPrincipal): Promise<void> {
+    const topic = this.findTopic(key);
+    if (!(await this.catalog.deleteTopic(key))) {
+      throw new NotFoundException(`Topic ${key} not found`);
+    }
+    await this.audit(admin, 'topic.delete', key, { topic });
+  }
+
+  /**
+   * Sends the topic to a chat through the video job queue. The response is the queued job; follow
+   * it with `GET /telegram/jobs/:id`.
+   */
+  @Post(':key/send')
+  @HttpCode(202)
+  async send(@Param('key') key: string, @Body() body: unknown, @Admin() admin: AdminPrincipal) {
+    const topic = this.findTopic(key);
+    const { chatId, language } = parseSendTopicBody(body);
+    if (!topic.enabled) {
+      throw new ConflictException(`Topic ${key} is disabled; enable it before sending it`);
+    }
+
+    const job = await this.telegramService.sendTopic(chatId, topic, language);
+    if (!job) {
+      throw new HttpException(
+        `Chat ${chatId} already has the maximum number of videos queued`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+    await this.audit(admin, 'topic.send', key, { chatId, language: job.payload.language, jobId: job.id });
+    return job;
+  }
+
+  private findTopic(key: string): SupportTopic {
+    const topic = this.catalog.getAllTopics().find((entry) => entry.key === key);
+    if (!topic) {
+      throw new NotFoundException(`Topic ${key} not found`);
+    }
+    return topic;
+  }
+
+  private audit(
+    admin: AdminPrincipal,
+    action: string,
+    subject: string,
+    details: Record<string, unknown>,
+  ): Promise<void> {
+    const actor = admin.method === 'jwt' ? `admin API (${admin.subject})` : 'admin API (API key)';
+    return this.auditLog.record({ actorId: null, actor, action, subject, details });
+  }
+}
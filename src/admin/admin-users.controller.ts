@@ -0,0 +1,133 @@
+import {
+  Body,
+  ConflictException,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  InternalServerErrorException,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  Put,
+  Query,
+  UseFilters,
+  UseGuards,
+} from '@nestjs/common';
+
+import { AbuseProtectionService } from '../abuse/abuse-protection.service';
+import { AnalyticsService } from '../analytics/analytics.service';
+import { Admin, AdminAuthGuard, AdminPrincipal } from '../auth/admin-auth.guard';
+import { SupportHandoffService } from '../support/support-handoff.service';
+import { AdminApiExceptionFilter } from './admin-api-exception.filter';
+import { parseBlockUserBody, parsePage } from './admin-api.dto';
+import { AuditLogRepository } from './audit-log.repository';
+
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * The bot's users for the internal dashboard: search, the videos each user was sent, their support
+ * tickets, and blocking users from the bot.
+ */
+@Controller('admin/users')
+@UseGuards(AdminAuthGuard)
+@UseFilters(AdminApiExceptionFilter)
+export class AdminUsersController {
+  constructor(
+    private readonly analytics: AnalyticsService,
+    private readonly supportHandoff: SupportHandoffService,
+    private readonly abuseProtection: AbuseProtectionService,
+    private readonly auditLog: AuditLogRepository,
+  ) {}
+
+  /**
+   * Users who started the bot, most recently seen first. `search` matches the user id, username
+   * or first name.
+   */
+  @Get()
+  async list(@Query('search') search?: string, @Query('limit') limit?: string, @Query('offset') offset?: string) {
+    const page = parsePage(limit, offset, 50, MAX_PAGE_SIZE);
+    const { users, total } = await this.analytics.listUsers({ search: search?.trim() || null, ...page });
+    return { users, total, ...page };
+  }
+
+  /**
+   * Users blocked by an admin, and users this instance banned for a while for hitting the rate
+   * limit too often.
+   */
+  @Get('blocked')
+  async blocked() {
+    const { blocked, autoBanned } = await this.abuseProtection.listBlocked();
+    if (!blocked) {
+      throw new InternalServerErrorException('The blocklist could not be loaded');
+    }
+    return { blocked, autoBanned };
+  }
+
+  @Get(':id')
+  async get(@Param('id', ParseIntPipe) id: number) {
+    const user = await this.analytics.getUser(id);
+    if (!user) {
+      throw new NotFoundException(`User ${id} not found`);
+    }
+    return user;
+  }
+
+  /**
+   * The user's latest video requests with topic, outcome and latency, newest first.
+   */
+  @Get(':id/history')
+  async history(@Param('id', ParseIntPipe) id: number, @Query('limit') limit?: string) {
+    const { limit: parsedLimit } = parsePage(limit, undefined, 50, MAX_PAGE_SIZE);
+    return { userId: id, events: await this.analytics.getSendHistory(id, parsedLimit) };
+  }
+
+  @Get(':id/tickets')
+  async tickets(@Param('id', ParseIntPipe) id: number, @Query('limit') limit?: string) {
+    const { limit: parsedLimit } = parsePage(limit, undefined, 20, MAX_PAGE_SIZE);
+    return { userId: id, tickets: await this.supportHandoff.listTickets(id, parsedLimit) };
+  }
+
+  /**
+   * Blocks the user until unblocked; the bot ignores everything they send.
+   */
+  @Put(':id/block')
+  async block(@Param('id', ParseIntPipe) id: number, @Body() body: unknown, @Admin() admin: AdminPrincipal) {
+    const { reason } = parseBlockUserBody(body);
+    const blocked = await this.abuseProtection.block(id, reason, this.describeAdmin(admin));
+    if (blocked === 'admin') {
+      throw new ConflictException(`User ${id} has an admin role; remove it before blocking them`);
+    }
+    if (!blocked) {
+      throw new InternalServerErrorException(`User ${id} could not be blocked`);
+    }
+    await this.audit(admin, 'user.block', id, { reason });
+    return blocked;
+  }
+
+  /**
+   * Lifts an admin block or a rate limit ban.
+   */
+  @Delete(':id/block')
+  @HttpCode(204)
+  async unblock(@Param('id', ParseIntPipe) id: number, @Admin() admin: AdminPrincipal) {
+    if (!(await this.abuseProtection.unblock(id))) {
+      throw new NotFoundException(`User ${id} is not blocked`);
+    }
+    await this.audit(admin, 'user.unblock', id, {});
+  }
+
+  private audit(
+    admin: AdminPrincipal,
+    action: string,
+    userId: number,
+    details: Record<string, unknown>,
+  ): Promise<void> {
+    const actor = this.describeAdmin(admin);
+    return this.auditLog.record({ actorId: null, actor, action, subject: String(userId), details });
+  }
+
+  private describeAdmin(admin: AdminPrincipal): string {
+    return admin.method === 'jwt' ? `admin API (${admin.subject})` : 'admin API (API key)';
+  }
+}
@@ -0,0 +1,38 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { SupabaseService } from '../supabase/supabase.service';
+import {
+  AuditLogRepository,
+  InMemoryAuditLogRepository,
+  SupabaseAuditLogRepository,
+} from './audit-log.repository';
+import { RoleAdminService } from './role-admin.service';
+import { TopicAdminService } from './topic-admin.service';
+
+@Module({
+  providers: [
+    {
+      provide: AuditLogRepository,
+      inject: [ConfigService, SupabaseService],
+      useFactory: (configService: ConfigService, supabaseService: SupabaseService) => {
+        const client = supabaseService.getClient();
+        if (!client) {
+          new Logger(AdminModule.name).warn(
+            'Supabase is not configured; the admin audit log is kept in memory and lost on restart.',
+          );
+          return new InMemoryAuditLogRepository();
+        }
+
+        return new SupabaseAuditLogRepository(
+          client,
+          configService.get<string>('ADMIN_AUDIT_TABLE') ?? 'admin_audit_log',
+        );
+      },
+    },
+    TopicAdminService,
+    RoleAdminService,
+  ],
+  exports: [AuditLogRepository, TopicAdminService, RoleAdminService],
+})
+export class AdminModule {}
@@ -0,0 +1,64 @@
+import { Logger } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export type AuditEntry = {
+  id: number;
+  /** Telegram user id of the admin; null when the change did not come from Telegram. */
+  actorId: number | null;
+  /** Human-readable actor, e.g. "Jane (@jane, id 42)". */
+  actor: string;
+  /** What happened, e.g. `topic.edit`. */
+  action: string;
+  /** Key of the changed record, e.g. the topic key. */
+  subject: string;
+  details: Record<string, unknown>;
+  createdAt: string;
+};
+
+export type NewAuditEntry = Omit<AuditEntry, 'id' | 'createdAt'>;
+
+/**
+ * Append-only record of admin changes. Used as the Nest injection token; see AdminModule for the
+ * binding.
+ */
+export abstract class AuditLogRepository {
+  abstract record(entry: NewAuditEntry): Promise<void>;
+}
+
+export class SupabaseAuditLogRepository extends AuditLogRepository {
+  private readonly logger = new Logger(SupabaseAuditLogRepository.name);
+
+  constructor(
+    private readonly client: SupabaseClient,
+    private readonly table: string,
+  ) {
+    super();
+  }
+
+  async record(entry: NewAuditEntry): Promise<void> {
+    const { error } = await this.client.from(this.table).insert({
+      actor_id: entry.actorId,
+      actor: entry.actor,
+      action: entry.action,
+      subject: entry.subject,
+      details: entry.details,
+      created_at: new Date().toISOString(),
+    });
+
+    if (error) {
+      this.logger.error(`Failed to record audit entry ${entry.action} ${entry.subject}: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Process-local log for development without Supabase; entries are lost on restart.
+ */
+export class InMemoryAuditLogRepository extends AuditLogRepository {
+  private readonly entries: AuditEntry[] = [];
+  private nextId = 1;
+
+  async record(entry: NewAuditEntry): Promise<void> {
+    this.entries.push({ ...entry, id: this.nextId++, createdAt: new Date().toISOString() });
+  }
+}
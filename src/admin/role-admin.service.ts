@@ -0,0 +1,101 @@
+import { Injectable } from '@nestjs/common';
+import { Context } from 'telegraf';
+
+import { ADMIN_ROLES, AdminRole } from '../auth/admin-role.repository';
+import { TelegramAdminService } from '../auth/telegram-admin.service';
+import { AuditLogRepository } from './audit-log.repository';
+import { recordTelegramAudit } from './telegram-audit';
+
+export const ROLE_ADMIN_COMMANDS = ['roles', 'grant', 'revoke'];
+
+const USAGE: Record<string, string> = {
+  grant: `Usage: /grant <user id> <${ADMIN_ROLES.join('|')}>`,
+  revoke: 'Usage: /revoke <user id>',
+};
+
+/**
+ * Role management from inside Telegram for users with the `admin` role: list who holds a role,
+ * grant one and revoke one. Grants are stored, so they survive restarts and reach every replica
+ * within a minute; roles from ADMIN_USER_IDS can only be changed in the setting.
+ */
+@Injectable()
+export class RoleAdminService {
+  constructor(
+    private readonly admins: TelegramAdminService,
+    private readonly auditLog: AuditLogRepository,
+  ) {}
+
+  /**
+   * Runs one of ROLE_ADMIN_COMMANDS for admins in a private chat; ignored for everyone else.
+   */
+  async handleCommand(ctx: Context): Promise<void> {
+    const message = ctx.message;
+    if (ctx.chat?.type !== 'private' || !this.admins.isAdmin(ctx.from?.id) || !message || !('text' in message)) {
+      return;
+    }
+
+    const match = /^\/(\w+)(?:@\w+)?\s*([\s\S]*)$/.exec(message.text);
+    const command = match?.[1].toLowerCase() ?? '';
+    const [rawId = '', rawRole = ''] = (match?.[2].trim() ?? '').split(/\s+/);
+    const userId = Number(rawId);
+    const validId = Number.isSafeInteger(userId) && userId > 0;
+
+    switch (command) {
+      case 'roles':
+        await ctx.reply(this.describeRoles());
+        return;
+      case 'grant': {
+        const role = rawRole.toLowerCase() as AdminRole;
+        if (!validId || !ADMIN_ROLES.includes(role)) {
+          await ctx.reply(USAGE.grant);
+          return;
+        }
+        const granted = await this.admins.grant(userId, role);
+        if (granted === 'configured') {
+          await ctx.reply(`User ${userId} has a role from ADMIN_USER_IDS; change it there.`);
+          return;
+        }
+        if (!granted) {
+          await ctx.reply(`⚠️ Could not grant ${role} to user ${userId}. Check the logs.`);
+          return;
+        }
+        await recordTelegramAudit(this.auditLog, ctx, 'role.grant', String(userId), { role });
+        await ctx.reply(`✅ User ${userId} is now ${role === 'admin' ? 'an admin' : 'an editor'}.`);
+        return;
+      }
+      case 'revoke': {
+        if (!validId) {
+          await ctx.reply(USAGE.revoke);
+          return;
+        }
+        if (userId === ctx.from?.id) {
+          await ctx.reply('You cannot revoke your own role.');
+          return;
+        }
+        const revoked = await this.admins.revoke(userId);
+        if (revoked === 'configured') {
+          await ctx.reply(`User ${userId} has a role from ADMIN_USER_IDS; remove it there.`);
+          return;
+        }
+        if (!revoked) {
+          await ctx.reply(`User ${userId} has no stored role.`);
+          return;
+        }
+        await recordTelegramAudit(this.auditLog, ctx, 'role.revoke', String(userId), {});
+        await ctx.reply(`✅ Revoked the role of user ${userId}.`);
+        return;
+      }
+    }
+  }
+
+  private describeRoles(): string {
+    const roles = this.admins.listRoles();
+    if (roles.length === 0) {
+      return 'Nobody has a role.';
+    }
+    return [
+      '👤 Roles:',
+      ...roles.map(({ userId, role, configured }) => `• ${userId}: ${role}${configured ? ' (ADMIN_USER_IDS)' : ''}`),
+    ].join('\n');
+  }
+}
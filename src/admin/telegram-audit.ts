@@ -0,0 +1,23 @@
+import { Logger } from '@nestjs/common';
+import { Context } from 'telegraf';
+
+import { describeUser } from '../telegram/telegram-context';
+import { AuditLogRepository } from './audit-log.repository';
+
+const logger = new Logger('TelegramAudit');
+
+/**
+ * Logs a change an admin made through a bot command and appends it to the audit log, with the
+ * Telegram user as the actor.
+ */
+export async function recordTelegramAudit(
+  auditLog: AuditLogRepository,
+  ctx: Context,
+  action: string,
+  subject: string,
+  details: Record<string, unknown>,
+): Promise<void> {
+  const actor = describeUser(ctx.from);
+  logger.log(`${actor}: ${action} ${subject} ${JSON.stringify(details)}`);
+  await auditLog.record({ actorId: ctx.from?.id ?? null, actor, action, subject, details });
+}
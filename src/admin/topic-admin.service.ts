@@ -0,0 +1,388 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Context } from 'telegraf';
+import { Message } from 'telegraf/types';
+
+import { TelegramAdminService } from '../auth/telegram-admin.service';
+import { CatalogValidationError, hasVideo, SupportTopic } from '../catalog/support-topic';
+import { TopicCatalogService } from '../catalog/topic-catalog.service';
+import { DEFAULT_LANGUAGE, isLanguage } from '../i18n/language';
+import { isStorageBackend } from '../storage/storage-provider';
+import { StorageService } from '../storage/storage.service';
+import { AuditLogRepository } from './audit-log.repository';
+import { recordTelegramAudit } from './telegram-audit';
+
+export const TOPIC_ADMIN_COMMANDS = [
+  'topics',
+  'topic_add',
+  'topic_edit',
+  'topic_disable',
+  'topic_enable',
+  'topic_move',
+  'topic_video',
+];
+
+// Bots can only download files up to 20 MB through the Bot API.
+const MAX_BOT_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+const MAX_MESSAGE_LENGTH = 4000;
+const ORDER_STEP = 10;
+const CLEAR = '-';
+
+const USAGE: Record<string, string> = {
+  topic_add: 'Usage: /topic_add <key> | <label> | <caption> [| <category>]',
+  topic_edit:
+    'Usage: /topic_edit <key> <field> <value>\nFields: label, caption, category, keywords (comma-separated), verification (on/off), profile, storage, backend (supabase/local/s3), <lang>.label, <lang>.caption. Use "-" to clear a field.',
+  topic_disable: 'Usage: /topic_disable <key>',
+  topic_enable: 'Usage: /topic_enable <key>',
+  topic_move: 'Usage: /topic_move <key> <position>',
+  topic_video: 'Send a video with the caption /topic_video <key>, or reply to a video with /topic_video <key>.',
+};
+
+/**
+ * Topic management from inside Telegram for users with the `editor` role (or `admin`): list, add,
+ * edit, disable and reorder topics, and attach an uploaded video. Every change goes through the
+ * catalog's validation, is written to the catalog source and is recorded in the audit log.
+ */
+@Injectable()
+export class TopicAdminService {
+  private readonly logger = new Logger(TopicAdminService.name);
+  private readonly uploadPrefix: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly catalog: TopicCatalogService,
+    private readonly admins: TelegramAdminService,
+    private readonly storage: StorageService,
+    private readonly auditLog: AuditLogRepository,
+  ) {
+    this.uploadPrefix = (this.configService.get<string>('TOPIC_UPLOAD_PREFIX') ?? 'videos').replace(/\/+$/, '');
+  }
+
+  /**
+   * Runs one of TOPIC_ADMIN_COMMANDS. Ignored outside private chats and for users without a role,
+   * so the commands stay invisible to everyone else.
+   */
+  async handleCommand(ctx: Context): Promise<void> {
+    const message = ctx.message;
+    if (!this.canManage(ctx) || !message || !('text' in message)) {
+      return;
+    }
+
+    const match = /^\/(\w+)(?:@\w+)?\s*([\s\S]*)$/.exec(message.text);
+    const command = match?.[1].toLowerCase() ?? '';
+    const args = match?.[2].trim() ?? '';
+
+    try {
+      switch (command) {
+        case 'topics':
+          await this.listTopics(ctx);
+          return;
+        case 'topic_add':
+          await this.addTopic(ctx, args);
+          return;
+        case 'topic_edit':
+          await this.editTopic(ctx, args);
+          return;
+        case 'topic_disable':
+        case 'topic_enable':
+          await this.setEnabled(ctx, args, command === 'topic_enable');
+          return;
+        case 'topic_move':
+          await this.moveTopic(ctx, args);
+          return;
+        case 'topic_video':
+          await this.attachRepliedVideo(ctx, message, args);
+          return;
+      }
+    } catch (error) {
+      await this.replyWithError(ctx, command, error);
+    }
+  }
+
+  /**
+   * Picks up a video sent with the caption `/topic_video <key>`. Returns false for every other
+   * message so it is handled normally.
+   */
+  async handleMessage(ctx: Context): Promise<boolean> {
+    const message = ctx.message;
+    if (!message || !('caption' in message) || !message.caption || !this.canManage(ctx)) {
+      return false;
+    }
+
+    const match = /^\/topic_video(?:@\w+)?\s+(\S+)/i.exec(message.caption);
+    if (!match) {
+      return false;
+    }
+
+    try {
+      await this.attachVideo(ctx, message, match[1]);
+    } catch (error) {
+      await this.replyWithError(ctx, 'topic_video', error);
+    }
+    return true;
+  }
+
+  private canManage(ctx: Context): boolean {
+    return ctx.chat?.type === 'private' && this.admins.hasRole(ctx.from?.id, 'editor');
+  }
+
+  private async listTopics(ctx: Context): Promise<void> {
+    const topics = this.catalog.getAllTopics();
+    if (topics.length === 0) {
+      await ctx.reply('The catalog has no topics yet. Add one with /topic_add.');
+      return;
+    }
+
+    const lines = topics.map((topic, index) => {
+      const flags = [
+        topic.enabled ? null : 'disabled',
+        hasVideo(topic) ? null : 'no video',
+        topic.requiresVerification ? 'verified only' : null,
+        topic.category ? `in ${topic.category}` : null,
+      ].filter(Boolean);
+      return `${index + 1}. ${topic.key} — ${topic.label}${flags.length > 0 ? ` (${flags.join(', ')})` : ''}`;
+    });
+
+    let chunk = '📚 Topics in menu order:';
+    for (const line of lines) {
+      if (chunk.length + line.length + 1 > MAX_MESSAGE_LENGTH) {
+        await ctx.reply(chunk);
+        chunk = '';
+      }
+      chunk = chunk ? `${chunk}\n${line}` : line;
+    }
+    await ctx.reply(chunk);
+  }
+
+  private async addTopic(ctx: Context, args: string): Promise<void> {
+    const [key, label, caption, category] = args.split('|').map((part) => part.trim());
+    if (!key || !label || !caption) {
+      await ctx.reply(USAGE.topic_add);
+      return;
+    }
+    if (this.findTopic(key)) {
+      await ctx.reply(`Topic ${key} already exists; change it with /topic_edit.`);
+      return;
+    }
+
+    const topics = this.catalog.getAllTopics();
+    const topic: SupportTopic = {
+      key,
+      label,
+      caption,
+      storagePath: `${this.uploadPrefix}/${key}.mp4`,
+      order: (topics.length > 0 ? Math.max(...topics.map((entry) => entry.order)) : 0) + ORDER_STEP,
+      // Hidden until it has a video and an admin enables it.
+      enabled: false,
+      category: category || undefined,
+    };
+    await this.catalog.saveTopics([topic]);
+    await recordTelegramAudit(this.auditLog, ctx, 'topic.add', key, {
+      label,
+      caption,
+      category: topic.category ?? null,
+    });
+    await ctx.reply(
+      `➕ Added ${key} (disabled). Send its video with the caption /topic_video ${key}, then /topic_enable ${key}.`,
+    );
+  }
+
+  private async editTopic(ctx: Context, args: string): Promise<void> {
+    const match = /^(\S+)\s+(\S+)\s+([\s\S]+)$/.exec(args);
+    const topic = match ? this.findTopic(match[1]) : null;
+    if (!match || !topic) {
+      await ctx.reply(match ? `Unknown topic ${match[1]}.` : USAGE.topic_edit);
+      return;
+    }
+
+    const [, key, field, rawValue] = match;
+    const value = rawValue.trim();
+    const updated = this.applyEdit(topic, field.toLowerCase(), value);
+    if (!updated) {
+      await ctx.reply(USAGE.topic_edit);
+      return;
+    }
+
+    await this.catalog.saveTopics([updated]);
+    await recordTelegramAudit(this.auditLog, ctx, 'topic.edit', key, { field, value: value === CLEAR ? null : value });
+    await ctx.reply(`✏️ Updated ${field} of ${key}.`);
+  }
+
+  /**
+   * Returns the topic with one field changed, or null when the field or value is not understood.
+   * Content rules (lengths, known categories) are left to catalog validation.
+   */
+  private applyEdit(topic: SupportTopic, field: string, value: string): SupportTopic | null {
+    const cleared = value === CLEAR;
+    switch (field) {
+      case 'label':
+      case 'caption':
+        return cleared ? null : { ...topic, [field]: value };
+      case 'category':
+        return { ...topic, category: cleared ? undefined : value };
+      case 'profile':
+        return { ...topic, encodingProfile: cleared ? undefined : value };
+      case 'storage':
+        return { ...topic, storagePath: cleared ? undefined : value };
+      case 'backend':
+        if (!cleared && !isStorageBackend(value)) {
+          return null;
+        }
+        return { ...topic, storageBackend: cleared ? undefined : value };
+      case 'keywords': {
+        const keywords = value
+          .split(',')
+          .map((keyword) => keyword.trim())
+          .filter(Boolean);
+        return { ...topic, keywords: cleared || keywords.length === 0 ? undefined : keywords };
+      }
+      case 'verification':
+        if (value !== 'on' && value !== 'off') {
+          return null;
+        }
+        return { ...topic, requiresVerification: value === 'on' ? true : undefined };
+    }
+
+    const [language, translated] = field.split('.');
+    const translatable = translated === 'label' || translated === 'caption';
+    if (!isLanguage(language) || language === DEFAULT_LANGUAGE || !translatable) {
+      return null;
+    }
+    const translation = { ...topic.translations?.[language] };
+    if (cleared) {
+      delete translation[translated];
+    } else {
+      translation[translated] = value;
+    }
+    return { ...topic, translations: { ...topic.translations, [language]: translation } };
+  }
+
+  private async setEnabled(ctx: Context, args: string, enabled: boolean): Promise<void> {
+    const topic = args ? this.findTopic(args) : null;
+    if (!topic) {
+      await ctx.reply(args ? `Unknown topic ${args}.` : USAGE[enabled ? 'topic_enable' : 'topic_disable']);
+      return;
+    }
+
+    await this.catalog.saveTopics([{ ...topic, enabled }]);
+    await recordTelegramAudit(this.auditLog, ctx, enabled ? 'topic.enable' : 'topic.disable', topic.key, {});
+    await ctx.reply(enabled ? `✅ Enabled ${topic.key}.` : `⏸ Disabled ${topic.key}; it no longer shows in the menu.`);
+  }
+
+  /**
+   * Moves a topic to a 1-based position in the full topic list and renumbers every topic, so
+   * orders stay evenly spaced.
+   */
+  private async moveTopic(ctx: Context, args: string): Promise<void> {
+    const [key, rawPosition] = args.split(/\s+/);
+    const topics = this.catalog.getAllTopics();
+    const from = topics.findIndex((topic) => topic.key === key);
+    const position = Number.parseInt(rawPosition ?? '', 10);
+    if (from < 0 || !Number.isFinite(position) || position < 1) {
+      await ctx.reply(from < 0 && key ? `Unknown topic ${key}.` : USAGE.topic_move);
+      return;
+    }
+
+    const previousOrder = new Map(topics.map((topic) => [topic.key, topic.order]));
+    const [moved] = topics.splice(from, 1);
+    const to = Math.min(position, topics.length + 1) - 1;
+    topics.splice(to, 0, moved);
+    const changed = topics
+      .map((topic, index) => ({ ...topic, order: (index + 1) * ORDER_STEP }))
+      .filter((topic) => topic.order !== previousOrder.get(topic.key));
+
+    await this.catalog.saveTopics(changed);
+    await recordTelegramAudit(this.auditLog, ctx, 'topic.move', key, { from: from + 1, to: to + 1 });
+    await ctx.reply(`↕️ Moved ${key} to position ${to + 1}.`);
+  }
+
+  private async attachRepliedVideo(ctx: Context, message: Message.TextMessage, key: string): Promise<void> {
+    const replied = message.reply_to_message;
+    if (!key || !replied) {
+      await ctx.reply(USAGE.topic_video);
+      return;
+    }
+    await this.attachVideo(ctx, replied, key);
+  }
+
+  /**
+   * Uploads the video of `message` into the topic's storage backend and points the topic at it. A
+   * topic that already has a storage path keeps it, so the new upload replaces the old video. Only
+   * MP4 is accepted, because that is what the `.mp4` paths and the delivery pipeline promise.
+   */
+  private async attachVideo(ctx: Context, message: Message, key: string): Promise<void> {
+    const topic = this.findTopic(key);
+    if (!topic) {
+      await ctx.reply(`Unknown topic ${key}.`);
+      return;
+    }
+
+    const file =
+      'video' in message
+        ? message.video
+        : 'document' in message && message.document.mime_type?.startsWith('video/')
+          ? message.document
+          : null;
+    if (!file) {
+      await ctx.reply(USAGE.topic_video);
+      return;
+    }
+    // Telegram leaves the MIME type out for some videos; those are MP4 in practice.
+    if ((file.mime_type ?? 'video/mp4') !== 'video/mp4') {
+      await ctx.reply(`Only MP4 videos can be attached; this one is ${file.mime_type}. Convert it and send it again.`);
+      return;
+    }
+    const storage = this.storage.get(topic.storageBackend);
+    if (!storage) {
+      const backend = topic.storageBackend ?? this.storage.getDefaultBackend();
+      await ctx.reply(`Storage backend ${backend} is not configured, so videos cannot be stored.`);
+      return;
+    }
+    if (file.file_size && file.file_size > MAX_BOT_DOWNLOAD_BYTES) {
+      await ctx.reply(
+        'Telegram only lets bots download files up to 20 MB. Upload larger videos to the bucket directly and set the path with /topic_edit <key> storage <path>.',
+      );
+      return;
+    }
+
+    await ctx.reply(`⬆️ Uploading the video for ${key}...`);
+    const link = await ctx.telegram.getFileLink(file.file_id);
+    const response = await fetch(link);
+    if (!response.ok) {
+      throw new Error(`Downloading the video from Telegram failed with status ${response.status}`);
+    }
+
+    const storagePath = topic.storagePath ?? `${this.uploadPrefix}/${key}.mp4`;
+    const body = Buffer.from(await response.arrayBuffer());
+    const stored = await storage.uploadBuffer(storagePath, body, 'video/mp4');
+    if (!stored) {
+      await ctx.reply(`⚠️ Could not store the video in ${storage.location}/${storagePath}. Check the logs.`);
+      return;
+    }
+
+    const assets =
+      topic.assets && !hasVideoAsset(topic) ? [{ type: 'video' as const }, ...topic.assets] : topic.assets;
+    await this.catalog.saveTopics([{ ...topic, storagePath, assets }]);
+    await recordTelegramAudit(this.auditLog, ctx, 'topic.video', key, { storagePath, bytes: body.length });
+    await ctx.reply(
+      `🎬 Stored the video for ${key} at ${storagePath}.${topic.enabled ? '' : ` Enable the topic with /topic_enable ${key}.`}`,
+    );
+  }
+
+  private findTopic(key: string): SupportTopic | null {
+    return this.catalog.getAllTopics().find((topic) => topic.key === key) ?? null;
+  }
+
+  private async replyWithError(ctx: Context, command: string, error: unknown): Promise<void> {
+    if (error instanceof CatalogValidationError) {
+      await ctx.reply(`⚠️ The change was not saved:\n${error.issues.join('\n')}`);
+      return;
+    }
+    this.logger.error(`/${command} failed: ${String(error)}`);
+    await ctx.reply(`⚠️ /${command} failed: ${String(error)}`);
+  }
+}
+
+function hasVideoAsset(topic: SupportTopic): boolean {
+  return topic.assets?.some((asset) => asset.type === 'video') ?? false;
+}
@@ -0,0 +1,39 @@
+import { Global, Logger, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { SupabaseService } from '../supabase/supabase.service';
+import {
+  AnalyticsRepository,
+  InMemoryAnalyticsRepository,
+  SupabaseAnalyticsRepository,
+} from './analytics.repository';
+import { AnalyticsService } from './analytics.service';
+
+@Global()
+@Module({
+  providers: [
+    {
+      provide: AnalyticsRepository,
+      inject: [ConfigService, SupabaseService],
+      useFactory: (configService: ConfigService, supabaseService: SupabaseService) => {
+        const client = supabaseService.getClient();
+        if (!client) {
+          new Logger(AnalyticsModule.name).warn(
+            'Supabase is not configured; users and interaction analytics are kept in memory.',
+          );
+          return new InMemoryAnalyticsRepository();
+        }
+
+        return new SupabaseAnalyticsRepository(
+          client,
+          configService.get<string>('ANALYTICS_USER_TABLE') ?? 'telegram_users',
+          configService.get<string>('ANALYTICS_EVENT_TABLE') ?? 'telegram_interactions',
+          configService.get<string>('ANALYTICS_STATS_FUNCTION') ?? 'telegram_interaction_stats',
+        );
+      },
+    },
+    AnalyticsService,
+  ],
+  exports: [AnalyticsService],
+})
+export class AnalyticsModule {}
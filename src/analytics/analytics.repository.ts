@@ -0,0 +1,400 @@
+import { Logger } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export type InteractionType = 'start' | 'menu_open' | 'video_request';
+
+export type InteractionOutcome = 'sent' | 'direct_send_fallback' | 'failed' | 'unavailable' | 'cancelled';
+
+export type BotUser = {
+  id: number;
+  username: string | null;
+  firstName: string | null;
+  languageCode: string | null;
+  language: string;
+};
+
+export type KnownUser = BotUser & {
+  firstSeenAt: string;
+  lastSeenAt: string;
+};
+
+export type UserQuery = {
+  /** Matches the user id exactly or username / first name case-insensitively. */
+  search: string | null;
+  limit: number;
+  offset: number;
+};
+
+export type InteractionEvent = {
+  type: InteractionType;
+  userId: number;
+  username: string | null;
+  language: string;
+  topicKey: string | null;
+  outcome: InteractionOutcome | null;
+  latencyMs: number | null;
+  occurredAt: string;
+};
+
+/** Video requests for one topic that ended with one outcome. */
+export type TopicOutcomeCount = {
+  topicKey: string;
+  outcome: InteractionOutcome | null;
+  requests: number;
+  latencyTotalMs: number;
+  latencySamples: number;
+};
+
+/** Event counts over a time range, aggregated where the events are stored. */
+export type InteractionAggregates = {
+  starts: number;
+  menuOpens: number;
+  videoRequests: number;
+  uniqueUsers: number;
+  topics: TopicOutcomeCount[];
+  dailyActiveUsers: Array<{ date: string; users: number }>;
+};
+
+/**
+ * Storage for known users and their interaction events. Used as the Nest injection token; see
+ * AnalyticsModule for the binding.
+ */
+export abstract class AnalyticsRepository {
+  abstract upsertUser(user: BotUser, seenAt: string): Promise<void>;
+  abstract recordEvent(event: InteractionEvent): Promise<void>;
+  /**
+   * Aggregates the events in [from, to); days are UTC dates in ascending order.
+   */
+  abstract aggregate(from: Date, to: Date): Promise<InteractionAggregates>;
+  /**
+   * Known user ids greater than `afterUserId` in ascending order, for resumable fan-out.
+   */
+  abstract listUserIdsAfter(afterUserId: number, limit: number): Promise<number[]>;
+  abstract countUsers(): Promise<number>;
+  /**
+   * Users matching the query, most recently seen first, and the total number of matches.
+   */
+  abstract listUsers(query: UserQuery): Promise<{ users: KnownUser[]; total: number }>;
+  abstract findUser(userId: number): Promise<KnownUser | null>;
+  /**
+   * The user's most recent events of `type`, newest first.
+   */
+  abstract listUserEvents(userId: number, type: InteractionType, limit: number): Promise<InteractionEvent[]>;
+}
+
+type UserRow = {
+  user_id: number;
+  username: string | null;
+  first_name: string | null;
+  language_code: string | null;
+  language: string;
+  first_seen_at: string;
+  last_seen_at: string;
+};
+
+type InteractionRow = {
+  type: InteractionType;
+  user_id: number;
+  username: string | null;
+  language: string;
+  topic_key: string | null;
+  outcome: InteractionOutcome | null;
+  latency_ms: number | null;
+  occurred_at: string;
+};
+
+type AggregatesRow = {
+  starts: number;
+  menu_opens: number;
+  video_requests: number;
+  unique_users: number;
+  topics: Array<{
+    topic_key: string;
+    outcome: InteractionOutcome | null;
+    requests: number;
+    latency_total_ms: number;
+    latency_samples: number;
+  }>;
+  daily_active_users: Array<{ date: string; users: number }>;
+};
+
+const USER_COLUMNS = 'user_id, username, first_name, language_code, language, first_seen_at, last_seen_at';
+const EVENT_COLUMNS = 'type, user_id, username, language, topic_key, outcome, latency_ms, occurred_at';
+
+export class SupabaseAnalyticsRepository extends AnalyticsRepository {
+  private readonly logger = new Logger(SupabaseAnalyticsRepository.name);
+
+  constructor(
+    private readonly client: SupabaseClient,
+    private readonly userTable: string,
+    private readonly eventTable: string,
+    private readonly statsFunction: string,
+  ) {
+    super();
+  }
+
+  async upsertUser(user: BotUser, seenAt: string): Promise<void> {
+    const { error } = await this.client.from(this.userTable).upsert(
+      {
+        user_id: user.id,
+        username: user.username,
+        first_name: user.firstName,
+        language_code: user.languageCode,
+        language: user.language,
+        last_seen_at: seenAt,
+      },
+      { onConflict: 'user_id' },
+    );
+
+    if (error) {
+      this.logger.warn(`Failed to upsert user ${user.id}: ${error.message}`);
+    }
+  }
+
+  async recordEvent(event: InteractionEvent): Promise<void> {
+    const { error } = await this.client.from(this.eventTable).insert(this.toRow(event));
+    if (error) {
+      this.logger.warn(`Failed to record ${event.type} for user ${event.userId}: ${error.message}`);
+    }
+  }
+
+  // The grouping runs in Postgres (see the function in the README), so only the totals cross the wire.
+  async aggregate(from: Date, to: Date): Promise<InteractionAggregates> {
+    const { data, error } = await this.client.rpc(this.statsFunction, {
+      p_from: from.toISOString(),
+      p_to: to.toISOString(),
+    });
+
+    if (error) {
+      throw new Error(`Failed to aggregate interactions: ${error.message}`);
+    }
+
+    const row = data as AggregatesRow;
+    return {
+      starts: Number(row.starts),
+      menuOpens: Number(row.menu_opens),
+      videoRequests: Number(row.video_requests),
+      uniqueUsers: Number(row.unique_users),
+      topics: row.topics.map((topic) => ({
+        topicKey: topic.topic_key,
+        outcome: topic.outcome,
+        requests: Number(topic.requests),
+        latencyTotalMs: Number(topic.latency_total_ms),
+        latencySamples: Number(topic.latency_samples),
+      })),
+      dailyActiveUsers: row.daily_active_users.map(({ date, users }) => ({ date, users: Number(users) })),
+    };
+  }
+
+  async listUserIdsAfter(afterUserId: number, limit: number): Promise<number[]> {
+    const { data, error } = await this.client
+      .from(this.userTable)
+      .select('user_id')
+      .gt('user_id', afterUserId)
+      .order('user_id', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to list users: ${error.message}`);
+    }
+    return (data ?? []).map((row) => Number(row.user_id));
+  }
+
+  async countUsers(): Promise<number> {
+    const { count, error } = await this.client
+      .from(this.userTable)
+      .select('user_id', { count: 'exact', head: true });
+
+    if (error) {
+      throw new Error(`Failed to count users: ${error.message}`);
+    }
+    return count ?? 0;
+  }
+
+  async listUsers(query: UserQuery): Promise<{ users: KnownUser[]; total: number }> {
+    let request = this.client.from(this.userTable).select(USER_COLUMNS, { count: 'exact' });
+
+    // Characters with a meaning in PostgREST filter strings are dropped rather than escaped.
+    const search = query.search?.replace(/[,()*%\\]/g, '').trim();
+    if (search) {
+      const filters = [`username.ilike.*${search}*`, `first_name.ilike.*${search}*`];
+      if (/^\d{1,15}$/.test(search)) {
+        filters.push(`user_id.eq.${search}`);
+      }
+      request = request.or(filters.join(','));
+    }
+
+    const { data, error, count } = await request
+      .order('last_seen_at', { ascending: false })
+      .range(query.offset, query.offset + query.limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to list users: ${error.message}`);
+    }
+    return { users: ((data ?? []) as UserRow[]).map((row) => this.fromUserRow(row)), total: count ?? 0 };
+  }
+
+  async findUser(userId: number): Promise<KnownUser | null> {
+    const { data, error } = await this.client
+      .from(this.userTable)
+      .select(USER_COLUMNS)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load user ${userId}: ${error.message}`);
+    }
+    return data ? this.fromUserRow(data as UserRow) : null;
+  }
+
+  async listUserEvents(userId: number, type: InteractionType, limit: number): Promise<InteractionEvent[]> {
+    const { data, error } = await this.client
+      .from(this.eventTable)
+      .select(EVENT_COLUMNS)
+      .eq('user_id', userId)
+      .eq('type', type)
+      .order('occurred_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load interactions of user ${userId}: ${error.message}`);
+    }
+    return ((data ?? []) as InteractionRow[]).map((row) => this.fromRow(row));
+  }
+
+  private fromUserRow(row: UserRow): KnownUser {
+    return {
+      id: Number(row.user_id),
+      username: row.username,
+      firstName: row.first_name,
+      languageCode: row.language_code,
+      language: row.language,
+      firstSeenAt: row.first_seen_at,
+      lastSeenAt: row.last_seen_at,
+    };
+  }
+
+  private toRow(event: InteractionEvent): InteractionRow {
+    return {
+      type: event.type,
+      user_id: event.userId,
+      username: event.username,
+      language: event.language,
+      topic_key: event.topicKey,
+      outcome: event.outcome,
+      latency_ms: event.latencyMs,
+      occurred_at: event.occurredAt,
+    };
+  }
+
+  private fromRow(row: InteractionRow): InteractionEvent {
+    return {
+      type: row.type,
+      userId: Number(row.user_id),
+      username: row.username,
+      language: row.language,
+      topicKey: row.topic_key,
+      outcome: row.outcome,
+      latencyMs: row.latency_ms,
+      occurredAt: row.occurred_at,
+    };
+  }
+}
+
+/**
+ * Process-local store for development without Supabase; data is lost on restart.
+ */
+export class InMemoryAnalyticsRepository extends AnalyticsRepository {
+  private readonly users = new Map<number, KnownUser>();
+  private readonly events: InteractionEvent[] = [];
+
+  async upsertUser(user: BotUser, seenAt: string): Promise<void> {
+    const existing = this.users.get(user.id);
+    this.users.set(user.id, { ...user, firstSeenAt: existing?.firstSeenAt ?? seenAt, lastSeenAt: seenAt });
+  }
+
+  async recordEvent(event: InteractionEvent): Promise<void> {
+    this.events.push(event);
+  }
+
+  async aggregate(from: Date, to: Date): Promise<InteractionAggregates> {
+    const fromMs = from.getTime();
+    const toMs = to.getTime();
+    const events = this.events.filter((event) => {
+      const occurredAt = Date.parse(event.occurredAt);
+      return occurredAt >= fromMs && occurredAt < toMs;
+    });
+
+    const topics = new Map<string, TopicOutcomeCount>();
+    const usersByDay = new Map<string, Set<number>>();
+    for (const event of events) {
+      const day = event.occurredAt.slice(0, 10);
+      usersByDay.set(day, (usersByDay.get(day) ?? new Set<number>()).add(event.userId));
+
+      if (event.type !== 'video_request' || !event.topicKey) {
+        continue;
+      }
+      const key = `${event.topicKey}\n${event.outcome}`;
+      const count = topics.get(key) ?? {
+        topicKey: event.topicKey,
+        outcome: event.outcome,
+        requests: 0,
+        latencyTotalMs: 0,
+        latencySamples: 0,
+      };
+      count.requests += 1;
+      if (typeof event.latencyMs === 'number') {
+        count.latencyTotalMs += event.latencyMs;
+        count.latencySamples += 1;
+      }
+      topics.set(key, count);
+    }
+
+    return {
+      starts: events.filter((event) => event.type === 'start').length,
+      menuOpens: events.filter((event) => event.type === 'menu_open').length,
+      videoRequests: events.filter((event) => event.type === 'video_request').length,
+      uniqueUsers: new Set(events.map((event) => event.userId)).size,
+      topics: [...topics.values()],
+      dailyActiveUsers: [...usersByDay.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, users]) => ({ date, users: users.size })),
+    };
+  }
+
+  async listUserIdsAfter(afterUserId: number, limit: number): Promise<number[]> {
+    return [...this.users.keys()]
+      .filter((userId) => userId > afterUserId)
+      .sort((a, b) => a - b)
+      .slice(0, limit);
+  }
+
+  async countUsers(): Promise<number> {
+    return this.users.size;
+  }
+
+  async listUsers(query: UserQuery): Promise<{ users: KnownUser[]; total: number }> {
+    const search = query.search?.trim().toLowerCase();
+    const matches = [...this.users.values()]
+      .filter(
+        (user) =>
+          !search ||
+          String(user.id) === search ||
+          user.username?.toLowerCase().includes(search) ||
+          user.firstName?.toLowerCase().includes(search),
+      )
+      .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+    return { users: matches.slice(query.offset, query.offset + query.limit), total: matches.length };
+  }
+
+  async findUser(userId: number): Promise<KnownUser | null> {
+    return this.users.get(userId) ?? null;
+  }
+
+  async listUserEvents(userId: number, type: InteractionType, limit: number): Promise<InteractionEvent[]> {
+    return this.events
+      .filter((event) => event.userId === userId && event.type === type)
+      .reverse()
+      .slice(0, limit);
+  }
+}
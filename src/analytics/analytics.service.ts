@@ -0,0 +1,220 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+
+import {
+  AnalyticsRepository,
+  InteractionEvent,
+  InteractionOutcome,
+  InteractionType,
+  KnownUser,
+  TopicOutcomeCount,
+  UserQuery,
+} from './analytics.repository';
+
+type TelegramUserRef = {
+  id: number;
+  username?: string;
+  first_name?: string;
+  language_code?: string;
+};
+
+export type TopicStats = {
+  topicKey: string;
+  requests: number;
+  sent: number;
+  directSendFallback: number;
+  failed: number;
+  unavailable: number;
+  cancelled: number;
+  failureRate: number;
+  averageLatencyMs: number | null;
+};
+
+export type InteractionStats = {
+  from: string;
+  to: string;
+  totals: {
+    starts: number;
+    menuOpens: number;
+    videoRequests: number;
+    uniqueUsers: number;
+  };
+  topics: TopicStats[];
+  dailyActiveUsers: Array<{ date: string; users: number }>;
+};
+
+const DEFAULT_RANGE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Records who uses the bot and what they ask for. Recording never throws: analytics problems are
+ * logged and must not break the user-facing flow.
+ */
+@Injectable()
+export class AnalyticsService {
+  private readonly logger = new Logger(AnalyticsService.name);
+
+  constructor(private readonly repository: AnalyticsRepository) {}
+
+  recordStart(user: TelegramUserRef | undefined, language: string): Promise<void> {
+    return this.record('start', user, language);
+  }
+
+  /**
+   * Menu opens keep the opened category (null for home) in the event's `topicKey` column.
+   */
+  recordMenuOpen(user: TelegramUserRef | undefined, language: string, categoryKey: string | null): Promise<void> {
+    return this.record('menu_open', user, language, { topicKey: categoryKey });
+  }
+
+  recordVideoRequest(
+    user: TelegramUserRef | undefined,
+    language: string,
+    topicKey: string,
+    outcome: InteractionOutcome,
+    latencyMs: number,
+  ): Promise<void> {
+    return this.record('video_request', user, language, { topicKey, outcome, latencyMs });
+  }
+
+  listUserIdsAfter(afterUserId: number, limit: number): Promise<number[]> {
+    return this.repository.listUserIdsAfter(afterUserId, limit);
+  }
+
+  countUsers(): Promise<number> {
+    return this.repository.countUsers();
+  }
+
+  listUsers(query: UserQuery): Promise<{ users: KnownUser[]; total: number }> {
+    return this.repository.listUsers(query);
+  }
+
+  getUser(userId: number): Promise<KnownUser | null> {
+    return this.repository.findUser(userId);
+  }
+
+  /**
+   * The user's latest video requests with their outcome, newest first.
+   */
+  getSendHistory(userId: number, limit: number): Promise<InteractionEvent[]> {
+    return this.repository.listUserEvents(userId, 'video_request', limit);
+  }
+
+  /**
+   * Aggregates interactions in [from, to). Both bounds are optional ISO dates; the default range
+   * is the last 30 days.
+   */
+  async getStats(fromInput?: string, toInput?: string): Promise<InteractionStats> {
+    const to = this.parseDate(toInput, 'to') ?? new Date();
+    const from = this.parseDate(fromInput, 'from') ?? new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+    if (from.getTime() >= to.getTime()) {
+      throw new BadRequestException('"from" must be earlier than "to"');
+    }
+
+    const { topics, dailyActiveUsers, ...totals } = await this.repository.aggregate(from, to);
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      totals,
+      topics: this.aggregateTopics(topics),
+      dailyActiveUsers,
+    };
+  }
+
+  private async record(
+    type: InteractionType,
+    user: TelegramUserRef | undefined,
+    language: string,
+    details: Partial<Pick<InteractionEvent, 'topicKey' | 'outcome' | 'latencyMs'>> = {},
+  ): Promise<void> {
+    if (!user) {
+      return;
+    }
+
+    const occurredAt = new Date().toISOString();
+    try {
+      await this.repository.upsertUser(
+        {
+          id: user.id,
+          username: user.username ?? null,
+          firstName: user.first_name ?? null,
+          languageCode: user.language_code ?? null,
+          language,
+        },
+        occurredAt,
+      );
+      await this.repository.recordEvent({
+        type,
+        userId: user.id,
+        username: user.username ?? null,
+        language,
+        topicKey: details.topicKey ?? null,
+        outcome: details.outcome ?? null,
+        latencyMs: details.latencyMs ?? null,
+        occurredAt,
+      });
+    } catch (error) {
+      this.logger.warn(`Failed to record ${type} for user ${user.id}: ${String(error)}`);
+    }
+  }
+
+  private aggregateTopics(counts: TopicOutcomeCount[]): TopicStats[] {
+    const byTopic = new Map<string, TopicStats & { latencyTotal: number; latencySamples: number }>();
+
+    for (const count of counts) {
+      const stats = byTopic.get(count.topicKey) ?? {
+        topicKey: count.topicKey,
+        requests: 0,
+        sent: 0,
+        directSendFallback: 0,
+        failed: 0,
+        unavailable: 0,
+        cancelled: 0,
+        failureRate: 0,
+        averageLatencyMs: null,
+        latencyTotal: 0,
+        latencySamples: 0,
+      };
+
+      stats.requests += count.requests;
+      switch (count.outcome) {
+        case 'sent':
+          stats.sent += count.requests;
+          break;
+        case 'direct_send_fallback':
+          stats.directSendFallback += count.requests;
+          break;
+        case 'failed':
+          stats.failed += count.requests;
+          break;
+        case 'unavailable':
+          stats.unavailable += count.requests;
+          break;
+        case 'cancelled':
+          stats.cancelled += count.requests;
+          break;
+      }
+      stats.latencyTotal += count.latencyTotalMs;
+      stats.latencySamples += count.latencySamples;
+      byTopic.set(count.topicKey, stats);
+    }
+
+    return [...byTopic.values()]
+      .map(({ latencyTotal, latencySamples, ...stats }) => ({
+        ...stats,
+        failureRate: stats.requests > 0 ? (stats.failed + stats.unavailable) / stats.requests : 0,
+        averageLatencyMs: latencySamples > 0 ? Math.round(latencyTotal / latencySamples) : null,
+      }))
+      .sort((a, b) => b.requests - a.requests);
+  }
+
+  private parseDate(value: string | undefined, name: string): Date | null {
+    if (!value) {
+      return null;
+    }
+    const parsed = new Date(value);
+    if (Number.isNaN(parsed.getTime())) {
+      throw new BadRequestException(`"${name}" must be an ISO date`);
+    }
+    return parsed;
+  }
+}
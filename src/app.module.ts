@@ -1,8 +1,16 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 
+import { AdminApiModule } from './admin/admin-api.module';
+import { AnalyticsModule } from './analytics/analytics.module';
+import { AuthModule } from './auth/auth.module';
+import { CatalogModule } from './catalog/catalog.module';
+import { HealthModule } from './health/health.module';
+import { I18nModule } from './i18n/i18n.module';
 import { SupabaseModule } from './supabase/supabase.module';
+import { StorageModule } from './storage/storage.module';
 import { TelegramModule } from './telegram/telegram.module';
+import { TenantModule } from './tenant/tenant.module';
 
 @Module({
   imports: [
@@ -11,7 +19,15 @@ import { TelegramModule } from './telegram/telegram.module';
       envFilePath: '.env',
     }),
     SupabaseModule,
+    StorageModule,
+    AuthModule,
+    I18nModule,
+    CatalogModule,
+    AnalyticsModule,
     TelegramModule,
+    AdminApiModule,
+    HealthModule,
+    TenantModule,
   ],
 })
 export class AppModule {}
@@ -0,0 +1,140 @@
+import {
+  CanActivate,
+  createParamDecorator,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+
+/**
+ * Who made an authenticated admin request; `subject` is the token's `sub` claim for JWTs.
+ */
+export type AdminPrincipal = { method: 'api_key'; subject: null } | { method: 'jwt'; subject: string };
+
+type AdminRequest = {
+  headers: IncomingHttpHeaders;
+  adminPrincipal?: AdminPrincipal;
+};
+
+// Tolerated clock difference between the token issuer and this server.
+const CLOCK_SKEW_SECONDS = 30;
+
+/**
+ * Protects admin HTTP endpoints. A request passes with the shared secret from ADMIN_API_KEY, sent
+ * either as `x-api-key` or `Authorization: Bearer <key>`, or with an HS256 JWT signed with
+ * ADMIN_JWT_SECRET in `Authorization: Bearer <token>`. Tokens must carry `sub` and `exp`, and
+ * `iss` must match ADMIN_JWT_ISSUER when that is set. When neither secret is configured every
+ * request is refused.
+ */
+@Injectable()
+export class AdminAuthGuard implements CanActivate {
+  private readonly logger = new Logger(AdminAuthGuard.name);
+  private readonly apiKey: string | null;
+  private readonly jwtSecret: string | null;
+  private readonly jwtIssuer: string | null;
+
+  constructor(private readonly configService: ConfigService) {
+    this.apiKey = this.configService.get<string>('ADMIN_API_KEY')?.trim() || null;
+    this.jwtSecret = this.configService.get<string>('ADMIN_JWT_SECRET')?.trim() || null;
+    this.jwtIssuer = this.configService.get<string>('ADMIN_JWT_ISSUER')?.trim() || null;
+    if (!this.apiKey && !this.jwtSecret) {
+      this.logger.warn('Neither ADMIN_API_KEY nor ADMIN_JWT_SECRET is set; admin endpoints will reject every request.');
+    }
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<AdminRequest>();
+    const provided = this.extractCredential(request.headers);
+    const principal = provided ? this.authenticate(provided) : null;
+
+    if (!principal) {
+      throw new UnauthorizedException('Invalid or missing admin credentials');
+    }
+    request.adminPrincipal = principal;
+    return true;
+  }
+
+  private authenticate(credential: string): AdminPrincipal | null {
+    if (this.apiKey && this.matches(credential, this.apiKey)) {
+      return { method: 'api_key', subject: null };
+    }
+
+    const subject = this.jwtSecret ? this.verifyJwt(credential, this.jwtSecret) : null;
+    return subject ? { method: 'jwt', subject } : null;
+  }
+
+  /**
+   * Returns the token's subject, or null when the token is malformed, badly signed, expired or
+   * issued by someone else.
+   */
+  private verifyJwt(token: string, secret: string): string | null {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      return null;
+    }
+
+    const [encodedHeader, encodedPayload, signature] = parts;
+    const expected = createHmac('sha256', secret).update(`${encodedHeader}.${encodedPayload}`).digest('base64url');
+    if (!this.matches(signature, expected)) {
+      return null;
+    }
+
+    const header = this.decodeSegment(encodedHeader);
+    const payload = this.decodeSegment(encodedPayload);
+    if (header?.alg !== 'HS256' || !payload) {
+      return null;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof payload.exp !== 'number' || payload.exp + CLOCK_SKEW_SECONDS <= now) {
+      return null;
+    }
+    if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_SKEW_SECONDS > now) {
+      return null;
+    }
+    if (this.jwtIssuer && payload.iss !== this.jwtIssuer) {
+      return null;
+    }
+    return typeof payload.sub === 'string' && payload.sub.length > 0 ? payload.sub : null;
+  }
+
+  private decodeSegment(segment: string): Record<string, unknown> | null {
+    try {
+      const value: unknown = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+      return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private extractCredential(headers: IncomingHttpHeaders): string | null {
+    const header = headers['x-api-key'];
+    if (typeof header === 'string' && header.length > 0) {
+      return header;
+    }
+
+    const authorization = headers.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+      return authorization.slice('Bearer '.length).trim();
+    }
+    return null;
+  }
+
+  private matches(provided: string, expected: string): boolean {
+    const a = Buffer.from(provided);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+}
+
+/**
+ * Injects the AdminPrincipal that AdminAuthGuard attached to the request.
+ */
+export const Admin = createParamDecorator((_data: unknown, context: ExecutionContext): AdminPrincipal => {
+  const request = context.switchToHttp().getRequest<AdminRequest>();
+  return request.adminPrincipal ?? { method: 'api_key', subject: null };
+});
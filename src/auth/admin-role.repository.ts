@@ -0,0 +1,106 @@
+import { Logger } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * `admin` may do everything, including broadcasts and verification reviews; `editor` may only
+ * manage topics.
+ */
+export type AdminRole = 'admin' | 'editor';
+
+export const ADMIN_ROLES: AdminRole[] = ['admin', 'editor'];
+
+export type AdminRoleGrant = {
+  userId: number;
+  role: AdminRole;
+};
+
+/**
+ * Roles granted outside the ADMIN_USER_IDS setting, with /grant or from a dashboard. Used as the
+ * Nest injection token; see AuthModule for the binding.
+ */
+export abstract class AdminRoleRepository {
+  /** Null when loading failed. */
+  abstract list(): Promise<AdminRoleGrant[] | null>;
+  /** Grants the role, replacing an earlier one. Returns false when storing failed. */
+  abstract grant(grant: AdminRoleGrant): Promise<boolean>;
+  /** Returns false when the user had no stored role or removing failed. */
+  abstract revoke(userId: number): Promise<boolean>;
+}
+
+type AdminRoleRow = {
+  user_id: number;
+  role: string;
+};
+
+export class SupabaseAdminRoleRepository extends AdminRoleRepository {
+  private readonly logger = new Logger(SupabaseAdminRoleRepository.name);
+
+  constructor(
+    private readonly client: SupabaseClient,
+    private readonly table: string,
+  ) {
+    super();
+  }
+
+  async list(): Promise<AdminRoleGrant[] | null> {
+    const { data, error } = await this.client.from(this.table).select('user_id, role');
+
+    if (error) {
+      this.logger.warn(`Failed to load admin roles from "${this.table}": ${error.message}`);
+      return null;
+    }
+
+    const grants: AdminRoleGrant[] = [];
+    for (const row of (data ?? []) as AdminRoleRow[]) {
+      if (ADMIN_ROLES.includes(row.role as AdminRole)) {
+        grants.push({ userId: Number(row.user_id), role: row.role as AdminRole });
+      } else {
+        this.logger.warn(`Ignoring unknown admin role "${row.role}" of user ${row.user_id}`);
+      }
+    }
+    return grants;
+  }
+
+  async grant(grant: AdminRoleGrant): Promise<boolean> {
+    const { error } = await this.client
+      .from(this.table)
+      .upsert({ user_id: grant.userId, role: grant.role }, { onConflict: 'user_id' });
+
+    if (error) {
+      this.logger.error(`Failed to grant ${grant.role} to user ${grant.userId}: ${error.message}`);
+      return false;
+    }
+    return true;
+  }
+
+  async revoke(userId: number): Promise<boolean> {
+    const { data, error } = await this.client.from(this.table).delete().eq('user_id', userId).select('user_id');
+
+    if (error) {
+      this.logger.warn(`Failed to revoke the role of user ${userId}: ${error.message}`);
+      return false;
+    }
+    return (data ?? []).length > 0;
+  }
+}
+
+/**
+ * Used without Supabase: roles granted with /grant are lost on restart, so ADMIN_USER_IDS is the
+ * only lasting source.
+ */
+export class InMemoryAdminRoleRepository extends AdminRoleRepository {
+  private readonly grants = new Map<number, AdminRole>();
+
+  async list(): Promise<AdminRoleGrant[]> {
+    return [...this.grants].map(([userId, role]) => ({ userId, role }));
+  }
+
+  async grant(grant: AdminRoleGrant): Promise<boolean> {
+    this.grants.set(grant.userId, grant.role);
+    return true;
+  }
+
+  async revoke(userId: number): Promise<boolean> {
+    return this.grants.delete(userId);
+  }
+}
@@ -0,0 +1,37 @@
+import { Global, Logger, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { SupabaseService } from '../supabase/supabase.service';
+import { AdminAuthGuard } from './admin-auth.guard';
+import {
+  AdminRoleRepository,
+  InMemoryAdminRoleRepository,
+  SupabaseAdminRoleRepository,
+} from './admin-role.repository';
+import { TelegramAdminService } from './telegram-admin.service';
+
+@Global()
+@Module({
+  providers: [
+    {
+      provide: AdminRoleRepository,
+      inject: [ConfigService, SupabaseService],
+      useFactory: (configService: ConfigService, supabaseService: SupabaseService) => {
+        const client = supabaseService.getClient();
+        if (!client) {
+          new Logger(AuthModule.name).warn('Supabase is not configured; admin roles come from ADMIN_USER_IDS only.');
+          return new InMemoryAdminRoleRepository();
+        }
+
+        return new SupabaseAdminRoleRepository(
+          client,
+          configService.get<string>('ADMIN_ROLE_TABLE') ?? 'telegram_admin_roles',
+        );
+      },
+    },
+    AdminAuthGuard,
+    TelegramAdminService,
+  ],
+  exports: [AdminAuthGuard, TelegramAdminService],
+})
+export class AuthModule {}
@@ -0,0 +1,136 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { ADMIN_ROLES, AdminRole, AdminRoleGrant, AdminRoleRepository } from './admin-role.repository';
+
+// Stored grants are re-read this often, so changes made by another replica or a dashboard apply.
+const REFRESH_INTERVAL_MS = 60_000;
+
+/**
+ * Decides which Telegram users may run admin commands. Roles come from the comma-separated
+ * ADMIN_USER_IDS setting, where an entry is a user id (an admin) or `id:role`, and from the stored
+ * grants; the setting wins when both name a user.
+ */
+@Injectable()
+export class TelegramAdminService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(TelegramAdminService.name);
+  private readonly configuredRoles: Map<number, AdminRole>;
+  private roles: Map<number, AdminRole>;
+  private storedGrants: AdminRoleGrant[] = [];
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly roleRepository: AdminRoleRepository,
+  ) {
+    this.configuredRoles = this.parseRoles(this.configService.get<string>('ADMIN_USER_IDS') ?? '');
+    this.roles = new Map(this.configuredRoles);
+
+    if (this.configuredRoles.size === 0) {
+      this.logger.warn('ADMIN_USER_IDS is not set; Telegram admin commands only work for stored roles.');
+    }
+  }
+
+  async onModuleInit(): Promise<void> {
+    await this.reload();
+    this.refreshTimer = setInterval(() => void this.reload(), REFRESH_INTERVAL_MS);
+    this.refreshTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /**
+   * Re-reads the stored grants; runs every minute. Keeps the previous grants when they cannot be
+   * read, so a storage outage does not lock admins out.
+   */
+  async reload(): Promise<void> {
+    const grants = await this.roleRepository.list();
+    if (grants) {
+      this.storedGrants = grants;
+    }
+
+    const roles = new Map<number, AdminRole>();
+    for (const grant of this.storedGrants) {
+      roles.set(grant.userId, grant.role);
+    }
+    for (const [userId, role] of this.configuredRoles) {
+      roles.set(userId, role);
+    }
+    this.roles = roles;
+  }
+
+  /**
+   * Stores a role for the user. Returns 'configured' without storing anything when ADMIN_USER_IDS
+   * names the user, since the setting would win anyway, and false when storing failed.
+   */
+  async grant(userId: number, role: AdminRole): Promise<boolean | 'configured'> {
+    if (this.configuredRoles.has(userId)) {
+      return 'configured';
+    }
+    if (!(await this.roleRepository.grant({ userId, role }))) {
+      return false;
+    }
+    await this.reload();
+    return true;
+  }
+
+  /**
+   * Removes the user's stored role. Returns 'configured' when ADMIN_USER_IDS names the user, and
+   * false when they had no stored role.
+   */
+  async revoke(userId: number): Promise<boolean | 'configured'> {
+    if (this.configuredRoles.has(userId)) {
+      return 'configured';
+    }
+    if (!(await this.roleRepository.revoke(userId))) {
+      return false;
+    }
+    await this.reload();
+    return true;
+  }
+
+  /**
+   * Every user with a role and where it comes from, by user id.
+   */
+  listRoles(): Array<{ userId: number; role: AdminRole; configured: boolean }> {
+    return [...this.roles]
+      .sort(([a], [b]) => a - b)
+      .map(([userId, role]) => ({ userId, role, configured: this.configuredRoles.has(userId) }));
+  }
+
+  isAdmin(userId: number | undefined): boolean {
+    return this.getRole(userId) === 'admin';
+  }
+
+  /**
+   * Whether the user holds `role` or a role above it.
+   */
+  hasRole(userId: number | undefined, role: AdminRole): boolean {
+    const granted = this.getRole(userId);
+    return granted !== null && ADMIN_ROLES.indexOf(granted) <= ADMIN_ROLES.indexOf(role);
+  }
+
+  getRole(userId: number | undefined): AdminRole | null {
+    return typeof userId === 'number' ? (this.roles.get(userId) ?? null) : null;
+  }
+
+  private parseRoles(value: string): Map<number, AdminRole> {
+    const roles = new Map<number, AdminRole>();
+    for (const entry of value.split(',').map((part) => part.trim()).filter(Boolean)) {
+      const [rawId, rawRole = 'admin'] = entry.split(':');
+      const userId = Number.parseInt(rawId, 10);
+      const role = rawRole.trim().toLowerCase() as AdminRole;
+      if (!Number.isFinite(userId) || userId <= 0 || !ADMIN_ROLES.includes(role)) {
+        this.logger.warn(`Ignoring invalid ADMIN_USER_IDS entry "${entry}"`);
+        continue;
+      }
+      roles.set(userId, role);
+    }
+    return roles;
+  }
+}
@@ -0,0 +1,134 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Context, Markup } from 'telegraf';
+
+import { TelegramAdminService } from '../auth/telegram-admin.service';
+import { CallbackAction, encodeCallbackData } from '../telegram/callback-data';
+import { safeAnswerCbQuery } from '../telegram/telegram-context';
+import { BroadcastContent } from './broadcast.repository';
+import { BroadcastService } from './broadcast.service';
+
+type Draft = {
+  content: BroadcastContent | null;
+  expiresAt: number;
+};
+
+const DRAFT_TTL_MS = 15 * 60 * 1000;
+const CONFIRM = 'confirm';
+const CANCEL = 'cancel';
+
+/**
+ * Admin-only `/broadcast` conversation: the admin sends the message to broadcast, gets a preview
+ * with the recipient count, and has to confirm before anything is sent.
+ */
+@Injectable()
+export class BroadcastComposerService {
+  private readonly logger = new Logger(BroadcastComposerService.name);
+  private readonly drafts = new Map<number, Draft>();
+
+  constructor(
+    private readonly broadcasts: BroadcastService,
+    private readonly admins: TelegramAdminService,
+  ) {}
+
+  async handleCommand(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId || !this.admins.isAdmin(userId) || ctx.chat?.type !== 'private') {
+      return;
+    }
+
+    const message = ctx.message;
+    const inlineText =
+      message && 'text' in message ? message.text.replace(/^\/broadcast(@\w+)?\s*/i, '').trim() : '';
+
+    if (inlineText) {
+      this.drafts.set(userId, { content: { kind: 'text', text: inlineText }, expiresAt: Date.now() + DRAFT_TTL_MS });
+      await ctx.reply(inlineText);
+      await this.askForConfirmation(ctx);
+      return;
+    }
+
+    this.drafts.set(userId, { content: null, expiresAt: Date.now() + DRAFT_TTL_MS });
+    await ctx.reply(
+      'Send the message you want to broadcast (text, photo, video or document). You will see a preview before it is sent.',
+      Markup.inlineKeyboard([Markup.button.callback('✖️ Cancel', encodeCallbackData(CallbackAction.Broadcast, CANCEL))]),
+    );
+  }
+
+  /**
+   * Captures the next message of an admin who started `/broadcast`. Returns false for everyone
+   * else so the message is handled normally.
+   */
+  async handleMessage(ctx: Context): Promise<boolean> {
+    const userId = ctx.from?.id;
+    const message = ctx.message;
+    const draft = userId ? this.getDraft(userId) : null;
+    if (!userId || !message || !draft || draft.content || !this.admins.isAdmin(userId)) {
+      return false;
+    }
+
+    draft.content = { kind: 'copy', fromChatId: message.chat.id, messageId: message.message_id };
+    await ctx.reply('Preview:');
+    await ctx.telegram.copyMessage(message.chat.id, message.chat.id, message.message_id);
+    await this.askForConfirmation(ctx);
+    return true;
+  }
+
+  async handleCallback(ctx: Context, args: string[]): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId || !this.admins.isAdmin(userId)) {
+      await safeAnswerCbQuery(ctx);
+      return;
+    }
+
+    const draft = this.getDraft(userId);
+    this.drafts.delete(userId);
+
+    if (args[0] !== CONFIRM || !draft?.content) {
+      await safeAnswerCbQuery(ctx, args[0] === CONFIRM ? 'This draft has expired.' : 'Broadcast cancelled.');
+      await this.safeEditText(ctx, '✖️ Broadcast cancelled.');
+      return;
+    }
+
+    await safeAnswerCbQuery(ctx, 'Starting broadcast…');
+    const name = ctx.from?.username ? `@${ctx.from.username}` : `telegram:${userId}`;
+    const broadcast = await this.broadcasts.start(draft.content, name, ctx.chat?.id ?? null);
+    await this.safeEditText(
+      ctx,
+      broadcast
+        ? `📣 Broadcast #${broadcast.id} started. You will get a report here when it finishes.`
+        : '⚠️ Could not start the broadcast. Check the logs and try again.',
+    );
+  }
+
+  private async askForConfirmation(ctx: Context): Promise<void> {
+    const recipients = await this.broadcasts.countRecipients().catch((error) => {
+      this.logger.warn(`Failed to count broadcast recipients: ${String(error)}`);
+      return null;
+    });
+
+    await ctx.reply(
+      recipients === null ? 'Send this message to every user?' : `Send this message to ${recipients} users?`,
+      Markup.inlineKeyboard([
+        Markup.button.callback('✅ Send', encodeCallbackData(CallbackAction.Broadcast, CONFIRM)),
+        Markup.button.callback('✖️ Cancel', encodeCallbackData(CallbackAction.Broadcast, CANCEL)),
+      ]),
+    );
+  }
+
+  private getDraft(userId: number): Draft | null {
+    const draft = this.drafts.get(userId);
+    if (draft && draft.expiresAt < Date.now()) {
+      this.drafts.delete(userId);
+      return null;
+    }
+    return draft ?? null;
+  }
+
+  private async safeEditText(ctx: Context, text: string): Promise<void> {
+    try {
+      await ctx.editMessageText(text);
+    } catch (error) {
+      this.logger.debug(`Unable to edit broadcast prompt: ${String(error)}`);
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  Post,
+  ServiceUnavailableException,
+  UseGuards,
+} from '@nestjs/common';
+
+import { AdminAuthGuard } from '../auth/admin-auth.guard';
+import { BroadcastService } from './broadcast.service';
+
+type CreateBroadcastBody = {
+  text?: unknown;
+  parseMode?: unknown;
+};
+
+const PARSE_MODES = ['HTML', 'MarkdownV2'] as const;
+const MAX_MESSAGE_LENGTH = 4096;
+
+@Controller('telegram/broadcasts')
+@UseGuards(AdminAuthGuard)
+export class BroadcastController {
+  constructor(private readonly broadcastService: BroadcastService) {}
+
+  @Post()
+  async create(@Body() body: CreateBroadcastBody) {
+    const text = typeof body?.text === 'string' ? body.text.trim() : '';
+    if (!text || text.length > MAX_MESSAGE_LENGTH) {
+      throw new BadRequestException(`"text" must be a non-empty string of at most ${MAX_MESSAGE_LENGTH} characters`);
+    }
+
+    const parseMode = body.parseMode ?? undefined;
+    if (parseMode !== undefined && !PARSE_MODES.includes(parseMode as (typeof PARSE_MODES)[number])) {
+      throw new BadRequestException(`"parseMode" must be one of ${PARSE_MODES.join(', ')}`);
+    }
+
+    const broadcast = await this.broadcastService.start(
+      { kind: 'text', text, parseMode: parseMode as (typeof PARSE_MODES)[number] | undefined },
+      'http',
+      null,
+    );
+    if (!broadcast) {
+      throw new ServiceUnavailableException('Broadcast could not be started');
+    }
+    return broadcast;
+  }
+
+  @Get(':id')
+  async get(@Param('id', ParseIntPipe) id: number) {
+    const broadcast = await this.broadcastService.get(id);
+    if (!broadcast) {
+      throw new NotFoundException(`Broadcast ${id} not found`);
+    }
+    return broadcast;
+  }
+
+  @Post(':id/cancel')
+  async cancel(@Param('id', ParseIntPipe) id: number) {
+    const broadcast = await this.broadcastService.cancel(id);
+    if (!broadcast) {
+      throw new NotFoundException(`Broadcast ${id} not found`);
+    }
+    return broadcast;
+  }
+}
@@ -0,0 +1,40 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { SupabaseService } from '../supabase/supabase.service';
+import { BroadcastComposerService } from './broadcast-composer.service';
+import { BroadcastController } from './broadcast.controller';
+import {
+  BroadcastRepository,
+  InMemoryBroadcastRepository,
+  SupabaseBroadcastRepository,
+} from './broadcast.repository';
+import { BroadcastService } from './broadcast.service';
+
+@Module({
+  providers: [
+    {
+      provide: BroadcastRepository,
+      inject: [ConfigService, SupabaseService],
+      useFactory: (configService: ConfigService, supabaseService: SupabaseService) => {
+        const client = supabaseService.getClient();
+        if (!client) {
+          new Logger(BroadcastModule.name).warn(
+            'Supabase is not configured; broadcasts cannot resume after a restart.',
+          );
+          return new InMemoryBroadcastRepository();
+        }
+
+        return new SupabaseBroadcastRepository(
+          client,
+          configService.get<string>('BROADCAST_TABLE') ?? 'broadcasts',
+        );
+      },
+    },
+    BroadcastService,
+    BroadcastComposerService,
+  ],
+  controllers: [BroadcastController],
+  exports: [BroadcastService, BroadcastComposerService],
+})
+export class BroadcastModule {}
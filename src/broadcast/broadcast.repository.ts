@@ -0,0 +1,246 @@
+import { Logger } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * What to deliver: either a copy of an existing message (keeps media and formatting of what the
+ * admin composed in Telegram) or plain text submitted over HTTP.
+ */
+export type BroadcastContent =
+  | { kind: 'copy'; fromChatId: number; messageId: number }
+  | { kind: 'text'; text: string; parseMode?: 'HTML' | 'MarkdownV2' };
+
+export type BroadcastStatus = 'running' | 'completed' | 'cancelled';
+
+export type Broadcast = {
+  id: number;
+  content: BroadcastContent;
+  status: BroadcastStatus;
+  createdBy: string;
+  reportChatId: number | null;
+  cursorUserId: number;
+  sent: number;
+  failed: number;
+  blocked: number;
+  createdAt: string;
+  finishedAt: string | null;
+};
+
+export type NewBroadcast = Pick<Broadcast, 'content' | 'createdBy' | 'reportChatId'>;
+
+export type BroadcastProgress = Pick<Broadcast, 'status' | 'cursorUserId' | 'sent' | 'failed' | 'blocked' | 'finishedAt'>;
+
+/** The process sending a broadcast, and until when its claim holds unless renewed. */
+export type BroadcastLease = { owner: string; until: string };
+
+/**
+ * Storage for broadcast jobs and their progress cursor. Used as the Nest injection token; see
+ * BroadcastModule for the binding.
+ */
+export abstract class BroadcastRepository {
+  abstract create(broadcast: NewBroadcast): Promise<Broadcast | null>;
+  abstract findById(id: number): Promise<Broadcast | null>;
+  abstract findRunning(): Promise<Broadcast[]>;
+  /**
+   * Takes a running broadcast whose lease is free, expired or already held by `lease.owner`. Must be
+   * atomic, so only one process sends each broadcast.
+   */
+  abstract claim(id: number, lease: BroadcastLease): Promise<boolean>;
+  /**
+   * Saves progress of a running broadcast and renews `lease`; with a null lease (cancelling from a
+   * process that does not send it) whoever holds it is overruled. Returns false when nothing was
+   * saved: the broadcast is no longer running, another process holds it, or storing failed.
+   */
+  abstract saveProgress(id: number, progress: BroadcastProgress, lease: BroadcastLease | null): Promise<boolean>;
+}
+
+type BroadcastRow = {
+  id: number;
+  content: BroadcastContent;
+  status: BroadcastStatus;
+  created_by: string;
+  report_chat_id: number | null;
+  cursor_user_id: number;
+  sent: number;
+  failed: number;
+  blocked: number;
+  created_at: string;
+  finished_at: string | null;
+  lease_owner: string | null;
+  lease_until: string | null;
+};
+
+export class SupabaseBroadcastRepository extends BroadcastRepository {
+  private readonly logger = new Logger(SupabaseBroadcastRepository.name);
+
+  constructor(
+    private readonly client: SupabaseClient,
+    private readonly tableName: string,
+  ) {
+    super();
+  }
+
+  async create(broadcast: NewBroadcast): Promise<Broadcast | null> {
+    const { data, error } = await this.client
+      .from(this.tableName)
+      .insert({
+        content: broadcast.content,
+        status: 'running',
+        created_by: broadcast.createdBy,
+        report_chat_id: broadcast.reportChatId,
+        cursor_user_id: 0,
+        sent: 0,
+        failed: 0,
+        blocked: 0,
+        created_at: new Date().toISOString(),
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      this.logger.error(`Failed to create broadcast: ${error.message}`);
+      return null;
+    }
+    return this.fromRow(data as BroadcastRow);
+  }
+
+  async findById(id: number): Promise<Broadcast | null> {
+    const { data, error } = await this.client.from(this.tableName).select('*').eq('id', id).maybeSingle();
+    if (error) {
+      this.logger.error(`Failed to load broadcast ${id}: ${error.message}`);
+      return null;
+    }
+    return data ? this.fromRow(data as BroadcastRow) : null;
+  }
+
+  async findRunning(): Promise<Broadcast[]> {
+    const { data, error } = await this.client
+      .from(this.tableName)
+      .select('*')
+      .eq('status', 'running')
+      .order('id', { ascending: true });
+
+    if (error) {
+      this.logger.error(`Failed to load running broadcasts: ${error.message}`);
+      return [];
+    }
+    return ((data ?? []) as BroadcastRow[]).map((row) => this.fromRow(row));
+  }
+
+  async claim(id: number, lease: BroadcastLease): Promise<boolean> {
+    const { data, error } = await this.client
+      .from(this.tableName)
+      .update({ lease_owner: lease.owner, lease_until: lease.until })
+      .eq('id', id)
+      .eq('status', 'running')
+      .or(
+        `lease_until.is.null,lease_until.lte."${new Date().toISOString()}",lease_owner.eq."${lease.owner}"`,
+      )
+      .select('id');
+
+    if (error) {
+      this.logger.error(`Failed to claim broadcast ${id}: ${error.message}`);
+      return false;
+    }
+    return (data ?? []).length > 0;
+  }
+
+  async saveProgress(id: number, progress: BroadcastProgress, lease: BroadcastLease | null): Promise<boolean> {
+    let query = this.client
+      .from(this.tableName)
+      .update({
+        status: progress.status,
+        cursor_user_id: progress.cursorUserId,
+        sent: progress.sent,
+        failed: progress.failed,
+        blocked: progress.blocked,
+        finished_at: progress.finishedAt,
+        ...(lease ? { lease_until: lease.until } : {}),
+      })
+      .eq('id', id)
+      .eq('status', 'running');
+    if (lease) {
+      query = query.eq('lease_owner', lease.owner);
+    }
+    const { data, error } = await query.select('id');
+
+    if (error) {
+      this.logger.warn(`Failed to save progress of broadcast ${id}: ${error.message}`);
+      return false;
+    }
+    return (data ?? []).length > 0;
+  }
+
+  private fromRow(row: BroadcastRow): Broadcast {
+    return {
+      id: Number(row.id),
+      content: row.content,
+      status: row.status,
+      createdBy: row.created_by,
+      reportChatId: row.report_chat_id === null ? null : Number(row.report_chat_id),
+      cursorUserId: Number(row.cursor_user_id),
+      sent: row.sent,
+      failed: row.failed,
+      blocked: row.blocked,
+      createdAt: row.created_at,
+      finishedAt: row.finished_at,
+    };
+  }
+}
+
+/**
+ * Process-local store for development without Supabase; unfinished broadcasts do not survive a
+ * restart.
+ */
+export class InMemoryBroadcastRepository extends BroadcastRepository {
+  private readonly broadcasts = new Map<number, Broadcast>();
+  private readonly leases = new Map<number, BroadcastLease>();
+  private nextId = 1;
+
+  async create(broadcast: NewBroadcast): Promise<Broadcast | null> {
+    const created: Broadcast = {
+      ...broadcast,
+      id: this.nextId++,
+      status: 'running',
+      cursorUserId: 0,
+      sent: 0,
+      failed: 0,
+      blocked: 0,
+      createdAt: new Date().toISOString(),
+      finishedAt: null,
+    };
+    this.broadcasts.set(created.id, created);
+    return created;
+  }
+
+  async findById(id: number): Promise<Broadcast | null> {
+    return this.broadcasts.get(id) ?? null;
+  }
+
+  async findRunning(): Promise<Broadcast[]> {
+    return [...this.broadcasts.values()].filter((broadcast) => broadcast.status === 'running');
+  }
+
+  async claim(id: number, lease: BroadcastLease): Promise<boolean> {
+    const held = this.leases.get(id);
+    if (
+      this.broadcasts.get(id)?.status !== 'running' ||
+      (held && held.owner !== lease.owner && held.until > new Date().toISOString())
+    ) {
+      return false;
+    }
+    this.leases.set(id, lease);
+    return true;
+  }
+
+  async saveProgress(id: number, progress: BroadcastProgress, lease: BroadcastLease | null): Promise<boolean> {
+    const broadcast = this.broadcasts.get(id);
+    if (broadcast?.status !== 'running' || (lease && this.leases.get(id)?.owner !== lease.owner)) {
+      return false;
+    }
+    this.broadcasts.set(id, { ...broadcast, ...progress });
+    if (lease) {
+      this.leases.set(id, lease);
+    }
+    return true;
+  }
+}
@@ -0,0 +1,269 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { Telegram, TelegramError } from 'telegraf';
+
+import { AnalyticsService } from '../analytics/analytics.service';
+import { parsePositiveInt } from '../common/config-values';
+import { Broadcast, BroadcastContent, BroadcastLease, BroadcastRepository } from './broadcast.repository';
+
+type DeliveryResult = 'sent' | 'failed' | 'blocked';
+
+const RECIPIENT_PAGE_SIZE = 500;
+const MAX_ATTEMPTS = 5;
+const LEASE_MS = 5 * 60_000;
+const RESUME_CHECK_INTERVAL_MS = 60_000;
+
+/**
+ * Fans a message out to every user who has started the bot. Sends are paced below Telegram's
+ * global limit, 429 responses pause the whole run for `retry_after`, and progress is stored as a
+ * user-id cursor so an interrupted broadcast resumes where it stopped after a restart.
+ *
+ * Each broadcast is sent by one process at a time: it holds a lease, renewed with every saved
+ * send, and other replicas take over only once the lease has expired. The cursor is saved after
+ * every send, so a crash repeats at most the message in flight.
+ */
+@Injectable()
+export class BroadcastService implements OnModuleDestroy {
+  private readonly logger = new Logger(BroadcastService.name);
+  private telegram: Telegram | null = null;
+  private readonly runs = new Map<number, Promise<void>>();
+  private readonly cancelled = new Set<number>();
+  private stopping = false;
+  private readonly minIntervalMs: number;
+  private readonly owner = `${hostname()}-${randomUUID()}`;
+  private resumeTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly repository: BroadcastRepository,
+    private readonly analytics: AnalyticsService,
+  ) {
+    const perSecond = parsePositiveInt(this.configService.get<string>('BROADCAST_MESSAGES_PER_SECOND')) ?? 25;
+    // Telegram allows roughly 30 messages per second across all chats for a bot.
+    this.minIntervalMs = Math.ceil(1000 / Math.min(perSecond, 30));
+  }
+
+  /**
+   * Hands the service the bot API once the bot is up, resumes broadcasts left running by a previous
+   * process and from then on picks up broadcasts whose sender stopped renewing its lease.
+   */
+  async attach(telegram: Telegram): Promise<void> {
+    this.telegram = telegram;
+    await this.resumeOrphans();
+
+    if (!this.resumeTimer) {
+      this.resumeTimer = setInterval(() => void this.resumeOrphans(), RESUME_CHECK_INTERVAL_MS);
+      this.resumeTimer.unref();
+    }
+  }
+
+  countRecipients(): Promise<number> {
+    return this.analytics.countUsers();
+  }
+
+  async start(content: BroadcastContent, createdBy: string, reportChatId: number | null): Promise<Broadcast | null> {
+    if (!this.telegram) {
+      this.logger.error('Broadcast requested before the bot was initialized');
+      return null;
+    }
+
+    const broadcast = await this.repository.create({ content, createdBy, reportChatId });
+    if (broadcast) {
+      this.logger.log(`Starting broadcast #${broadcast.id} requested by ${createdBy}`);
+      this.launch(broadcast);
+    }
+    return broadcast;
+  }
+
+  get(id: number): Promise<Broadcast | null> {
+    return this.repository.findById(id);
+  }
+
+  /**
+   * Stops a running broadcast after the send in flight; already delivered messages stay delivered.
+   */
+  async cancel(id: number): Promise<Broadcast | null> {
+    const broadcast = await this.repository.findById(id);
+    if (!broadcast || broadcast.status !== 'running') {
+      return broadcast;
+    }
+
+    const run = this.runs.get(id);
+    if (run) {
+      this.cancelled.add(id);
+      await run;
+    } else {
+      // Another replica may be sending it; it stops once its next save finds the broadcast cancelled.
+      const finishedAt = new Date().toISOString();
+      await this.repository.saveProgress(id, { ...broadcast, status: 'cancelled', finishedAt }, null);
+    }
+    return this.repository.findById(id);
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    this.stopping = true;
+    if (this.resumeTimer) {
+      clearInterval(this.resumeTimer);
+      this.resumeTimer = null;
+    }
+    await Promise.all(this.runs.values());
+  }
+
+  private async resumeOrphans(): Promise<void> {
+    if (this.stopping) {
+      return;
+    }
+    for (const broadcast of await this.repository.findRunning()) {
+      this.launch(broadcast);
+    }
+  }
+
+  private launch(broadcast: Broadcast): void {
+    if (this.runs.has(broadcast.id)) {
+      return;
+    }
+
+    const run = this.run(broadcast)
+      .catch((error) => this.logger.error(`Broadcast #${broadcast.id} crashed: ${String(error)}`))
+      .finally(() => this.runs.delete(broadcast.id));
+    this.runs.set(broadcast.id, run);
+  }
+
+  private async run(broadcast: Broadcast): Promise<void> {
+    const telegram = this.telegram;
+    if (!telegram || !(await this.repository.claim(broadcast.id, this.lease()))) {
+      return;
+    }
+
+    // Another process may have sent more since `broadcast` was read.
+    const current = await this.repository.findById(broadcast.id);
+    if (current?.status !== 'running') {
+      return;
+    }
+    if (current.cursorUserId > 0) {
+      this.logger.log(`Resuming broadcast #${broadcast.id} after user ${current.cursorUserId}`);
+    }
+
+    const progress = { ...current };
+    let lost = false;
+
+    while (!lost && !this.stopping && !this.cancelled.has(broadcast.id)) {
+      const recipients = await this.analytics.listUserIdsAfter(progress.cursorUserId, RECIPIENT_PAGE_SIZE);
+      if (recipients.length === 0) {
+        progress.status = 'completed';
+        break;
+      }
+
+      for (const chatId of recipients) {
+        if (this.stopping || this.cancelled.has(broadcast.id)) {
+          break;
+        }
+
+        const startedAt = Date.now();
+        const result = await this.deliver(telegram, chatId, broadcast.content);
+        progress[result] += 1;
+        progress.cursorUserId = chatId;
+
+        if (!(await this.repository.saveProgress(broadcast.id, progress, this.lease()))) {
+          lost = true;
+          break;
+        }
+
+        const elapsed = Date.now() - startedAt;
+        if (elapsed < this.minIntervalMs) {
+          await this.sleep(this.minIntervalMs - elapsed);
+        }
+      }
+    }
+
+    if (this.cancelled.delete(broadcast.id)) {
+      progress.status = 'cancelled';
+    }
+    if (progress.status !== 'running') {
+      progress.finishedAt = new Date().toISOString();
+    }
+    // When pausing for shutdown, the lease is handed back so the next process resumes right away.
+    const lease = progress.status === 'running' ? this.lease(0) : this.lease();
+    if (lost || !(await this.repository.saveProgress(broadcast.id, progress, lease))) {
+      this.logger.warn(
+        `Stopped broadcast #${broadcast.id} at user ${progress.cursorUserId}: ` +
+          'it was cancelled, taken over by another process or its progress could not be saved',
+      );
+      return;
+    }
+
+    if (progress.status === 'running') {
+      this.logger.log(`Paused broadcast #${broadcast.id} for shutdown at user ${progress.cursorUserId}`);
+      return;
+    }
+
+    const report = `📣 Broadcast #${broadcast.id} ${progress.status}: ${progress.sent} sent, ${progress.failed} failed, ${progress.blocked} blocked.`;
+    this.logger.log(report);
+    if (progress.reportChatId) {
+      await telegram.sendMessage(progress.reportChatId, report).catch((error) => {
+        this.logger.warn(`Failed to send broadcast report: ${String(error)}`);
+      });
+    }
+  }
+
+  private async deliver(telegram: Telegram, chatId: number, content: BroadcastContent): Promise<DeliveryResult> {
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt += 1) {
+      try {
+        if (content.kind === 'copy') {
+          await telegram.copyMessage(chatId, content.fromChatId, content.messageId);
+        } else {
+          await telegram.sendMessage(chatId, content.text, { parse_mode: content.parseMode });
+        }
+        return 'sent';
+      } catch (error) {
+        if (this.isBlocked(error)) {
+          return 'blocked';
+        }
+
+        const retryAfter = error instanceof TelegramError ? error.parameters?.retry_after : undefined;
+        if (retryAfter) {
+          this.logger.warn(`Rate limited while broadcasting; pausing for ${retryAfter}s`);
+          await this.sleep(retryAfter * 1000);
+          continue;
+        }
+
+        if (attempt === MAX_ATTEMPTS || !this.isTransient(error)) {
+          this.logger.warn(`Broadcast delivery to ${chatId} failed: ${String(error)}`);
+          return 'failed';
+        }
+        await this.sleep(attempt * 1000);
+      }
+    }
+    return 'failed';
+  }
+
+  /**
+   * Users who blocked the bot, deleted their account or never opened a private chat cannot be
+   * reached; retrying them only burns rate limit.
+   */
+  private isBlocked(error: unknown): boolean {
+    if (!(error instanceof TelegramError)) {
+      return false;
+    }
+    const description = error.description.toLowerCase();
+    return (
+      error.code === 403 ||
+      description.includes('chat not found') ||
+      description.includes('user is deactivated')
+    );
+  }
+
+  private isTransient(error: unknown): boolean {
+    return !(error instanceof TelegramError) || error.code >= 500;
+  }
+
+  private lease(durationMs = LEASE_MS): BroadcastLease {
+    return { owner: this.owner, until: new Date(Date.now() + durationMs).toISOString() };
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,11 @@
+import { Global, Module } from '@nestjs/common';
+
+import { TopicCatalogService } from './topic-catalog.service';
+import { TopicSearchService } from './topic-search.service';
+
+@Global()
+@Module({
+  providers: [TopicCatalogService, TopicSearchService],
+  exports: [TopicCatalogService, TopicSearchService],
+})
+export class CatalogModule {}
@@ -0,0 +1,652 @@
+import { DEFAULT_LANGUAGE, isLanguage, Language } from '../i18n/language';
+import { isStorageBackend, StorageBackendName, STORAGE_BACKENDS } from '../storage/storage-provider';
+
+export type TopicTranslation = {
+  label?: string;
+  caption?: string;
+  storagePath?: string;
+};
+
+export type CategoryTranslation = {
+  label?: string;
+};
+
+export type ChapterTranslation = {
+  title?: string;
+};
+
+/**
+ * A named point in a topic's video that users can jump to.
+ */
+export type TopicChapter = {
+  title: string;
+  /** Offset into the video in seconds. */
+  start: number;
+  translations?: Partial<Record<Language, ChapterTranslation>>;
+};
+
+export type AssetTranslation = {
+  caption?: string;
+  storagePath?: string;
+  text?: string;
+  label?: string;
+  url?: string;
+};
+
+/**
+ * One message of a topic's answer. `video` stands for the topic's own video (its `storagePath`,
+ * caption, chapters and encoding profile); the other types carry their content themselves.
+ */
+export type TopicAsset = (
+  | { type: 'video' }
+  | { type: 'document'; storagePath: string; caption?: string; fileName?: string }
+  | { type: 'photo'; storagePath: string; caption?: string }
+  | { type: 'text'; text: string; parseMode?: 'HTML' | 'MarkdownV2' }
+  | { type: 'link'; label: string; url: string; text?: string }
+) & {
+  translations?: Partial<Record<Language, AssetTranslation>>;
+};
+
+export type TopicAssetType = TopicAsset['type'];
+
+export type SupportTopic = {
+  key: string;
+  label: string;
+  caption: string;
+  /** Bucket path of the topic's video; absent when the topic's assets include no video. */
+  storagePath?: string;
+  /** Storage backend holding the topic's video and files; STORAGE_BACKEND when omitted. */
+  storageBackend?: StorageBackendName;
+  order: number;
+  enabled: boolean;
+  category?: string;
+  width?: number;
+  height?: number;
+  /** Name of the ffmpeg encoding profile; the default profile when omitted. */
+  encodingProfile?: string;
+  /** Chapters in playback order; offered as buttons after the video is sent. */
+  chapters?: TopicChapter[];
+  /** Extra search terms and synonyms, in any language. */
+  keywords?: string[];
+  /** What the topic sends, in order; just the video when omitted. */
+  assets?: TopicAsset[];
+  /** Only sent to users whose `/verify` request was approved. */
+  requiresVerification?: boolean;
+  translations?: Partial<Record<Language, TopicTranslation>>;
+};
+
+export type VideoTopic = SupportTopic & { storagePath: string };
+
+export type SupportCategory = {
+  key: string;
+  label: string;
+  parent?: string;
+  order: number;
+  translations?: Partial<Record<Language, CategoryTranslation>>;
+};
+
+export type SupportCatalog = {
+  categories: SupportCategory[];
+  topics: SupportTopic[];
+};
+
+export class CatalogValidationError extends Error {
+  constructor(
+    readonly source: string,
+    readonly issues: string[],
+  ) {
+    super(`Invalid topic catalog from ${source}: ${issues.join('; ')}`);
+    this.name = 'CatalogValidationError';
+  }
+}
+
+// Keys end up inside Telegram callback data, which is capped at 64 bytes including the action prefix.
+const TOPIC_KEY_PATTERN = /^[a-z0-9_]{1,48}$/;
+const CATEGORY_KEY_PATTERN = /^[a-z0-9_]{1,32}$/;
+const ENCODING_PROFILE_PATTERN = /^[a-z0-9-]{1,32}$/;
+// One button per chapter; more than this makes the keyboard unusable on a phone.
+export const MAX_TOPIC_CHAPTERS = 20;
+export const MAX_TOPIC_ASSETS = 10;
+const MAX_TOPIC_KEYWORDS = 50;
+const ASSET_TYPES: TopicAssetType[] = ['video', 'document', 'photo', 'text', 'link'];
+const ASSET_TRANSLATION_FIELDS: Record<TopicAssetType, Array<keyof AssetTranslation>> = {
+  video: [],
+  document: ['caption', 'storagePath'],
+  photo: ['caption', 'storagePath'],
+  text: ['text'],
+  link: ['label', 'url', 'text'],
+};
+// Telegram limits for message text and media captions.
+const MAX_TEXT_LENGTH = 4096;
+const MAX_CAPTION_LENGTH = 1024;
+
+/**
+ * Returns the topic with label, caption, storage path and chapter titles overridden for `language`.
+ * The base fields are the default-language text, so missing translations fall back to them field by
+ * field.
+ */
+export function localizeTopic(topic: SupportTopic, language: Language): SupportTopic {
+  if (language === DEFAULT_LANGUAGE) {
+    return topic;
+  }
+
+  const translation = topic.translations?.[language];
+  return {
+    ...topic,
+    label: translation?.label ?? topic.label,
+    caption: translation?.caption ?? topic.caption,
+    storagePath: translation?.storagePath ?? topic.storagePath,
+    chapters: topic.chapters?.map((chapter) => ({
+      ...chapter,
+      title: chapter.translations?.[language]?.title ?? chapter.title,
+    })),
+    assets: topic.assets?.map((asset) => localizeAsset(asset, language)),
+  };
+}
+
+function localizeAsset(asset: TopicAsset, language: Language): TopicAsset {
+  const translation = asset.translations?.[language];
+  if (!translation) {
+    return asset;
+  }
+
+  switch (asset.type) {
+    case 'document':
+    case 'photo':
+      return {
+        ...asset,
+        caption: translation.caption ?? asset.caption,
+        storagePath: translation.storagePath ?? asset.storagePath,
+      };
+    case 'text':
+      return { ...asset, text: translation.text ?? asset.text };
+    case 'link':
+      return {
+        ...asset,
+        label: translation.label ?? asset.label,
+        url: translation.url ?? asset.url,
+        text: translation.text ?? asset.text,
+      };
+    default:
+      return asset;
+  }
+}
+
+/**
+ * The topic's assets in send order; topics without an `assets` list send just their video.
+ */
+export function topicAssets(topic: SupportTopic): TopicAsset[] {
+  return topic.assets ?? [{ type: 'video' }];
+}
+
+export function hasVideo(topic: SupportTopic): topic is VideoTopic {
+  return typeof topic.storagePath === 'string' && topic.storagePath.length > 0;
+}
+
+/**
+ * Formats seconds as `m:ss` (or `h:mm:ss` from one hour), the form Telegram turns into a seek link
+ * in replies to a video.
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Reads a chapter start given as seconds or as `m:ss` / `h:mm:ss`. Returns null when invalid.
+ */
+export function parseTimestamp(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? value : null;
+  }
+  if (typeof value !== 'string' || !/^\d+(:[0-5]\d){0,2}$/.test(value.trim())) {
+    return null;
+  }
+  return value
+    .trim()
+    .split(':')
+    .reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+export function localizeCategory(category: SupportCategory, language: Language): SupportCategory {
+  const translation = language === DEFAULT_LANGUAGE ? undefined : category.translations?.[language];
+  return translation?.label ? { ...category, label: translation.label } : category;
+}
+
+/**
+ * Validates a raw catalog (parsed file contents or mapped table rows) and returns categories and
+ * topics sorted by `order`. Accepts either `{ categories, topics }` or a bare array of topics.
+ * Throws CatalogValidationError listing every problem so a bad edit can be fixed in one go.
+ */
+export function validateCatalog(raw: unknown, source: string): SupportCatalog {
+  const container = raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as Record<string, unknown>) : null;
+  const topicEntries = Array.isArray(raw) ? raw : Array.isArray(container?.topics) ? container.topics : null;
+  const categoryEntries = container?.categories ?? [];
+
+  if (!topicEntries) {
+    throw new CatalogValidationError(source, ['expected an array of topics or an object with a "topics" array']);
+  }
+  if (!Array.isArray(categoryEntries)) {
+    throw new CatalogValidationError(source, ['"categories" must be an array']);
+  }
+
+  const issues: string[] = [];
+  const categories = validateCategories(categoryEntries, issues);
+  const categoryKeys = new Set(categories.map((category) => category.key));
+  const topics = validateTopicEntries(topicEntries, categoryKeys, issues);
+
+  if (issues.length > 0) {
+    throw new CatalogValidationError(source, issues);
+  }
+
+  return {
+    categories: categories.sort((a, b) => a.order - b.order),
+    topics: topics.sort((a, b) => a.order - b.order),
+  };
+}
+
+function validateCategories(entries: unknown[], issues: string[]): SupportCategory[] {
+  const categories: SupportCategory[] = [];
+  const seenKeys = new Set<string>();
+
+  entries.forEach((entry, index) => {
+    const where = `category #${index + 1}`;
+    if (!entry || typeof entry !== 'object') {
+      issues.push(`${where} is not an object`);
+      return;
+    }
+
+    const value = entry as Record<string, unknown>;
+    const entryIssues: string[] = [];
+
+    if (typeof value.key !== 'string' || !CATEGORY_KEY_PATTERN.test(value.key)) {
+      entryIssues.push(`${where} has invalid key (lowercase letters, digits and "_", max 32 chars)`);
+    } else if (seenKeys.has(value.key)) {
+      entryIssues.push(`${where} duplicates key "${value.key}"`);
+    }
+    if (!isNonEmptyString(value.label)) {
+      entryIssues.push(`${where} is missing "label"`);
+    }
+    if (value.parent !== undefined && value.parent !== null && typeof value.parent !== 'string') {
+      entryIssues.push(`${where} has non-string "parent"`);
+    }
+
+    const order = value.order ?? index;
+    if (typeof order !== 'number' || !Number.isFinite(order)) {
+      entryIssues.push(`${where} has non-numeric "order"`);
+    }
+
+    const translations = validateTranslations(value.translations, ['label'], where, entryIssues);
+
+    if (entryIssues.length > 0) {
+      issues.push(...entryIssues);
+      return;
+    }
+
+    seenKeys.add(value.key as string);
+    categories.push({
+      key: value.key as string,
+      label: (value.label as string).trim(),
+      parent: typeof value.parent === 'string' && value.parent.length > 0 ? value.parent : undefined,
+      order: order as number,
+      translations,
+    });
+  });
+
+  const byKey = new Map(categories.map((category) => [category.key, category]));
+  for (const category of categories) {
+    if (category.parent && !byKey.has(category.parent)) {
+      issues.push(`category "${category.key}" has unknown parent "${category.parent}"`);
+      continue;
+    }
+
+    const visited = new Set<string>([category.key]);
+    let parent = category.parent ? byKey.get(category.parent) : undefined;
+    while (parent) {
+      if (visited.has(parent.key)) {
+        issues.push(`category "${category.key}" is part of a parent cycle`);
+        break;
+      }
+      visited.add(parent.key);
+      parent = parent.parent ? byKey.get(parent.parent) : undefined;
+    }
+  }
+
+  return categories;
+}
+
+function validateTopicEntries(
+  entries: unknown[],
+  categoryKeys: Set<string>,
+  issues: string[],
+): SupportTopic[] {
+  const topics: SupportTopic[] = [];
+  const seenKeys = new Set<string>();
+
+  entries.forEach((entry, index) => {
+    const where = `topic #${index + 1}`;
+    if (!entry || typeof entry !== 'object') {
+      issues.push(`${where} is not an object`);
+      return;
+    }
+
+    const value = entry as Record<string, unknown>;
+    const key = value.key;
+    const entryIssues: string[] = [];
+
+    if (typeof key !== 'string' || !TOPIC_KEY_PATTERN.test(key)) {
+      entryIssues.push(`${where} has invalid key (lowercase letters, digits and "_", max 48 chars)`);
+    } else if (seenKeys.has(key)) {
+      entryIssues.push(`${where} duplicates key "${key}"`);
+    }
+
+    for (const field of ['label', 'caption'] as const) {
+      if (!isNonEmptyString(value[field])) {
+        entryIssues.push(`${where} is missing "${field}"`);
+      }
+    }
+
+    const assets = validateAssets(value.assets, where, entryIssues);
+    const wantsVideo = !assets || assets.some((asset) => asset.type === 'video');
+    if (wantsVideo && !isNonEmptyString(value.storagePath)) {
+      entryIssues.push(`${where} is missing "storagePath"`);
+    } else if (!wantsVideo && value.storagePath !== undefined && value.storagePath !== null) {
+      entryIssues.push(`${where} has "storagePath" but no video asset`);
+    }
+
+    const storageBackend = value.storageBackend ?? undefined;
+    if (storageBackend !== undefined && !isStorageBackend(storageBackend)) {
+      entryIssues.push(`${where} has invalid "storageBackend" (one of ${STORAGE_BACKENDS.join(', ')})`);
+    }
+
+    const order = value.order ?? index;
+    if (typeof order !== 'number' || !Number.isFinite(order)) {
+      entryIssues.push(`${where} has non-numeric "order"`);
+    }
+
+    const enabled = value.enabled ?? true;
+    if (typeof enabled !== 'boolean') {
+      entryIssues.push(`${where} has non-boolean "enabled"`);
+    }
+
+    const requiresVerification = value.requiresVerification ?? false;
+    if (typeof requiresVerification !== 'boolean') {
+      entryIssues.push(`${where} has non-boolean "requiresVerification"`);
+    }
+
+    const category = value.category ?? undefined;
+    if (category !== undefined && (typeof category !== 'string' || !categoryKeys.has(category))) {
+      entryIssues.push(`${where} references unknown category "${String(category)}"`);
+    }
+
+    for (const field of ['width', 'height'] as const) {
+      const dimension = value[field];
+      if (dimension !== undefined && dimension !== null && !isPositiveInteger(dimension)) {
+        entryIssues.push(`${where} has invalid "${field}"`);
+      }
+    }
+
+    const encodingProfile = value.encodingProfile ?? undefined;
+    if (
+      encodingProfile !== undefined &&
+      (typeof encodingProfile !== 'string' || !ENCODING_PROFILE_PATTERN.test(encodingProfile))
+    ) {
+      entryIssues.push(`${where} has invalid "encodingProfile"`);
+    }
+
+    const chapters = validateChapters(value.chapters, where, entryIssues);
+    const keywords = validateKeywords(value.keywords, where, entryIssues);
+    const translations = validateTranslations(
+      value.translations,
+      wantsVideo ? ['label', 'caption', 'storagePath'] : ['label', 'caption'],
+      where,
+      entryIssues,
+    );
+    if (!wantsVideo && chapters) {
+      entryIssues.push(`${where} has chapters but no video asset`);
+    }
+
+    if (entryIssues.length > 0) {
+      issues.push(...entryIssues);
+      return;
+    }
+
+    seenKeys.add(key as string);
+    topics.push({
+      key: key as string,
+      label: (value.label as string).trim(),
+      caption: (value.caption as string).trim(),
+      storagePath: wantsVideo ? (value.storagePath as string).trim() : undefined,
+      storageBackend: storageBackend as StorageBackendName | undefined,
+      order: order as number,
+      enabled: enabled as boolean,
+      category: category as string | undefined,
+      width: isPositiveInteger(value.width) ? value.width : undefined,
+      height: isPositiveInteger(value.height) ? value.height : undefined,
+      encodingProfile: encodingProfile as string | undefined,
+      chapters,
+      keywords,
+      assets,
+      requiresVerification: requiresVerification === true ? true : undefined,
+      translations,
+    });
+  });
+
+  return topics;
+}
+
+function validateKeywords(raw: unknown, where: string, issues: string[]): string[] | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+  if (!Array.isArray(raw) || raw.length > MAX_TOPIC_KEYWORDS || !raw.every(isNonEmptyString)) {
+    issues.push(`${where} has invalid "keywords" (up to ${MAX_TOPIC_KEYWORDS} non-empty strings)`);
+    return undefined;
+  }
+  return raw.map((keyword) => keyword.trim());
+}
+
+function validateAssets(raw: unknown, where: string, issues: string[]): TopicAsset[] | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+  if (!Array.isArray(raw) || raw.length === 0) {
+    issues.push(`${where} has "assets" that is not a non-empty array`);
+    return undefined;
+  }
+  if (raw.length > MAX_TOPIC_ASSETS) {
+    issues.push(`${where} has more than ${MAX_TOPIC_ASSETS} assets`);
+    return undefined;
+  }
+
+  const assets: TopicAsset[] = [];
+  const before = issues.length;
+  raw.forEach((entry, index) => {
+    const assetWhere = `${where} asset #${index + 1}`;
+    if (!entry || typeof entry !== 'object') {
+      issues.push(`${assetWhere} is not an object`);
+      return;
+    }
+
+    const value = entry as Record<string, unknown>;
+    const type = value.type as TopicAssetType;
+    if (!ASSET_TYPES.includes(type)) {
+      issues.push(`${assetWhere} has unknown "type" (one of ${ASSET_TYPES.join(', ')})`);
+      return;
+    }
+    if (type === 'video' && assets.some((asset) => asset.type === 'video')) {
+      issues.push(`${assetWhere} is a second video; a topic has one video`);
+      return;
+    }
+
+    const asset = validateAsset(type, value, assetWhere, issues);
+    const translations = validateTranslations(
+      value.translations,
+      ASSET_TRANSLATION_FIELDS[type],
+      assetWhere,
+      issues,
+    );
+    if (asset) {
+      assets.push(translations ? { ...asset, translations } : asset);
+    }
+  });
+
+  return issues.length === before ? assets : undefined;
+}
+
+function validateAsset(
+  type: TopicAssetType,
+  value: Record<string, unknown>,
+  where: string,
+  issues: string[],
+): TopicAsset | null {
+  const optionalText = (field: string, maxLength: number): string | undefined => {
+    const text = value[field];
+    if (text === undefined || text === null) {
+      return undefined;
+    }
+    if (!isNonEmptyString(text) || text.length > maxLength) {
+      issues.push(`${where} has invalid "${field}" (max ${maxLength} chars)`);
+      return undefined;
+    }
+    return text.trim();
+  };
+  const requiredText = (field: string, maxLength: number): string | null => {
+    if (!isNonEmptyString(value[field])) {
+      issues.push(`${where} is missing "${field}"`);
+      return null;
+    }
+    return optionalText(field, maxLength) ?? null;
+  };
+
+  switch (type) {
+    case 'video':
+      return { type };
+    case 'document':
+    case 'photo': {
+      const storagePath = requiredText('storagePath', 1024);
+      const caption = optionalText('caption', MAX_CAPTION_LENGTH);
+      if (type === 'photo') {
+        return storagePath ? { type, storagePath, caption } : null;
+      }
+      const fileName = optionalText('fileName', 255);
+      return storagePath ? { type, storagePath, caption, fileName } : null;
+    }
+    case 'text': {
+      const text = requiredText('text', MAX_TEXT_LENGTH);
+      const parseMode = value.parseMode ?? undefined;
+      if (parseMode !== undefined && parseMode !== 'HTML' && parseMode !== 'MarkdownV2') {
+        issues.push(`${where} has invalid "parseMode" (HTML or MarkdownV2)`);
+        return null;
+      }
+      return text ? { type, text, parseMode } : null;
+    }
+    case 'link': {
+      const label = requiredText('label', 64);
+      const url = requiredText('url', 2048);
+      const text = optionalText('text', MAX_TEXT_LENGTH);
+      if (url && !/^https?:\/\/\S+$/.test(url)) {
+        issues.push(`${where} has invalid "url" (http or https)`);
+        return null;
+      }
+      return label && url ? { type, label, url, text } : null;
+    }
+  }
+}
+
+function validateChapters(raw: unknown, where: string, issues: string[]): TopicChapter[] | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+  if (!Array.isArray(raw)) {
+    issues.push(`${where} has non-array "chapters"`);
+    return undefined;
+  }
+  if (raw.length > MAX_TOPIC_CHAPTERS) {
+    issues.push(`${where} has more than ${MAX_TOPIC_CHAPTERS} chapters`);
+    return undefined;
+  }
+
+  const chapters: TopicChapter[] = [];
+  raw.forEach((entry, index) => {
+    const chapterWhere = `${where} chapter #${index + 1}`;
+    if (!entry || typeof entry !== 'object') {
+      issues.push(`${chapterWhere} is not an object`);
+      return;
+    }
+
+    const value = entry as Record<string, unknown>;
+    const start = parseTimestamp(value.start);
+    if (!isNonEmptyString(value.title)) {
+      issues.push(`${chapterWhere} is missing "title"`);
+    }
+    if (start === null) {
+      issues.push(`${chapterWhere} has invalid "start" (seconds or "m:ss")`);
+    } else if (chapters.length > 0 && start <= chapters[chapters.length - 1].start) {
+      issues.push(`${chapterWhere} does not start after the previous chapter`);
+    }
+    const translations = validateTranslations(value.translations, ['title'], chapterWhere, issues);
+
+    if (isNonEmptyString(value.title) && start !== null) {
+      chapters.push({ title: value.title.trim(), start, translations });
+    }
+  });
+
+  return chapters.length > 0 ? chapters : undefined;
+}
+
+/**
+ * Checks a `{ [language]: { field: text } }` map, accepting only supported languages and the listed
+ * string fields.
+ */
+function validateTranslations<Field extends string>(
+  raw: unknown,
+  fields: Field[],
+  where: string,
+  issues: string[],
+): Partial<Record<Language, Partial<Record<Field, string>>>> | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    issues.push(`${where} has non-object "translations"`);
+    return undefined;
+  }
+
+  const translations: Partial<Record<Language, Partial<Record<Field, string>>>> = {};
+  for (const [language, entry] of Object.entries(raw as Record<string, unknown>)) {
+    if (!isLanguage(language)) {
+      issues.push(`${where} has translations for unsupported language "${language}"`);
+      continue;
+    }
+    if (!entry || typeof entry !== 'object') {
+      issues.push(`${where} has non-object translation for "${language}"`);
+      continue;
+    }
+
+    const translation: Partial<Record<Field, string>> = {};
+    for (const [field, text] of Object.entries(entry as Record<string, unknown>)) {
+      if (!fields.includes(field as Field)) {
+        issues.push(`${where} has unknown translation field "${language}.${field}"`);
+      } else if (!isNonEmptyString(text)) {
+        issues.push(`${where} has empty translation "${language}.${field}"`);
+      } else {
+        translation[field as Field] = text.trim();
+      }
+    }
+    translations[language] = translation;
+  }
+
+  return translations;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
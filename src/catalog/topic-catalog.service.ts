@@ -0,0 +1,412 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FSWatcher, promises as fs, watch } from 'fs';
+import * as path from 'path';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+
+import { parsePositiveInt } from '../common/config-values';
+import { SupabaseService } from '../supabase/supabase.service';
+import { SupportCatalog, SupportCategory, SupportTopic, validateCatalog } from './support-topic';
+
+type CatalogSource = 'supabase' | 'file';
+
+type TopicRow = {
+  key: string;
+  label: string;
+  caption: string;
+  storage_path: string | null;
+  storage_backend: string | null;
+  sort_order: number | null;
+  enabled: boolean | null;
+  category_key: string | null;
+  width: number | null;
+  height: number | null;
+  encoding_profile: string | null;
+  chapters: unknown[] | null;
+  keywords: string[] | null;
+  assets: unknown[] | null;
+  requires_verification: boolean | null;
+  translations: Record<string, unknown> | null;
+};
+
+type CategoryRow = {
+  key: string;
+  label: string;
+  parent_key: string | null;
+  sort_order: number | null;
+  translations: Record<string, unknown> | null;
+};
+
+/**
+ * Owns the support topics and the category tree shown in the bot menu. The catalog comes from
+ * Supabase tables or, for offline development, a local JSON/YAML file. A failed reload keeps the
+ * last good catalog.
+ */
+@Injectable()
+export class TopicCatalogService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(TopicCatalogService.name);
+  private topics: SupportTopic[] = [];
+  private topicsByKey = new Map<string, SupportTopic>();
+  private categories: SupportCategory[] = [];
+  private categoriesByKey = new Map<string, SupportCategory>();
+
+  private readonly source: CatalogSource;
+  private readonly filePath: string;
+  private readonly tableName: string;
+  private readonly categoryTableName: string;
+  private readonly refreshIntervalMs: number | null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private fileWatcher: FSWatcher | null = null;
+  private fileReloadDebounce: NodeJS.Timeout | null = null;
+  private pendingReload: Promise<boolean> | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly supabaseService: SupabaseService,
+  ) {
+    const configuredSource = this.configService.get<string>('CATALOG_SOURCE')?.toLowerCase().trim();
+    if (configuredSource === 'supabase' || configuredSource === 'file') {
+      this.source = configuredSource;
+    } else {
+      this.source = this.supabaseService.getClient() ? 'supabase' : 'file';
+    }
+
+    this.filePath = path.resolve(
+      this.configService.get<string>('CATALOG_FILE') ?? path.join('config', 'topics.json'),
+    );
+    this.tableName = this.configService.get<string>('CATALOG_TABLE') ?? 'support_topics';
+    this.categoryTableName =
+      this.configService.get<string>('CATALOG_CATEGORY_TABLE') ?? 'support_categories';
+    this.refreshIntervalMs =
+      parsePositiveInt(this.configService.get<string>('CATALOG_REFRESH_INTERVAL_MS')) ??
+      (this.source === 'supabase' ? 300_000 : null);
+  }
+
+  async onModuleInit(): Promise<void> {
+    await this.reload();
+
+    if (this.source === 'file') {
+      this.watchFile();
+    }
+
+    if (this.refreshIntervalMs) {
+      this.refreshTimer = setInterval(() => void this.reload(), this.refreshIntervalMs);
+      this.refreshTimer.unref();
+    }
+  }
+
+  onModuleDestroy(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    if (this.fileReloadDebounce) {
+      clearTimeout(this.fileReloadDebounce);
+      this.fileReloadDebounce = null;
+    }
+    this.fileWatcher?.close();
+    this.fileWatcher = null;
+  }
+
+  /**
+   * Enabled topics in menu order.
+   */
+  getTopics(): SupportTopic[] {
+    return this.topics.filter((topic) => topic.enabled);
+  }
+
+  getAllTopics(): SupportTopic[] {
+    return [...this.topics];
+  }
+
+  /**
+   * Looks up an enabled topic by key; disabled or unknown keys return null.
+   */
+  getTopic(key: string): SupportTopic | null {
+    const topic = this.topicsByKey.get(key);
+    return topic && topic.enabled ? topic : null;
+  }
+
+  getCategory(key: string): SupportCategory | null {
+    return this.categoriesByKey.get(key) ?? null;
+  }
+
+  /**
+   * Child categories of `parentKey` (top level when null) that contain at least one enabled topic.
+   */
+  getChildCategories(parentKey: string | null): SupportCategory[] {
+    return this.categories.filter(
+      (category) => (category.parent ?? null) === parentKey && this.hasEnabledTopics(category.key),
+    );
+  }
+
+  /**
+   * Enabled topics placed directly in `categoryKey` (uncategorized topics when null).
+   */
+  getTopicsInCategory(categoryKey: string | null): SupportTopic[] {
+    return this.getTopics().filter((topic) => (topic.category ?? null) === categoryKey);
+  }
+
+  private hasEnabledTopics(categoryKey: string): boolean {
+    if (this.getTopicsInCategory(categoryKey).length > 0) {
+      return true;
+    }
+    return this.categories.some(
+      (category) => category.parent === categoryKey && this.hasEnabledTopics(category.key),
+    );
+  }
+
+  /**
+   * Reloads the catalog from its source. Concurrent calls share one load. Returns false when the
+   * source could not be read or failed validation; the previous catalog stays active in that case.
+   */
+  reload(): Promise<boolean> {
+    if (!this.pendingReload) {
+      this.pendingReload = this.loadAndSwap().finally(() => {
+        this.pendingReload = null;
+      });
+    }
+    return this.pendingReload;
+  }
+
+  /**
+   * Adds or replaces topics (matched by key), validates the whole resulting catalog, writes it back
+   * to the catalog source and makes it active. Writes run one at a time. Throws
+   * CatalogValidationError when the result would be invalid and Error when the write fails; the
+   * active catalog is unchanged in both cases.
+   */
+  saveTopics(changed: SupportTopic[]): Promise<void> {
+    const write = this.pendingWrite.then(() => this.writeTopics(changed));
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Removes a topic from the catalog source and the active catalog. Returns false for an unknown
+   * key. Serialized with saveTopics; throws Error when the write fails.
+   */
+  deleteTopic(key: string): Promise<boolean> {
+    const write = this.pendingWrite.then(() => this.removeTopic(key));
+    this.pendingWrite = write.then(
+      () => undefined,
+      () => undefined,
+    );
+    return write;
+  }
+
+  private async writeTopics(changed: SupportTopic[]): Promise<void> {
+    const topics = new Map(this.topics.map((topic) => [topic.key, topic]));
+    for (const topic of changed) {
+      topics.set(topic.key, topic);
+    }
+    const catalog = validateCatalog({ categories: this.categories, topics: [...topics.values()] }, 'catalog update');
+    const changedKeys = new Set(changed.map((topic) => topic.key));
+
+    if (this.source === 'supabase') {
+      await this.writeToSupabase(catalog.topics.filter((topic) => changedKeys.has(topic.key)));
+    } else {
+      await this.writeToFile(catalog);
+    }
+    this.swap(catalog);
+  }
+
+  private async removeTopic(key: string): Promise<boolean> {
+    if (!this.topicsByKey.has(key)) {
+      return false;
+    }
+
+    const catalog: SupportCatalog = {
+      categories: this.categories,
+      topics: this.topics.filter((topic) => topic.key !== key),
+    };
+    if (this.source === 'supabase') {
+      await this.deleteFromSupabase(key);
+    } else {
+      await this.writeToFile(catalog);
+    }
+    this.swap(catalog);
+    return true;
+  }
+
+  private async loadAndSwap(): Promise<boolean> {
+    let catalog: SupportCatalog | null = null;
+
+    try {
+      catalog = this.source === 'supabase' ? await this.loadFromSupabase() : await this.loadFromFile();
+    } catch (error) {
+      this.logger.error(`Failed to load topic catalog from ${this.source}: ${String(error)}`);
+    }
+
+    if (!catalog && this.source === 'supabase' && this.topics.length === 0) {
+      this.logger.warn(`Falling back to local topic catalog at ${this.filePath}`);
+      try {
+        catalog = await this.loadFromFile();
+      } catch (error) {
+        this.logger.error(`Failed to load fallback topic catalog: ${String(error)}`);
+      }
+    }
+
+    if (!catalog) {
+      return false;
+    }
+
+    this.swap(catalog);
+    return true;
+  }
+
+  private swap(catalog: SupportCatalog): void {
+    this.topics = catalog.topics;
+    this.topicsByKey = new Map(catalog.topics.map((topic) => [topic.key, topic]));
+    this.categories = catalog.categories;
+    this.categoriesByKey = new Map(catalog.categories.map((category) => [category.key, category]));
+    this.logger.log(
+      `Loaded ${this.topics.length} support topics (${this.getTopics().length} enabled) in ${this.categories.length} categories from ${this.source}`,
+    );
+  }
+
+  private async loadFromSupabase(): Promise<SupportCatalog> {
+    const client = this.supabaseService.getClient();
+    if (!client) {
+      throw new Error('Supabase is not configured');
+    }
+
+    const { data, error } = await client
+      .from(this.tableName)
+      .select(
+        'key, label, caption, storage_path, storage_backend, sort_order, enabled, category_key, width, height, encoding_profile, chapters, keywords, assets, requires_verification, translations',
+      )
+      .order('sort_order', { ascending: true });
+
+    if (error) {
+      throw new Error(`table "${this.tableName}": ${error.message}`);
+    }
+
+    const { data: categoryData, error: categoryError } = await client
+      .from(this.categoryTableName)
+      .select('key, label, parent_key, sort_order, translations')
+      .order('sort_order', { ascending: true });
+
+    if (categoryError) {
+      throw new Error(`table "${this.categoryTableName}": ${categoryError.message}`);
+    }
+
+    const rows = (data ?? []) as TopicRow[];
+    const categoryRows = (categoryData ?? []) as CategoryRow[];
+    return validateCatalog(
+      {
+        categories: categoryRows.map((row) => ({
+          key: row.key,
+          label: row.label,
+          parent: row.parent_key ?? undefined,
+          order: row.sort_order ?? undefined,
+          translations: row.translations ?? undefined,
+        })),
+        topics: rows.map((row) => ({
+          key: row.key,
+          label: row.label,
+          caption: row.caption,
+          storagePath: row.storage_path ?? undefined,
+          storageBackend: row.storage_backend ?? undefined,
+          order: row.sort_order ?? undefined,
+          enabled: row.enabled ?? undefined,
+          category: row.category_key ?? undefined,
+          width: row.width ?? undefined,
+          height: row.height ?? undefined,
+          encodingProfile: row.encoding_profile ?? undefined,
+          chapters: row.chapters ?? undefined,
+          keywords: row.keywords ?? undefined,
+          assets: row.assets ?? undefined,
+          requiresVerification: row.requires_verification ?? undefined,
+          translations: row.translations ?? undefined,
+        })),
+      },
+      `supabase tables ${this.tableName}/${this.categoryTableName}`,
+    );
+  }
+
+  private async loadFromFile(): Promise<SupportCatalog> {
+    const contents = await fs.readFile(this.filePath, 'utf8');
+    const extension = path.extname(this.filePath).toLowerCase();
+    const parsed: unknown =
+      extension === '.yaml' || extension === '.yml' ? parseYaml(contents) : JSON.parse(contents);
+    return validateCatalog(parsed, this.filePath);
+  }
+
+  private async writeToSupabase(topics: SupportTopic[]): Promise<void> {
+    const client = this.supabaseService.getClient();
+    if (!client) {
+      throw new Error('Supabase is not configured');
+    }
+
+    const rows: TopicRow[] = topics.map((topic) => ({
+      key: topic.key,
+      label: topic.label,
+      caption: topic.caption,
+      storage_path: topic.storagePath ?? null,
+      storage_backend: topic.storageBackend ?? null,
+      sort_order: topic.order,
+      enabled: topic.enabled,
+      category_key: topic.category ?? null,
+      width: topic.width ?? null,
+      height: topic.height ?? null,
+      encoding_profile: topic.encodingProfile ?? null,
+      chapters: topic.chapters ?? null,
+      keywords: topic.keywords ?? null,
+      assets: topic.assets ?? null,
+      requires_verification: topic.requiresVerification ?? false,
+      translations: topic.translations ?? null,
+    }));
+    const { error } = await client.from(this.tableName).upsert(rows, { onConflict: 'key' });
+
+    if (error) {
+      throw new Error(`table "${this.tableName}": ${error.message}`);
+    }
+  }
+
+  private async deleteFromSupabase(key: string): Promise<void> {
+    const client = this.supabaseService.getClient();
+    if (!client) {
+      throw new Error('Supabase is not configured');
+    }
+
+    const { error } = await client.from(this.tableName).delete().eq('key', key);
+    if (error) {
+      throw new Error(`table "${this.tableName}": ${error.message}`);
+    }
+  }
+
+  /**
+   * Rewrites the catalog file in its own format. The file watcher then reloads what was just
+   * written, which changes nothing.
+   */
+  private async writeToFile(catalog: SupportCatalog): Promise<void> {
+    const extension = path.extname(this.filePath).toLowerCase();
+    const contents =
+      extension === '.yaml' || extension === '.yml'
+        ? stringifyYaml(catalog)
+        : `${JSON.stringify(catalog, null, 2)}\n`;
+    // Written in place: replacing the file would leave the watcher on the old inode.
+    await fs.writeFile(this.filePath, contents, 'utf8');
+  }
+
+  private watchFile(): void {
+    try {
+      this.fileWatcher = watch(this.filePath, () => {
+        if (this.fileReloadDebounce) {
+          clearTimeout(this.fileReloadDebounce);
+        }
+        // Editors often emit several events per save; reload once they settle.
+        this.fileReloadDebounce = setTimeout(() => {
+          this.fileReloadDebounce = null;
+          void this.reload();
+        }, 500);
+      });
+      this.fileWatcher.on('error', (error) => {
+        this.logger.warn(`Stopped watching ${this.filePath}: ${String(error)}`);
+      });
+    } catch (error) {
+      this.logger.warn(`Unable to watch ${this.filePath} for changes: ${String(error)}`);
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { parsePositiveInt } from '../common/config-values';
+import { SupportTopic } from './support-topic';
+import { TopicCatalogService } from './topic-catalog.service';
+
+export type TopicMatch = {
+  topic: SupportTopic;
+  score: number;
+};
+
+type SearchField = { tokens: string[]; text: string; weight: number };
+
+// Words that carry no meaning in questions like "how do I connect my mac".
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'can',
+  'do',
+  'does',
+  'for',
+  'how',
+  'i',
+  'in',
+  'is',
+  'it',
+  'me',
+  'my',
+  'of',
+  'on',
+  'the',
+  'to',
+  'what',
+  'where',
+  'with',
+]);
+
+const LABEL_WEIGHT = 3;
+const KEYWORD_WEIGHT = 3;
+const CAPTION_WEIGHT = 1;
+
+/**
+ * Matches free text against enabled topics: labels, captions and keywords in every language, so a
+ * user writing Khmer finds a topic whose English label does not match. Khmer is written without
+ * spaces between words, so besides whole-word and prefix matches a query token also counts when it
+ * appears anywhere in a field.
+ */
+@Injectable()
+export class TopicSearchService {
+  private readonly maxResults: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly catalog: TopicCatalogService,
+  ) {
+    this.maxResults = parsePositiveInt(this.configService.get<string>('SEARCH_MAX_RESULTS')) ?? 5;
+  }
+
+  /**
+   * Best matches first, at most SEARCH_MAX_RESULTS (or `limit`). Empty when nothing matches.
+   */
+  search(query: string, limit = this.maxResults): TopicMatch[] {
+    const normalizedQuery = normalize(query);
+    const queryTokens = tokenize(normalizedQuery).filter((token) => !STOP_WORDS.has(token));
+    if (queryTokens.length === 0) {
+      return [];
+    }
+
+    return this.catalog
+      .getTopics()
+      .map((topic) => ({ topic, score: this.score(topic, normalizedQuery, queryTokens) }))
+      .filter((match) => match.score > 0)
+      .sort((a, b) => b.score - a.score || a.topic.order - b.topic.order)
+      .slice(0, limit);
+  }
+
+  private score(topic: SupportTopic, normalizedQuery: string, queryTokens: string[]): number {
+    const fields = searchFields(topic);
+    let score = 0;
+    let matchedTokens = 0;
+
+    for (const token of queryTokens) {
+      let best = 0;
+      for (const field of fields) {
+        best = Math.max(best, tokenScore(token, field));
+      }
+      if (best > 0) {
+        matchedTokens += 1;
+        score += best;
+      }
+    }
+    if (matchedTokens === 0) {
+      return 0;
+    }
+
+    // Prefer topics matching every word, and labels containing the whole phrase.
+    score *= matchedTokens / queryTokens.length;
+    if (fields.some((field) => field.weight === LABEL_WEIGHT && field.text.includes(normalizedQuery))) {
+      score += LABEL_WEIGHT * 2;
+    }
+    return score;
+  }
+}
+
+function searchFields(topic: SupportTopic): SearchField[] {
+  const field = (text: string, weight: number): SearchField => {
+    const normalized = normalize(text);
+    return { tokens: tokenize(normalized), text: normalized, weight };
+  };
+
+  const fields = [
+    field(topic.label, LABEL_WEIGHT),
+    field(topic.caption, CAPTION_WEIGHT),
+    ...(topic.keywords ?? []).map((keyword) => field(keyword, KEYWORD_WEIGHT)),
+  ];
+  for (const translation of Object.values(topic.translations ?? {})) {
+    if (translation?.label) {
+      fields.push(field(translation.label, LABEL_WEIGHT));
+    }
+    if (translation?.caption) {
+      fields.push(field(translation.caption, CAPTION_WEIGHT));
+    }
+  }
+  return fields;
+}
+
+function tokenScore(token: string, field: SearchField): number {
+  if (field.tokens.includes(token)) {
+    return field.weight * 2;
+  }
+  if (token.length >= 2 && field.tokens.some((candidate) => candidate.startsWith(token))) {
+    return field.weight * 1.5;
+  }
+  if (token.length >= 3 && field.text.includes(token)) {
+    return field.weight;
+  }
+  // Allow one typo in longer words ("conect", "pasword").
+  if (token.length >= 5 && field.tokens.some((candidate) => withinOneEdit(token, candidate))) {
+    return field.weight;
+  }
+  return 0;
+}
+
+function normalize(text: string): string {
+  return text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function tokenize(normalized: string): string[] {
+  return normalized.split(' ').filter((token) => token.length > 0);
+}
+
+function withinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) {
+    return false;
+  }
+
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i += 1;
+      j += 1;
+      continue;
+    }
+    edits += 1;
+    if (edits > 1) {
+      return false;
+    }
+    if (a.length > b.length) {
+      i += 1;
+    } else if (b.length > a.length) {
+      j += 1;
+    } else {
+      i += 1;
+      j += 1;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
@@ -0,0 +1,23 @@
+/**
+ * Parsers for numeric settings read through ConfigService, where every value arrives as a string.
+ * A missing or invalid value yields null so callers can fall back with `??`.
+ */
+
+export function parsePositiveInt(value: string | null | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * A Telegram chat id; group and channel ids are negative, so only 0 is rejected.
+ */
+export function parseChatId(value: string | null | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed !== 0 ? parsed : null;
+}
@@ -0,0 +1,25 @@
+import { Controller, Get, ServiceUnavailableException } from '@nestjs/common';
+
+import { HealthService } from './health.service';
+
+@Controller('health')
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  @Get('live')
+  live() {
+    return this.healthService.getLiveness();
+  }
+
+  /**
+   * 200 with the report when every check passes; 503 with the same report when one fails.
+   */
+  @Get('ready')
+  async ready() {
+    const report = await this.healthService.getReadiness();
+    if (report.status !== 'ready') {
+      throw new ServiceUnavailableException(report);
+    }
+    return report;
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+
+import { TelegramModule } from '../telegram/telegram.module';
+import { HealthController } from './health.controller';
+import { HealthService } from './health.service';
+
+@Module({
+  imports: [TelegramModule],
+  providers: [HealthService],
+  controllers: [HealthController],
+})
+export class HealthModule {}
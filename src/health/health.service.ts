@@ -0,0 +1,204 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+
+import { parsePositiveInt } from '../common/config-values';
+import { StorageService } from '../storage/storage.service';
+import { TelegramService } from '../telegram/telegram.service';
+import { TempWorkspaceService } from '../telegram/temp-workspace.service';
+import { VideoDeliveryService } from '../telegram/video-delivery.service';
+import { VideoJobWorkerService } from '../telegram/video-job-worker.service';
+
+/**
+ * `fail` makes the instance not ready; `warn` is reported but the bot still works, e.g. it sends
+ * videos without re-encoding when ffmpeg is missing.
+ */
+export type CheckStatus = 'ok' | 'warn' | 'fail';
+
+export type HealthCheck = {
+  status: CheckStatus;
+  /** Why the check is not ok. */
+  message?: string;
+  details?: Record<string, unknown>;
+};
+
+export type ReadinessReport = {
+  status: 'ready' | 'degraded';
+  checkedAt: string;
+  checks: {
+    bot: HealthCheck;
+    storage: HealthCheck;
+    ffmpeg: HealthCheck;
+    tempDir: HealthCheck;
+    queue: HealthCheck;
+  };
+};
+
+// Telegram keeps the last webhook error around after it recovered; only recent ones count.
+const WEBHOOK_ERROR_WINDOW_MS = 5 * 60 * 1000;
+const MB = 1024 * 1024;
+
+/**
+ * Liveness and readiness of this instance. Readiness asks Telegram, Supabase and the local
+ * machine, each with a time limit so a hanging dependency shows up as a failed check instead of a
+ * hanging probe.
+ */
+@Injectable()
+export class HealthService {
+  private readonly startedAt = Date.now();
+  private readonly checkTimeoutMs: number;
+  private readonly minTempFreeBytes: number;
+  private readonly maxQueuedJobs: number | null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly telegramService: TelegramService,
+    private readonly storage: StorageService,
+    private readonly videoDelivery: VideoDeliveryService,
+    private readonly videoJobs: VideoJobWorkerService,
+    private readonly workspace: TempWorkspaceService,
+  ) {
+    this.checkTimeoutMs = parsePositiveInt(this.configService.get<string>('HEALTH_CHECK_TIMEOUT_MS')) ?? 5000;
+    this.minTempFreeBytes = (parsePositiveInt(this.configService.get<string>('HEALTH_MIN_TEMP_FREE_MB')) ?? 512) * MB;
+    this.maxQueuedJobs = parsePositiveInt(this.configService.get<string>('HEALTH_MAX_QUEUED_JOBS'));
+  }
+
+  /**
+   * The process is up and serving HTTP; says nothing about dependencies.
+   */
+  getLiveness(): { status: 'ok'; uptimeSeconds: number } {
+    return { status: 'ok', uptimeSeconds: Math.floor((Date.now() - this.startedAt) / 1000) };
+  }
+
+  async getReadiness(): Promise<ReadinessReport> {
+    const [bot, storage, ffmpeg, tempDir, queue] = await Promise.all([
+      this.runCheck(() => this.checkBot()),
+      this.runCheck(() => this.checkStorage()),
+      this.runCheck(() => this.checkFfmpeg()),
+      this.runCheck(() => this.checkTempDir()),
+      this.runCheck(() => this.checkQueue()),
+    ]);
+    const checks = { bot, storage, ffmpeg, tempDir, queue };
+
+    return {
+      status: Object.values(checks).some((check) => check.status === 'fail') ? 'degraded' : 'ready',
+      checkedAt: new Date().toISOString(),
+      checks,
+    };
+  }
+
+  private async checkBot(): Promise<HealthCheck> {
+    const status = await this.telegramService.getStatus();
+    const details = {
+      mode: status.mode,
+      running: status.running,
+      webhookFallback: status.webhookFallback,
+      expectedWebhookUrl: status.expectedWebhookUrl,
+      webhook: status.webhook,
+    };
+
+    if (!status.running) {
+      return { status: 'fail', message: status.lastError ?? 'The bot is not running', details };
+    }
+    if (status.webhookFallback) {
+      const reason = status.lastError ?? 'the webhook could not be set';
+      return { status: 'fail', message: `Fell back to polling: ${reason}`, details };
+    }
+    if (!status.webhook) {
+      return { status: 'fail', message: `getWebhookInfo failed: ${status.webhookInfoError}`, details };
+    }
+    if (status.mode === 'webhook') {
+      if (status.webhook.url !== status.expectedWebhookUrl) {
+        return { status: 'fail', message: `Telegram has webhook ${status.webhook.url ?? '(none)'} set`, details };
+      }
+      const lastErrorAt = status.webhook.lastErrorAt ? Date.parse(status.webhook.lastErrorAt) : null;
+      const recentError = lastErrorAt !== null && Date.now() - lastErrorAt < WEBHOOK_ERROR_WINDOW_MS;
+      // A recent error with updates piling up means Telegram cannot reach this webhook right now.
+      if (recentError && status.webhook.pendingUpdateCount > 0) {
+        const message = `Telegram cannot deliver updates: ${status.webhook.lastErrorMessage}`;
+        return { status: 'fail', message, details };
+      }
+    }
+    return { status: 'ok', details };
+  }
+
+  /**
+   * Every configured backend, since topics can use any of them; the default one must exist.
+   */
+  private async checkStorage(): Promise<HealthCheck> {
+    const defaultBackend = this.storage.getDefaultBackend();
+    const providers = this.storage.list();
+    const results = await Promise.all(
+      providers.map(async (provider) => ({ provider, error: await provider.check() })),
+    );
+    const details = Object.fromEntries(
+      results.map(({ provider, error }) => [provider.name, { location: provider.location, error }]),
+    );
+
+    if (!this.storage.get(defaultBackend)) {
+      return { status: 'fail', message: `Storage backend ${defaultBackend} is not configured`, details };
+    }
+    const failures = results
+      .filter(({ error }) => error !== null)
+      .map(({ provider, error }) => `${provider.name} (${provider.location}) is not reachable: ${error}`);
+    return failures.length > 0 ? { status: 'fail', message: failures.join('; '), details } : { status: 'ok', details };
+  }
+
+  private async checkFfmpeg(): Promise<HealthCheck> {
+    const [ffmpeg, ffprobe] = await Promise.all([
+      this.videoDelivery.checkFfmpegAvailable(),
+      this.videoDelivery.checkFfprobeAvailable(),
+    ]);
+    const missing = [ffmpeg ? null : 'ffmpeg', ffprobe ? null : 'ffprobe'].filter(Boolean);
+    return missing.length > 0
+      ? { status: 'warn', message: `${missing.join(' and ')} not found on PATH`, details: { ffmpeg, ffprobe } }
+      : { status: 'ok', details: { ffmpeg, ffprobe } };
+  }
+
+  private async checkTempDir(): Promise<HealthCheck> {
+    const directory = this.workspace.directory;
+    const stats = await fs.statfs(directory);
+    const freeBytes = stats.bavail * stats.bsize;
+    const { usedBytes, quotaBytes } = await this.workspace.getUsage();
+    const details = {
+      path: directory,
+      freeMb: Math.floor(freeBytes / MB),
+      minFreeMb: this.minTempFreeBytes / MB,
+      usedMb: Math.ceil(usedBytes / MB),
+      quotaMb: quotaBytes / MB,
+    };
+    if (freeBytes < this.minTempFreeBytes) {
+      return { status: 'fail', message: `Only ${details.freeMb} MB free in ${directory}`, details };
+    }
+    // Jobs beyond the quota fail until running ones clean up, but the bot still answers.
+    return usedBytes >= quotaBytes * 0.9
+      ? { status: 'warn', message: `${details.usedMb} of ${details.quotaMb} MB of the temp quota in use`, details }
+      : { status: 'ok', details };
+  }
+
+  private async checkQueue(): Promise<HealthCheck> {
+    const { queued, running } = await this.videoJobs.countActiveJobs();
+    const details = { queued, running, maxQueued: this.maxQueuedJobs };
+    return this.maxQueuedJobs !== null && queued > this.maxQueuedJobs
+      ? { status: 'fail', message: `${queued} video jobs are waiting`, details }
+      : { status: 'ok', details };
+  }
+
+  private async runCheck(check: () => Promise<HealthCheck>): Promise<HealthCheck> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<HealthCheck>((resolve) => {
+      timer = setTimeout(
+        () => resolve({ status: 'fail', message: `No answer within ${this.checkTimeoutMs} ms` }),
+        this.checkTimeoutMs,
+      );
+    });
+
+    try {
+      return await Promise.race([check(), timeout]);
+    } catch (error) {
+      return { status: 'fail', message: String(error) };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
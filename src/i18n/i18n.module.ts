@@ -0,0 +1,11 @@
+import { Global, Module } from '@nestjs/common';
+
+import { I18nService } from './i18n.service';
+import { UserLanguageService } from './user-language.service';
+
+@Global()
+@Module({
+  providers: [I18nService, UserLanguageService],
+  exports: [I18nService, UserLanguageService],
+})
+export class I18nModule {}
@@ -0,0 +1,87 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+import { DEFAULT_LANGUAGE, isLanguage, Language } from './language';
+import { en, MessageKey } from './messages/en';
+import { km } from './messages/km';
+
+const catalogs: Record<Language, Record<MessageKey, string>> = { en, km };
+
+type MessageOverrides = Partial<Record<Language, Partial<Record<MessageKey, string>>>>;
+
+@Injectable()
+export class I18nService implements OnModuleInit {
+  private readonly logger = new Logger(I18nService.name);
+  private overrides: MessageOverrides = {};
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Loads MESSAGES_FILE, a JSON or YAML map of `{ [language]: { [messageKey]: text } }` that
+   * replaces built-in texts, e.g. to brand the welcome message per bot. Unknown languages and keys
+   * are skipped with a warning.
+   */
+  async onModuleInit(): Promise<void> {
+    const file = this.configService.get<string>('MESSAGES_FILE')?.trim();
+    if (!file) {
+      return;
+    }
+
+    try {
+      const contents = await fs.readFile(path.resolve(file), 'utf8');
+      const extension = path.extname(file).toLowerCase();
+      const parsed: unknown = extension === '.yaml' || extension === '.yml' ? parseYaml(contents) : JSON.parse(contents);
+      this.overrides = this.parseOverrides(parsed, file);
+    } catch (error) {
+      this.logger.error(`Failed to load message overrides from ${file}: ${String(error)}`);
+    }
+  }
+
+  /**
+   * Returns the message for `key` in `language`, replacing `{name}` placeholders from `params`.
+   * Falls back to the default language when a catalog is missing the key.
+   */
+  t(language: Language, key: MessageKey, params: Record<string, string | number> = {}): string {
+    const template =
+      this.overrides[language]?.[key] ??
+      catalogs[language]?.[key] ??
+      this.overrides[DEFAULT_LANGUAGE]?.[key] ??
+      catalogs[DEFAULT_LANGUAGE][key];
+    return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in params ? String(params[name]) : match,
+    );
+  }
+
+  private parseOverrides(raw: unknown, source: string): MessageOverrides {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      this.logger.warn(`${source} is not a map of languages; ignoring it`);
+      return {};
+    }
+
+    const overrides: MessageOverrides = {};
+    let count = 0;
+    for (const [language, messages] of Object.entries(raw as Record<string, unknown>)) {
+      if (!isLanguage(language) || !messages || typeof messages !== 'object') {
+        this.logger.warn(`Ignoring message overrides for unsupported language "${language}" in ${source}`);
+        continue;
+      }
+
+      const entries: Partial<Record<MessageKey, string>> = {};
+      for (const [key, text] of Object.entries(messages as Record<string, unknown>)) {
+        if (!(key in en) || typeof text !== 'string' || text.trim().length === 0) {
+          this.logger.warn(`Ignoring message override "${language}.${key}" in ${source}`);
+          continue;
+        }
+        entries[key as MessageKey] = text;
+        count += 1;
+      }
+      overrides[language] = entries;
+    }
+
+    this.logger.log(`Loaded ${count} message overrides from ${source}`);
+    return overrides;
+  }
+}
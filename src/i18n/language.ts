@@ -0,0 +1,25 @@
+export const SUPPORTED_LANGUAGES = ['en', 'km'] as const;
+
+export type Language = (typeof SUPPORTED_LANGUAGES)[number];
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+/**
+ * Names shown on the language picker, each written in its own language.
+ */
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: '🇬🇧 English',
+  km: '🇰🇭 ខ្មែរ',
+};
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && (SUPPORTED_LANGUAGES as readonly string[]).includes(value);
+}
+
+/**
+ * Maps Telegram's IETF `language_code` (e.g. `km`, `en-US`) onto a supported language.
+ */
+export function languageFromTelegramCode(code: string | null | undefined): Language {
+  const primary = code?.toLowerCase().split('-')[0];
+  return isLanguage(primary) ? primary : DEFAULT_LANGUAGE;
+}
@@ -0,0 +1,85 @@
+export const en = {
+  intro:
+    'Hi! Choose a support topic below and I will send you the matching guide.\n\nYou can type /help any time to see this menu again.',
+  unknownOption: 'Unknown option',
+  genericError: '⚠️ Something went wrong, please try again.',
+  menuUnavailable: 'This menu is no longer available.',
+  menuChooseGuide: 'Choose a guide below.',
+  menuBack: '⬅️ Back',
+  menuHome: '🏠 Home',
+  sendingVideoToast: 'Sending video…',
+  videoSending: '📤 Video is sending...',
+  videoQueued: '⏳ Queued: {position} video(s) ahead of this one.',
+  videoQueueFull: '⏳ You already have several videos waiting. Please wait until they are sent.',
+  videoCancelButton: '✖️ Cancel',
+  videoCancelled: '✖️ Video cancelled.',
+  videoDownloading: '⬇️ Downloading {label}...',
+  videoEncoding: '🎞 Preparing {label} for Telegram...',
+  videoUploading: '📤 Uploading {label}...',
+  videoUploadingPart: '📤 Uploading part {part}/{total} of {label}...',
+  videoPartCaption: 'Part {part}/{total} — {caption}',
+  videoRetrying: '🔁 Sending failed, retrying in {seconds}s...',
+  videoSent: '✅ Video sent: {label}',
+  topicSent: '✅ Sent: {label}',
+  assetLinkPrompt: '🔗 Tap the button below:',
+  videoChaptersPrompt: '📑 Jump to a chapter of {label}:',
+  videoChapterCaption: '{title} ({time}) — {caption}',
+  videoChapterAt: '▶️ {title} starts at {time}.',
+  videoUnavailableReply: '⚠️ This video is not available right now. Please try again later.',
+  videoUnavailableStatus: '⚠️ Video will be sent once available.',
+  videoFailedReply: 'Sorry, failed to send the video. Please try again in a moment.',
+  videoFailedStatus: '❌ Failed to send video. Please try again.',
+  languagePrompt: 'Choose your language:',
+  languageChanged: 'Language set to English.',
+  supportButton: '💬 Talk to support',
+  supportOpened:
+    '💬 You are now connected to our support team. Send your question, screenshots or photos here and an operator will reply in this chat.\n\nSend /close when your issue is solved.',
+  supportAlreadyOpen: '💬 Your support ticket is already open. Just send your message here.',
+  supportUnavailable: 'Support chat is not available right now. Please try again later.',
+  supportForwardFailed: '⚠️ Your message could not be delivered to support. Please try again.',
+  supportHint: 'Choose a topic from /help, or tap below to ask our support team.',
+  searchResults: '🔎 These guides may help:',
+  searchNoResults: '🤔 I could not find a guide for that. Type /help to browse all topics.',
+  searchNoResultsSupport: '🤔 I could not find a guide for that. Type /help to browse all topics, or tap below to ask our support team.',
+  inlineWatchButton: '▶️ Watch in the bot',
+  inlineOpenBotHint: 'Open the bot to watch this guide.',
+  setupUnavailable: 'The setup guide is not available right now. Type /help to browse all topics.',
+  setupIntro:
+    '🧭 Let\'s set everything up together, one step at a time. After each guide, tap "Done" to continue or "Need help" if you get stuck.',
+  setupStep: '🧭 Step {step}/{total}: {label}',
+  setupConfirmPrompt: 'Step {step}/{total}: {label}\nDone with this step?',
+  setupDoneButton: '✅ Done',
+  setupHelpButton: '🆘 Need help',
+  setupHelpPrompt:
+    'No problem! Watch the guide for step {step} again, or ask our support team. Tap "Done" once the step works.',
+  setupHelpPromptNoSupport: 'No problem! Watch the guide for step {step} again and follow it slowly. Tap "Done" once the step works.',
+  setupRepeatButton: '🔁 Watch again',
+  setupResumePrompt: '🧭 Welcome back! You stopped at step {step}/{total}: {label}.',
+  setupResumeButton: '▶️ Continue',
+  setupRestartButton: '🔄 Start over',
+  setupCompleted: '🎉 All {total} steps are done, your setup is complete! Type /setup to go through it again or /help for other guides.',
+  setupStepExpired: 'This step is already finished.',
+  verifyButton: '🔐 Verify my account',
+  verificationRequired:
+    '🔐 "{label}" is only for verified members. Verify your Exness account and Bhub email first, it only takes a minute.',
+  verifyAskAccount: '🔐 Account verification\n\nStep 1/2: Send your Exness account ID (the account number, digits only).',
+  verifyInvalidAccount: '⚠️ That does not look like an Exness account ID. Please send only the digits of your account number.',
+  verifyAskEmail: 'Step 2/2: Send the email address you use for Bhub.',
+  verifyInvalidEmail: '⚠️ That does not look like an email address. Please send the email you use for Bhub, e.g. name@example.com.',
+  verifySubmitted: '✅ Thanks! Your details were sent for review. I will message you here once an admin has checked them.',
+  verifyPending: '⏳ Your verification is still being reviewed. I will message you as soon as it is done.',
+  verifyAlreadyVerified: '✅ Your account is already verified.',
+  verifyApproved: '✅ Your account is verified! You now have access to every guide. Send /setup to continue the setup guide.',
+  verifyRejected:
+    '❌ We could not verify your account. Check your Exness account ID and Bhub email, then send /verify to try again, or /support to ask our team.',
+  verifyUnavailable: 'Verification is not available right now. Please try again later.',
+  verifyCancelButton: '✖️ Cancel',
+  verifyCancelled: 'Verification cancelled.',
+  supportClosed: '✅ Your support ticket is closed. Send /support any time if you need more help.',
+  supportNoTicket: 'You have no open support ticket.',
+  rateLimited: '⏳ You are going a bit fast. Please wait {seconds}s and try again.',
+  rateLimitBanned: '🚫 Too many requests. You can use the bot again in {minutes} min.',
+  botBusy: '⏳ The bot is very busy right now. Please try again in a minute.',
+};
+
+export type MessageKey = keyof typeof en;
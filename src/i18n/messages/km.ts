@@ -0,0 +1,86 @@
+import { MessageKey } from './en';
+
+export const km: Record<MessageKey, string> = {
+  intro:
+    'សួស្តី! សូមជ្រើសរើសប្រធានបទជំនួយខាងក្រោម ហើយខ្ញុំនឹងផ្ញើវីដេអូណែនាំដែលត្រូវគ្នាជូនអ្នក។\n\nអ្នកអាចវាយ /help នៅពេលណាក៏បាន ដើម្បីមើលម៉ឺនុយនេះម្តងទៀត។',
+  unknownOption: 'ជម្រើសមិនស្គាល់',
+  genericError: '⚠️ មានបញ្ហាកើតឡើង សូមព្យាយាមម្តងទៀត។',
+  menuUnavailable: 'ម៉ឺនុយនេះលែងមានទៀតហើយ។',
+  menuChooseGuide: 'សូមជ្រើសរើសវីដេអូណែនាំខាងក្រោម។',
+  menuBack: '⬅️ ត្រឡប់ក្រោយ',
+  menuHome: '🏠 ទំព័រដើម',
+  sendingVideoToast: 'កំពុងផ្ញើវីដេអូ…',
+  videoSending: '📤 កំពុងផ្ញើវីដេអូ...',
+  videoQueued: '⏳ កំពុងរង់ចាំ៖ មានវីដេអូ {position} នៅមុខវីដេអូនេះ។',
+  videoQueueFull: '⏳ អ្នកមានវីដេអូជាច្រើនកំពុងរង់ចាំរួចហើយ។ សូមរង់ចាំរហូតដល់ពួកវាត្រូវបានផ្ញើ។',
+  videoCancelButton: '✖️ បោះបង់',
+  videoCancelled: '✖️ បានបោះបង់វីដេអូ។',
+  videoDownloading: '⬇️ កំពុងទាញយក {label}...',
+  videoEncoding: '🎞 កំពុងរៀបចំ {label} សម្រាប់ Telegram...',
+  videoUploading: '📤 កំពុងបង្ហោះ {label}...',
+  videoUploadingPart: '📤 កំពុងបង្ហោះផ្នែកទី {part}/{total} នៃ {label}...',
+  videoPartCaption: 'ផ្នែកទី {part}/{total} — {caption}',
+  videoRetrying: '🔁 ការផ្ញើមិនបានសម្រេច កំពុងព្យាយាមម្តងទៀតក្នុងរយៈពេល {seconds} វិនាទី...',
+  videoSent: '✅ បានផ្ញើវីដេអូ៖ {label}',
+  topicSent: '✅ បានផ្ញើ៖ {label}',
+  assetLinkPrompt: '🔗 សូមចុចប៊ូតុងខាងក្រោម៖',
+  videoChaptersPrompt: '📑 លោតទៅជំពូកនៃ {label}៖',
+  videoChapterCaption: '{title} ({time}) — {caption}',
+  videoChapterAt: '▶️ {title} ចាប់ផ្តើមនៅ {time}។',
+  videoUnavailableReply: '⚠️ វីដេអូនេះមិនអាចប្រើបាននៅពេលនេះទេ។ សូមព្យាយាមម្តងទៀតនៅពេលក្រោយ។',
+  videoUnavailableStatus: '⚠️ វីដេអូនឹងត្រូវផ្ញើនៅពេលមាន។',
+  videoFailedReply: 'សូមអភ័យទោស ការផ្ញើវីដេអូមិនបានសម្រេច។ សូមព្យាយាមម្តងទៀតបន្តិចទៀត។',
+  videoFailedStatus: '❌ ផ្ញើវីដេអូមិនបានសម្រេច។ សូមព្យាយាមម្តងទៀត។',
+  languagePrompt: 'សូមជ្រើសរើសភាសារបស់អ្នក៖',
+  languageChanged: 'ភាសាត្រូវបានប្តូរទៅជាភាសាខ្មែរ។',
+  supportButton: '💬 ទាក់ទងផ្នែកជំនួយ',
+  supportOpened:
+    '💬 ឥឡូវនេះអ្នកបានភ្ជាប់ទៅក្រុមជំនួយរបស់យើងហើយ។ សូមផ្ញើសំណួរ រូបថតអេក្រង់ ឬរូបភាពនៅទីនេះ ហើយប្រតិបត្តិករនឹងឆ្លើយតបក្នុងការជជែកនេះ។\n\nផ្ញើ /close នៅពេលបញ្ហារបស់អ្នកត្រូវបានដោះស្រាយ។',
+  supportAlreadyOpen: '💬 សំបុត្រជំនួយរបស់អ្នកបានបើករួចហើយ។ សូមផ្ញើសាររបស់អ្នកនៅទីនេះ។',
+  supportUnavailable: 'ការជជែកជាមួយផ្នែកជំនួយមិនអាចប្រើបានទេនៅពេលនេះ។ សូមព្យាយាមម្តងទៀតពេលក្រោយ។',
+  supportForwardFailed: '⚠️ មិនអាចផ្ញើសាររបស់អ្នកទៅផ្នែកជំនួយបានទេ។ សូមព្យាយាមម្តងទៀត។',
+  supportHint: 'សូមជ្រើសរើសប្រធានបទពី /help ឬចុចខាងក្រោមដើម្បីសួរក្រុមជំនួយរបស់យើង។',
+  searchResults: '🔎 ការណែនាំទាំងនេះអាចជួយអ្នកបាន៖',
+  searchNoResults: '🤔 រកមិនឃើញការណែនាំសម្រាប់សំណួរនេះទេ។ វាយ /help ដើម្បីមើលប្រធានបទទាំងអស់។',
+  searchNoResultsSupport: '🤔 រកមិនឃើញការណែនាំសម្រាប់សំណួរនេះទេ។ វាយ /help ដើម្បីមើលប្រធានបទទាំងអស់ ឬចុចខាងក្រោមដើម្បីសួរក្រុមជំនួយ។',
+  inlineWatchButton: '▶️ មើលនៅក្នុងបូត',
+  inlineOpenBotHint: 'បើកបូតដើម្បីមើលការណែនាំនេះ។',
+  setupUnavailable: 'ការណែនាំការដំឡើងមិនទាន់អាចប្រើបានទេឥឡូវនេះ។ វាយ /help ដើម្បីមើលប្រធានបទទាំងអស់។',
+  setupIntro:
+    '🧭 តោះរៀបចំអ្វីៗទាំងអស់ជាមួយគ្នា ម្តងមួយជំហាន។ បន្ទាប់ពីការណែនាំនីមួយៗ សូមចុច "រួចរាល់" ដើម្បីបន្ត ឬ "ត្រូវការជំនួយ" ប្រសិនបើអ្នកជាប់គាំង។',
+  setupStep: '🧭 ជំហាន {step}/{total}: {label}',
+  setupConfirmPrompt: 'ជំហាន {step}/{total}: {label}\nតើអ្នកបានធ្វើជំហាននេះរួចហើយឬនៅ?',
+  setupDoneButton: '✅ រួចរាល់',
+  setupHelpButton: '🆘 ត្រូវការជំនួយ',
+  setupHelpPrompt:
+    'មិនអីទេ! សូមមើលការណែនាំសម្រាប់ជំហាន {step} ម្តងទៀត ឬសួរក្រុមជំនួយរបស់យើង។ ចុច "រួចរាល់" នៅពេលជំហាននេះដំណើរការ។',
+  setupHelpPromptNoSupport:
+    'មិនអីទេ! សូមមើលការណែនាំសម្រាប់ជំហាន {step} ម្តងទៀត ហើយធ្វើតាមយឺតៗ។ ចុច "រួចរាល់" នៅពេលជំហាននេះដំណើរការ។',
+  setupRepeatButton: '🔁 មើលម្តងទៀត',
+  setupResumePrompt: '🧭 សូមស្វាគមន៍ការត្រឡប់មកវិញ! អ្នកបានឈប់នៅជំហាន {step}/{total}: {label}។',
+  setupResumeButton: '▶️ បន្ត',
+  setupRestartButton: '🔄 ចាប់ផ្តើមម្តងទៀត',
+  setupCompleted: '🎉 ជំហានទាំង {total} បានបញ្ចប់ ការដំឡើងរបស់អ្នករួចរាល់ហើយ! វាយ /setup ដើម្បីធ្វើម្តងទៀត ឬ /help សម្រាប់ការណែនាំផ្សេងៗ។',
+  setupStepExpired: 'ជំហាននេះបានបញ្ចប់រួចហើយ។',
+  verifyButton: '🔐 ផ្ទៀងផ្ទាត់គណនីរបស់ខ្ញុំ',
+  verificationRequired:
+    '🔐 "{label}" សម្រាប់តែសមាជិកដែលបានផ្ទៀងផ្ទាត់ប៉ុណ្ណោះ។ សូមផ្ទៀងផ្ទាត់គណនី Exness និងអ៊ីមែល Bhub របស់អ្នកជាមុនសិន វាចំណាយពេលតែមួយនាទីប៉ុណ្ណោះ។',
+  verifyAskAccount: '🔐 ការផ្ទៀងផ្ទាត់គណនី\n\nជំហាន 1/2: សូមផ្ញើលេខសម្គាល់គណនី Exness របស់អ្នក (លេខគណនី តែខ្ទង់លេខប៉ុណ្ណោះ)។',
+  verifyInvalidAccount: '⚠️ នេះមិនដូចជាលេខសម្គាល់គណនី Exness ទេ។ សូមផ្ញើតែខ្ទង់លេខនៃលេខគណនីរបស់អ្នក។',
+  verifyAskEmail: 'ជំហាន 2/2: សូមផ្ញើអាសយដ្ឋានអ៊ីមែលដែលអ្នកប្រើសម្រាប់ Bhub។',
+  verifyInvalidEmail: '⚠️ នេះមិនដូចជាអាសយដ្ឋានអ៊ីមែលទេ។ សូមផ្ញើអ៊ីមែលដែលអ្នកប្រើសម្រាប់ Bhub ឧទាហរណ៍ name@example.com។',
+  verifySubmitted: '✅ អរគុណ! ព័ត៌មានរបស់អ្នកត្រូវបានផ្ញើទៅពិនិត្យ។ ខ្ញុំនឹងផ្ញើសារមកអ្នកនៅទីនេះ នៅពេលអ្នកគ្រប់គ្រងបានពិនិត្យរួច។',
+  verifyPending: '⏳ ការផ្ទៀងផ្ទាត់របស់អ្នកកំពុងត្រូវបានពិនិត្យ។ ខ្ញុំនឹងផ្ញើសារមកអ្នកភ្លាមៗនៅពេលរួចរាល់។',
+  verifyAlreadyVerified: '✅ គណនីរបស់អ្នកត្រូវបានផ្ទៀងផ្ទាត់រួចហើយ។',
+  verifyApproved: '✅ គណនីរបស់អ្នកត្រូវបានផ្ទៀងផ្ទាត់! ឥឡូវនេះអ្នកអាចមើលការណែនាំទាំងអស់បាន។ ផ្ញើ /setup ដើម្បីបន្តការណែនាំការដំឡើង។',
+  verifyRejected:
+    '❌ យើងមិនអាចផ្ទៀងផ្ទាត់គណនីរបស់អ្នកបានទេ។ សូមពិនិត្យលេខសម្គាល់គណនី Exness និងអ៊ីមែល Bhub រួចផ្ញើ /verify ដើម្បីព្យាយាមម្តងទៀត ឬ /support ដើម្បីសួរក្រុមរបស់យើង។',
+  verifyUnavailable: 'ការផ្ទៀងផ្ទាត់មិនអាចប្រើបាននៅពេលនេះទេ។ សូមព្យាយាមម្តងទៀតនៅពេលក្រោយ។',
+  verifyCancelButton: '✖️ បោះបង់',
+  verifyCancelled: 'ការផ្ទៀងផ្ទាត់ត្រូវបានបោះបង់។',
+  supportClosed: '✅ សំបុត្រជំនួយរបស់អ្នកត្រូវបានបិទ។ ផ្ញើ /support នៅពេលណាក៏បាន ប្រសិនបើអ្នកត្រូវការជំនួយបន្ថែម។',
+  supportNoTicket: 'អ្នកមិនមានសំបុត្រជំនួយដែលកំពុងបើកទេ។',
+  rateLimited: '⏳ អ្នកកំពុងចុចលឿនបន្តិច។ សូមរង់ចាំ {seconds} វិនាទី ហើយព្យាយាមម្តងទៀត។',
+  rateLimitBanned: '🚫 សំណើច្រើនពេក។ អ្នកអាចប្រើបូតម្តងទៀតក្នុងរយៈពេល {minutes} នាទី។',
+  botBusy: '⏳ បូតកំពុងរវល់ខ្លាំងនៅពេលនេះ។ សូមព្យាយាមម្តងទៀតក្នុងរយៈពេលមួយនាទី។',
+};
@@ -0,0 +1,84 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { SupabaseService } from '../supabase/supabase.service';
+import { isLanguage, Language, languageFromTelegramCode } from './language';
+
+type TelegramUserRef = {
+  id: number;
+  language_code?: string;
+};
+
+/**
+ * Stores each user's chosen language in Supabase. Users who never picked one get the language
+ * derived from Telegram's `language_code`.
+ */
+@Injectable()
+export class UserLanguageService {
+  private readonly logger = new Logger(UserLanguageService.name);
+  private readonly preferences = new Map<number, Language | null>();
+  private readonly tableName: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly supabaseService: SupabaseService,
+  ) {
+    this.tableName =
+      this.configService.get<string>('TELEGRAM_USER_LANGUAGE_TABLE') ?? 'telegram_user_languages';
+  }
+
+  async resolve(user: TelegramUserRef | undefined): Promise<Language> {
+    if (!user) {
+      return languageFromTelegramCode(null);
+    }
+
+    const stored = await this.getPreference(user.id);
+    return stored ?? languageFromTelegramCode(user.language_code);
+  }
+
+  async setPreference(userId: number, language: Language): Promise<void> {
+    this.preferences.set(userId, language);
+
+    const client = this.supabaseService.getClient();
+    if (!client) {
+      return;
+    }
+
+    const { error } = await client
+      .from(this.tableName)
+      .upsert(
+        { user_id: userId, language, updated_at: new Date().toISOString() },
+        { onConflict: 'user_id' },
+      );
+
+    if (error) {
+      this.logger.warn(`Failed to persist language for user ${userId}: ${error.message}`);
+    }
+  }
+
+  private async getPreference(userId: number): Promise<Language | null> {
+    if (this.preferences.has(userId)) {
+      return this.preferences.get(userId) ?? null;
+    }
+
+    const client = this.supabaseService.getClient();
+    if (!client) {
+      return null;
+    }
+
+    const { data, error } = await client
+      .from(this.tableName)
+      .select('language')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.warn(`Failed to load language for user ${userId}: ${error.message}`);
+      return null;
+    }
+
+    const language = isLanguage(data?.language) ? data.language : null;
+    this.preferences.set(userId, language);
+    return language;
+  }
+}
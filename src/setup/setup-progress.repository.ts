@@ -0,0 +1,105 @@
+import { Logger } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+import { SetupState } from './setup-wizard';
+
+export type SetupProgress = {
+  userId: number;
+  chatId: number;
+  stepIndex: number;
+  /** Topic key of the current step, so progress survives steps being added or reordered. */
+  stepKey: string;
+  state: SetupState;
+  startedAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+};
+
+/**
+ * Storage for each user's position in the `/setup` wizard. Used as the Nest injection token; see
+ * SetupModule for the binding.
+ */
+export abstract class SetupProgressRepository {
+  abstract get(userId: number): Promise<SetupProgress | null>;
+  abstract save(progress: SetupProgress): Promise<void>;
+}
+
+type ProgressRow = {
+  user_id: number;
+  chat_id: number;
+  step_index: number;
+  step_key: string;
+  state: SetupState;
+  started_at: string;
+  updated_at: string;
+  completed_at: string | null;
+};
+
+export class SupabaseSetupProgressRepository extends SetupProgressRepository {
+  private readonly logger = new Logger(SupabaseSetupProgressRepository.name);
+
+  constructor(
+    private readonly client: SupabaseClient,
+    private readonly table: string,
+  ) {
+    super();
+  }
+
+  async get(userId: number): Promise<SetupProgress | null> {
+    const { data, error } = await this.client.from(this.table).select('*').eq('user_id', userId).maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to load setup progress of user ${userId}: ${error.message}`);
+      return null;
+    }
+    return data ? this.fromRow(data as ProgressRow) : null;
+  }
+
+  async save(progress: SetupProgress): Promise<void> {
+    const { error } = await this.client.from(this.table).upsert(
+      {
+        user_id: progress.userId,
+        chat_id: progress.chatId,
+        step_index: progress.stepIndex,
+        step_key: progress.stepKey,
+        state: progress.state,
+        started_at: progress.startedAt,
+        updated_at: progress.updatedAt,
+        completed_at: progress.completedAt,
+      },
+      { onConflict: 'user_id' },
+    );
+
+    if (error) {
+      this.logger.warn(`Failed to save setup progress of user ${progress.userId}: ${error.message}`);
+    }
+  }
+
+  private fromRow(row: ProgressRow): SetupProgress {
+    return {
+      userId: Number(row.user_id),
+      chatId: Number(row.chat_id),
+      stepIndex: Number(row.step_index),
+      stepKey: row.step_key,
+      state: row.state,
+      startedAt: row.started_at,
+      updatedAt: row.updated_at,
+      completedAt: row.completed_at,
+    };
+  }
+}
+
+/**
+ * Process-local store for development without Supabase; progress is lost on restart.
+ */
+export class InMemorySetupProgressRepository extends SetupProgressRepository {
+  private readonly progress = new Map<number, SetupProgress>();
+
+  async get(userId: number): Promise<SetupProgress | null> {
+    return this.progress.get(userId) ?? null;
+  }
+
+  async save(progress: SetupProgress): Promise<void> {
+    this.progress.set(progress.userId, { ...progress });
+  }
+}
@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { SetupPosition, transition } from './setup-wizard';
+
+const STEPS = 3;
+
+describe('transition', () => {
+  it('walks a user through every step to completion', () => {
+    let position = transition(null, 'start', STEPS);
+    for (let step = 0; step < STEPS; step += 1) {
+      assert.deepEqual(position, { stepIndex: step, state: 'sending' });
+      position = transition(position, 'delivered', STEPS);
+      assert.deepEqual(position, { stepIndex: step, state: 'awaiting_confirmation' });
+      position = transition(position, 'done', STEPS);
+    }
+    assert.deepEqual(position, { stepIndex: STEPS - 1, state: 'completed' });
+  });
+
+  it('restarts from the first step, even after completing', () => {
+    const completed: SetupPosition = { stepIndex: 2, state: 'completed' };
+    assert.deepEqual(transition(completed, 'start', STEPS), { stepIndex: 0, state: 'sending' });
+  });
+
+  it('offers help and repeats the step the user is stuck on', () => {
+    const waiting: SetupPosition = { stepIndex: 1, state: 'awaiting_confirmation' };
+    const helped = transition(waiting, 'help', STEPS);
+    assert.deepEqual(helped, { stepIndex: 1, state: 'needs_help' });
+    assert.deepEqual(transition(helped, 'repeat', STEPS), { stepIndex: 1, state: 'sending' });
+    assert.deepEqual(transition(helped, 'done', STEPS), { stepIndex: 2, state: 'sending' });
+  });
+
+  it('resumes an unfinished wizard at its step, clamped to the current step count', () => {
+    assert.deepEqual(transition({ stepIndex: 1, state: 'needs_help' }, 'resume', STEPS), {
+      stepIndex: 1,
+      state: 'sending',
+    });
+    assert.deepEqual(transition({ stepIndex: 5, state: 'awaiting_confirmation' }, 'resume', STEPS), {
+      stepIndex: STEPS - 1,
+      state: 'sending',
+    });
+  });
+
+  it('has nothing to resume for new or finished users', () => {
+    assert.equal(transition(null, 'resume', STEPS), null);
+    assert.equal(transition({ stepIndex: 2, state: 'completed' }, 'resume', STEPS), null);
+  });
+
+  it('ignores stale buttons and late deliveries', () => {
+    const sending: SetupPosition = { stepIndex: 0, state: 'sending' };
+    assert.equal(transition(sending, 'done', STEPS), null);
+    assert.equal(transition(sending, 'help', STEPS), null);
+    assert.equal(transition(sending, 'repeat', STEPS), null);
+    assert.equal(transition({ stepIndex: 0, state: 'awaiting_confirmation' }, 'delivered', STEPS), null);
+    assert.equal(transition({ stepIndex: 0, state: 'needs_help' }, 'help', STEPS), null);
+    assert.equal(transition({ stepIndex: 2, state: 'completed' }, 'done', STEPS), null);
+    assert.equal(transition(null, 'done', STEPS), null);
+  });
+
+  it('refuses every event when the wizard has no steps', () => {
+    assert.equal(transition(null, 'start', 0), null);
+  });
+});
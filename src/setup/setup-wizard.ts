@@ -0,0 +1,53 @@
+/**
+ * Where a user is in a step of the `/setup` wizard:
+ * - `sending`: the step's guide is queued or on its way;
+ * - `awaiting_confirmation`: the guide arrived and the user was asked "Done? / Need help";
+ * - `needs_help`: the user asked for help and was offered the guide again (and support);
+ * - `completed`: every step was confirmed.
+ */
+export type SetupState = 'sending' | 'awaiting_confirmation' | 'needs_help' | 'completed';
+
+export type SetupEvent = 'start' | 'resume' | 'delivered' | 'done' | 'help' | 'repeat';
+
+export type SetupPosition = {
+  stepIndex: number;
+  state: SetupState;
+};
+
+/**
+ * Applies `event` to a user's position in a wizard of `stepCount` steps. Returns null when the
+ * event is not allowed in the current state (a stale button, or a guide finishing after the user
+ * moved on), so callers can ignore it. `current` is null for a user who never started.
+ */
+export function transition(
+  current: SetupPosition | null,
+  event: SetupEvent,
+  stepCount: number,
+): SetupPosition | null {
+  if (stepCount === 0) {
+    return null;
+  }
+
+  const waitingForUser = current?.state === 'awaiting_confirmation' || current?.state === 'needs_help';
+  switch (event) {
+    case 'start':
+      return { stepIndex: 0, state: 'sending' };
+    case 'resume':
+      return current && current.state !== 'completed'
+        ? { stepIndex: Math.min(current.stepIndex, stepCount - 1), state: 'sending' }
+        : null;
+    case 'delivered':
+      return current?.state === 'sending' ? { stepIndex: current.stepIndex, state: 'awaiting_confirmation' } : null;
+    case 'help':
+      return current?.state === 'awaiting_confirmation' ? { stepIndex: current.stepIndex, state: 'needs_help' } : null;
+    case 'repeat':
+      return current && waitingForUser ? { stepIndex: current.stepIndex, state: 'sending' } : null;
+    case 'done':
+      if (!current || !waitingForUser) {
+        return null;
+      }
+      return current.stepIndex + 1 >= stepCount
+        ? { stepIndex: current.stepIndex, state: 'completed' }
+        : { stepIndex: current.stepIndex + 1, state: 'sending' };
+  }
+}
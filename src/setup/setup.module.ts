@@ -0,0 +1,34 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { SupabaseService } from '../supabase/supabase.service';
+import {
+  InMemorySetupProgressRepository,
+  SetupProgressRepository,
+  SupabaseSetupProgressRepository,
+} from './setup-progress.repository';
+
+@Module({
+  providers: [
+    {
+      provide: SetupProgressRepository,
+      inject: [ConfigService, SupabaseService],
+      useFactory: (configService: ConfigService, supabaseService: SupabaseService) => {
+        const client = supabaseService.getClient();
+        if (!client) {
+          new Logger(SetupModule.name).warn(
+            'Supabase is not configured; /setup progress is kept in memory and lost on restart.',
+          );
+          return new InMemorySetupProgressRepository();
+        }
+
+        return new SupabaseSetupProgressRepository(
+          client,
+          configService.get<string>('SETUP_PROGRESS_TABLE') ?? 'setup_progress',
+        );
+      },
+    },
+  ],
+  exports: [SetupProgressRepository],
+})
+export class SetupModule {}
@@ -0,0 +1,122 @@
+import { Logger } from '@nestjs/common';
+import { constants, createReadStream, createWriteStream, promises as fs } from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+import { StorageObjectInfo, StorageProvider } from './storage-provider';
+
+/**
+ * Objects as files under a directory, for development and tests without network access. There are
+ * no signed URLs, so videos are streamed from disk; LOCAL_STORAGE_PUBLIC_URL can point at a web
+ * server that serves the directory when Telegram should fetch files itself.
+ */
+export class LocalStorageProvider extends StorageProvider {
+  readonly name = 'local' as const;
+  private readonly logger = new Logger(LocalStorageProvider.name);
+  private readonly root: string;
+
+  constructor(
+    root: string,
+    private readonly publicBaseUrl: string | null,
+  ) {
+    super();
+    this.root = path.resolve(root);
+  }
+
+  get location(): string {
+    return this.root;
+  }
+
+  async getSignedUrl(): Promise<string | null> {
+    return null;
+  }
+
+  getPublicUrl(objectPath: string): string | null {
+    if (!this.publicBaseUrl) {
+      return null;
+    }
+    const encoded = this.normalize(objectPath).split('/').map(encodeURIComponent).join('/');
+    return `${this.publicBaseUrl.replace(/\/+$/, '')}/${encoded}`;
+  }
+
+  async getObjectInfo(objectPath: string): Promise<StorageObjectInfo | null> {
+    try {
+      const stats = await fs.stat(this.resolve(objectPath));
+      if (!stats.isFile()) {
+        return null;
+      }
+      return { etag: null, size: stats.size, updatedAt: stats.mtime.toISOString() };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn(`Local storage info error for ${objectPath}: ${String(error)}`);
+      }
+      return null;
+    }
+  }
+
+  async download(objectPath: string, signal?: AbortSignal): Promise<Readable> {
+    const filePath = this.resolve(objectPath);
+    // Fails here for a missing file instead of on the first read.
+    await fs.access(filePath, constants.R_OK);
+    return createReadStream(filePath, { signal });
+  }
+
+  async uploadBuffer(objectPath: string, body: Buffer): Promise<boolean> {
+    try {
+      const filePath = this.resolve(objectPath);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, body);
+      return true;
+    } catch (error) {
+      this.logger.error(`Local storage upload error for ${objectPath}: ${String(error)}`);
+      return false;
+    }
+  }
+
+  async uploadStream(objectPath: string, body: Readable): Promise<boolean> {
+    try {
+      const filePath = this.resolve(objectPath);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await pipeline(body, createWriteStream(filePath));
+      return true;
+    } catch (error) {
+      this.logger.error(`Local storage upload error for ${objectPath}: ${String(error)}`);
+      return false;
+    }
+  }
+
+  async uploadFile(objectPath: string, sourcePath: string): Promise<boolean> {
+    try {
+      const filePath = this.resolve(objectPath);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.copyFile(sourcePath, filePath);
+      return true;
+    } catch (error) {
+      this.logger.error(`Local storage upload error for ${objectPath}: ${String(error)}`);
+      return false;
+    }
+  }
+
+  async check(): Promise<string | null> {
+    try {
+      await fs.access(this.root, constants.R_OK | constants.W_OK);
+      return null;
+    } catch (error) {
+      return String(error);
+    }
+  }
+
+  private normalize(objectPath: string): string {
+    return path.posix.normalize(objectPath.replace(/\\/g, '/')).replace(/^\/+/, '');
+  }
+
+  // Keeps paths from the catalog inside the storage directory.
+  private resolve(objectPath: string): string {
+    const filePath = path.resolve(this.root, this.normalize(objectPath));
+    if (filePath !== this.root && !filePath.startsWith(`${this.root}${path.sep}`)) {
+      throw new Error(`${objectPath} is outside the storage directory`);
+    }
+    return filePath;
+  }
+}
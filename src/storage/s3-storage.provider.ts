@@ -0,0 +1,250 @@
+import { Logger } from '@nestjs/common';
+import { createHash, createHmac } from 'crypto';
+import { Readable } from 'stream';
+
+import { openUrl, StorageObjectInfo, StorageProvider } from './storage-provider';
+
+export type S3StorageOptions = {
+  /** e.g. `https://s3.eu-central-1.amazonaws.com` or `http://minio:9000`. */
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** `endpoint/bucket/key` instead of `bucket.endpoint/key`; MinIO and most self-hosted servers need it. */
+  forcePathStyle: boolean;
+  /** Base URL of a publicly readable bucket or CDN in front of it. */
+  publicBaseUrl: string | null;
+};
+
+// SigV4 presigned URLs are valid for at most 7 days.
+const MAX_PRESIGN_SECONDS = 7 * 24 * 3600;
+const EMPTY_PAYLOAD_HASH = createHash('sha256').update('').digest('hex');
+
+/**
+ * Objects in an S3-compatible bucket (AWS S3, MinIO, Cloudflare R2, ...). Requests are signed with
+ * AWS Signature Version 4 directly, without an SDK.
+ */
+export class S3StorageProvider extends StorageProvider {
+  readonly name = 's3' as const;
+  private readonly logger = new Logger(S3StorageProvider.name);
+  private readonly endpoint: URL;
+
+  constructor(private readonly options: S3StorageOptions) {
+    super();
+    this.endpoint = new URL(options.endpoint);
+  }
+
+  get location(): string {
+    return this.options.bucket;
+  }
+
+  async getSignedUrl(path: string, expiresInSeconds: number): Promise<string | null> {
+    try {
+      return this.presign('GET', path, Math.min(expiresInSeconds, MAX_PRESIGN_SECONDS));
+    } catch (error) {
+      this.logger.error(`S3 signed URL error for ${path}: ${String(error)}`);
+      return null;
+    }
+  }
+
+  getPublicUrl(path: string): string | null {
+    if (!this.options.publicBaseUrl) {
+      return null;
+    }
+    return `${this.options.publicBaseUrl.replace(/\/+$/, '')}/${this.encodeKey(path)}`;
+  }
+
+  async getObjectInfo(path: string): Promise<StorageObjectInfo | null> {
+    try {
+      const response = await this.request('HEAD', path);
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        this.logger.warn(`S3 object info error for ${path}: status ${response.status}`);
+        return null;
+      }
+
+      const size = Number(response.headers.get('content-length'));
+      const lastModified = response.headers.get('last-modified');
+      return {
+        etag: response.headers.get('etag')?.replace(/"/g, '') ?? null,
+        size: Number.isFinite(size) ? size : null,
+        updatedAt: lastModified ? new Date(lastModified).toISOString() : null,
+      };
+    } catch (error) {
+      this.logger.warn(`S3 object info error for ${path}: ${String(error)}`);
+      return null;
+    }
+  }
+
+  async download(path: string, signal?: AbortSignal): Promise<Readable> {
+    return openUrl(this.presign('GET', path, 300), signal);
+  }
+
+  async uploadBuffer(path: string, body: Buffer, contentType: string): Promise<boolean> {
+    try {
+      const response = await this.request('PUT', path, body, { 'content-type': contentType });
+      if (!response.ok) {
+        this.logger.error(`S3 upload error for ${path}: status ${response.status} ${await response.text()}`);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      this.logger.error(`S3 upload error for ${path}: ${String(error)}`);
+      return false;
+    }
+  }
+
+  // The payload is not hashed up front (that would mean reading it twice); the signature covers
+  // UNSIGNED-PAYLOAD instead, which S3 and compatible servers accept for header-signed PUTs.
+  async uploadStream(path: string, body: Readable, size: number, contentType: string): Promise<boolean> {
+    try {
+      const response = await this.request('PUT', path, body, {
+        'content-type': contentType,
+        'content-length': String(size),
+      });
+      if (!response.ok) {
+        this.logger.error(`S3 upload error for ${path}: status ${response.status} ${await response.text()}`);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      this.logger.error(`S3 upload error for ${path}: ${String(error)}`);
+      return false;
+    }
+  }
+
+  async check(): Promise<string | null> {
+    try {
+      const response = await this.request('HEAD', null);
+      return response.ok ? null : `status ${response.status}`;
+    } catch (error) {
+      return String(error);
+    }
+  }
+
+  /**
+   * Sends a header-signed request for an object, or for the bucket itself when `path` is null.
+   */
+  private async request(
+    method: 'HEAD' | 'PUT',
+    path: string | null,
+    body?: Buffer | Readable,
+    extraHeaders: Record<string, string> = {},
+  ): Promise<Response> {
+    const url = this.objectUrl(path);
+    const { amzDate, dateStamp } = this.timestamps();
+    const payloadHash =
+      body instanceof Readable
+        ? 'UNSIGNED-PAYLOAD'
+        : body
+          ? createHash('sha256').update(body).digest('hex')
+          : EMPTY_PAYLOAD_HASH;
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...extraHeaders,
+    };
+
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      signedHeaders.map((name) => `${name}:${headers[name].trim()}\n`).join(''),
+      signedHeaders.join(';'),
+      payloadHash,
+    ].join('\n');
+    const signature = this.sign(canonicalRequest, amzDate, dateStamp);
+
+    const { host: _host, ...sentHeaders } = headers;
+    const init: RequestInit & { duplex?: 'half' } = {
+      method,
+      headers: {
+        ...sentHeaders,
+        authorization:
+          `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${this.scope(dateStamp)}, ` +
+          `SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+      },
+    };
+    if (body instanceof Readable) {
+      init.body = Readable.toWeb(body) as ReadableStream<Uint8Array>;
+      // Node's fetch refuses a streamed body without it.
+      init.duplex = 'half';
+    } else if (body) {
+      init.body = new Uint8Array(body);
+    }
+    return fetch(url, init);
+  }
+
+  private presign(method: 'GET', path: string, expiresInSeconds: number): string {
+    const url = this.objectUrl(path);
+    const { amzDate, dateStamp } = this.timestamps();
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.options.accessKeyId}/${this.scope(dateStamp)}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(expiresInSeconds),
+      'X-Amz-SignedHeaders': 'host',
+    };
+    const canonicalQuery = Object.keys(query)
+      .sort()
+      .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&');
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      canonicalQuery,
+      `host:${url.host}\n`,
+      'host',
+      'UNSIGNED-PAYLOAD',
+    ].join('\n');
+    const signature = this.sign(canonicalRequest, amzDate, dateStamp);
+    return `${url.origin}${url.pathname}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+  }
+
+  private sign(canonicalRequest: string, amzDate: string, dateStamp: string): string {
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      this.scope(dateStamp),
+      createHash('sha256').update(canonicalRequest).digest('hex'),
+    ].join('\n');
+
+    const signingKey = [dateStamp, this.options.region, 's3', 'aws4_request'].reduce<Buffer | string>(
+      (key, part) => createHmac('sha256', key).update(part).digest(),
+      `AWS4${this.options.secretAccessKey}`,
+    );
+    return createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  }
+
+  private scope(dateStamp: string): string {
+    return `${dateStamp}/${this.options.region}/s3/aws4_request`;
+  }
+
+  private timestamps(): { amzDate: string; dateStamp: string } {
+    const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    return { amzDate, dateStamp: amzDate.slice(0, 8) };
+  }
+
+  private objectUrl(path: string | null): URL {
+    const base = this.endpoint.pathname.replace(/\/+$/, '');
+    const key = path === null ? '' : `/${this.encodeKey(path)}`;
+    if (this.options.forcePathStyle) {
+      return new URL(`${this.endpoint.origin}${base}/${encodeRfc3986(this.options.bucket)}${key}`);
+    }
+    return new URL(`${this.endpoint.protocol}//${this.options.bucket}.${this.endpoint.host}${base}${key || '/'}`);
+  }
+
+  private encodeKey(path: string): string {
+    return path.replace(/^\/+/, '').split('/').map(encodeRfc3986).join('/');
+  }
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
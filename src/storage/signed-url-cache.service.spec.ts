@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { parseSignedUrlExpiry } from './signed-url-cache.service';
+
+describe('parseSignedUrlExpiry', () => {
+  it('reads the exp claim of a Supabase token', () => {
+    const payload = Buffer.from(JSON.stringify({ url: 'videos/a.mp4', exp: 1_700_000_000 })).toString('base64url');
+    const url = `https://project.supabase.co/storage/v1/object/sign/videos/a.mp4?token=header.${payload}.signature`;
+    assert.equal(parseSignedUrlExpiry(url), 1_700_000_000_000);
+  });
+
+  it('adds X-Amz-Expires to X-Amz-Date for SigV4 URLs', () => {
+    const url = 'https://bucket.s3.amazonaws.com/a.mp4?X-Amz-Date=20240102T030405Z&X-Amz-Expires=3600';
+    assert.equal(parseSignedUrlExpiry(url), Date.UTC(2024, 0, 2, 4, 4, 5));
+  });
+
+  it('reads Expires of SigV2-style URLs as Unix seconds', () => {
+    const url = 'https://cdn.example.com/a.mp4?Expires=1700000000&Signature=x';
+    assert.equal(parseSignedUrlExpiry(url), 1_700_000_000_000);
+  });
+
+  it('falls back to the other formats when the token is not a JWT', () => {
+    const url = 'https://cdn.example.com/a.mp4?token=opaque&Expires=1700000000';
+    assert.equal(parseSignedUrlExpiry(url), 1_700_000_000_000);
+  });
+
+  it('returns null when the URL states no expiry', () => {
+    assert.equal(parseSignedUrlExpiry('https://cdn.example.com/a.mp4'), null);
+    assert.equal(parseSignedUrlExpiry('https://cdn.example.com/a.mp4?Expires=soon'), null);
+    assert.equal(parseSignedUrlExpiry('not a url'), null);
+  });
+});
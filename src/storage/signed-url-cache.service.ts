@@ -0,0 +1,192 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { parsePositiveInt } from '../common/config-values';
+import { StorageProvider } from './storage-provider';
+import { CachedSignedUrl, SignedUrlStore } from './signed-url-store';
+
+export type SignedUrlCacheStats = {
+  size: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  /** Misses answered by the shared store instead of the storage backend. */
+  sharedHits: number;
+  /** Lookups that joined a signing already in flight for the same object. */
+  deduplicated: number;
+  /** URLs requested from storage backends. */
+  signed: number;
+  refreshes: number;
+  evictions: number;
+  failures: number;
+  hitRate: number | null;
+};
+
+// A URL this close to expiry is not handed out: Telegram or ffmpeg may still be fetching it.
+const MIN_REMAINING_MS = 15_000;
+
+/**
+ * Signed URLs of stored objects, so taps on the same topic reuse one URL. Entries live in a
+ * bounded LRU and expire when the URL itself does (read from the URL's token or query). Concurrent
+ * lookups of one object share a single signing, and URLs still in use are re-signed in the
+ * background shortly before they expire. With SIGNED_URL_CACHE_SHARED, replicas share URLs through
+ * a Supabase table.
+ */
+@Injectable()
+export class SignedUrlCacheService {
+  private readonly logger = new Logger(SignedUrlCacheService.name);
+  // Map iteration follows insertion order, so re-inserting on access keeps the oldest entry first.
+  private readonly entries = new Map<string, CachedSignedUrl>();
+  private readonly inFlight = new Map<string, Promise<string | null>>();
+  private readonly maxEntries: number;
+  private readonly ttlSeconds: number;
+  private readonly refreshBeforeMs: number;
+  private readonly stats = {
+    hits: 0,
+    misses: 0,
+    sharedHits: 0,
+    deduplicated: 0,
+    signed: 0,
+    refreshes: 0,
+    evictions: 0,
+    failures: 0,
+  };
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(SignedUrlStore) private readonly sharedStore: SignedUrlStore | null,
+  ) {
+    this.maxEntries = parsePositiveInt(this.configService.get<string>('SIGNED_URL_CACHE_MAX_ENTRIES')) ?? 1000;
+    this.ttlSeconds = parsePositiveInt(this.configService.get<string>('SIGNED_URL_TTL_SECONDS')) ?? 3600;
+    const refreshBeforeSeconds =
+      parsePositiveInt(this.configService.get<string>('SIGNED_URL_REFRESH_BEFORE_SECONDS')) ?? 300;
+    this.refreshBeforeMs = Math.min(refreshBeforeSeconds, this.ttlSeconds / 2) * 1000;
+  }
+
+  /**
+   * A signed URL of `path` from `storage`, cached or freshly signed; null when the backend cannot
+   * sign one.
+   */
+  async getSignedUrl(storage: StorageProvider, path: string): Promise<string | null> {
+    const key = `${storage.name}:${storage.location}:${path}`;
+    const cached = this.entries.get(key);
+    const now = Date.now();
+
+    if (cached && cached.expiresAt - now > MIN_REMAINING_MS) {
+      this.stats.hits += 1;
+      this.touch(key, cached);
+      if (cached.expiresAt - now < this.refreshBeforeMs && !this.inFlight.has(key)) {
+        this.stats.refreshes += 1;
+        void this.load(key, storage, path);
+      }
+      return cached.url;
+    }
+
+    this.stats.misses += 1;
+    if (cached) {
+      this.entries.delete(key);
+    }
+    return this.load(key, storage, path);
+  }
+
+  getStats(): SignedUrlCacheStats {
+    const lookups = this.stats.hits + this.stats.misses;
+    return {
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      ...this.stats,
+      hitRate: lookups > 0 ? this.stats.hits / lookups : null,
+    };
+  }
+
+  /**
+   * Signs `path` once for every caller waiting on it; refreshes go through here too, so a tap during
+   * a background refresh waits for that refresh instead of signing again.
+   */
+  private load(key: string, storage: StorageProvider, path: string): Promise<string | null> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.stats.deduplicated += 1;
+      return pending;
+    }
+
+    const request = this.fetchUrl(key, storage, path)
+      .catch((error) => {
+        this.stats.failures += 1;
+        this.logger.warn(`Failed to sign a URL for ${key}: ${String(error)}`);
+        return null;
+      })
+      .finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  private async fetchUrl(key: string, storage: StorageProvider, path: string): Promise<string | null> {
+    const shared = this.sharedStore ? await this.sharedStore.get(key) : null;
+    // Only take a shared URL that would not need refreshing right away.
+    if (shared && shared.expiresAt - Date.now() > this.refreshBeforeMs) {
+      this.stats.sharedHits += 1;
+      this.touch(key, shared);
+      return shared.url;
+    }
+
+    const requestedAt = Date.now();
+    this.stats.signed += 1;
+    const url = await storage.getSignedUrl(path, this.ttlSeconds);
+    if (!url) {
+      return null;
+    }
+
+    const entry = { url, expiresAt: parseSignedUrlExpiry(url) ?? requestedAt + this.ttlSeconds * 1000 };
+    this.touch(key, entry);
+    await this.sharedStore?.set(key, entry);
+    return url;
+  }
+
+  private touch(key: string, entry: CachedSignedUrl): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.stats.evictions += 1;
+    }
+  }
+}
+
+/**
+ * Expiry (epoch ms) stated by a signed URL itself: the `exp` claim of a Supabase `token`, S3's
+ * `X-Amz-Date` plus `X-Amz-Expires`, or an epoch-seconds `Expires` parameter. Null when the URL
+ * carries none of them.
+ */
+export function parseSignedUrlExpiry(url: string): number | null {
+  let params: URLSearchParams;
+  try {
+    params = new URL(url).searchParams;
+  } catch {
+    return null;
+  }
+
+  const token = params.get('token');
+  if (token) {
+    try {
+      const payload = JSON.parse(Buffer.from(token.split('.')[1] ?? '', 'base64url').toString('utf8'));
+      if (typeof payload?.exp === 'number') {
+        return payload.exp * 1000;
+      }
+    } catch {
+      // Not a JWT; try the other formats.
+    }
+  }
+
+  const amzDate = params.get('X-Amz-Date');
+  const amzExpires = Number(params.get('X-Amz-Expires'));
+  const amzMatch = amzDate ? /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(amzDate) : null;
+  if (amzMatch && Number.isFinite(amzExpires)) {
+    const [, year, month, day, hour, minute, second] = amzMatch.map(Number);
+    return Date.UTC(year, month - 1, day, hour, minute, second) + amzExpires * 1000;
+  }
+
+  const expires = Number(params.get('Expires'));
+  return params.has('Expires') && Number.isFinite(expires) && expires > 0 ? expires * 1000 : null;
+}
@@ -0,0 +1,60 @@
+import { Logger } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export type CachedSignedUrl = {
+  url: string;
+  /** Epoch milliseconds. */
+  expiresAt: number;
+};
+
+/**
+ * Signed URLs shared between replicas and restarts, behind the in-process LRU of
+ * SignedUrlCacheService. Used as the Nest injection token; StorageModule binds it only when
+ * SIGNED_URL_CACHE_SHARED is on.
+ */
+export abstract class SignedUrlStore {
+  abstract get(key: string): Promise<CachedSignedUrl | null>;
+  abstract set(key: string, entry: CachedSignedUrl): Promise<void>;
+}
+
+type SignedUrlRow = {
+  key: string;
+  url: string;
+  expires_at: string;
+};
+
+export class SupabaseSignedUrlStore extends SignedUrlStore {
+  private readonly logger = new Logger(SupabaseSignedUrlStore.name);
+
+  constructor(
+    private readonly client: SupabaseClient,
+    private readonly table: string,
+  ) {
+    super();
+  }
+
+  async get(key: string): Promise<CachedSignedUrl | null> {
+    const { data, error } = await this.client.from(this.table).select('key, url, expires_at').eq('key', key).maybeSingle();
+
+    if (error) {
+      this.logger.warn(`Failed to read shared signed URL for ${key}: ${error.message}`);
+      return null;
+    }
+    if (!data) {
+      return null;
+    }
+
+    const row = data as SignedUrlRow;
+    const expiresAt = Date.parse(row.expires_at);
+    return Number.isFinite(expiresAt) ? { url: row.url, expiresAt } : null;
+  }
+
+  async set(key: string, entry: CachedSignedUrl): Promise<void> {
+    const row: SignedUrlRow = { key, url: entry.url, expires_at: new Date(entry.expiresAt).toISOString() };
+    const { error } = await this.client.from(this.table).upsert(row, { onConflict: 'key' });
+
+    if (error) {
+      this.logger.warn(`Failed to share signed URL for ${key}: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { createReadStream, promises as fs } from 'fs';
+import { Readable } from 'stream';
+
+export const STORAGE_BACKENDS = ['supabase', 'local', 's3'] as const;
+
+export type StorageBackendName = (typeof STORAGE_BACKENDS)[number];
+
+export function isStorageBackend(value: unknown): value is StorageBackendName {
+  return typeof value === 'string' && (STORAGE_BACKENDS as readonly string[]).includes(value);
+}
+
+export type StorageObjectInfo = {
+  etag: string | null;
+  size: number | null;
+  updatedAt: string | null;
+};
+
+/**
+ * Where topic videos, renditions and assets are stored. Paths are relative to the backend's bucket
+ * or directory. Lookups log and return null on failure; `download` throws so a video job can retry.
+ */
+export abstract class StorageProvider {
+  abstract readonly name: StorageBackendName;
+  /** Bucket or directory, for logs and health checks. */
+  abstract readonly location: string;
+
+  /**
+   * Time-limited URL Telegram and ffmpeg can fetch; null when the backend cannot issue one.
+   */
+  abstract getSignedUrl(path: string, expiresInSeconds: number): Promise<string | null>;
+
+  /**
+   * Permanent URL, only when the backend is configured as publicly readable.
+   */
+  abstract getPublicUrl(path: string): string | null;
+
+  /**
+   * Null when the object does not exist or cannot be read.
+   */
+  abstract getObjectInfo(path: string): Promise<StorageObjectInfo | null>;
+
+  abstract download(path: string, signal?: AbortSignal): Promise<Readable>;
+
+  /**
+   * Stores `body` at `path`, replacing any object already there.
+   */
+  abstract uploadBuffer(path: string, body: Buffer, contentType: string): Promise<boolean>;
+
+  /**
+   * Like `uploadBuffer`, reading the body from a stream of exactly `size` bytes, so large files
+   * never sit in memory whole.
+   */
+  abstract uploadStream(path: string, body: Readable, size: number, contentType: string): Promise<boolean>;
+
+  /**
+   * Null when the bucket or directory is reachable, otherwise the reason.
+   */
+  abstract check(): Promise<string | null>;
+
+  async uploadFile(path: string, filePath: string, contentType: string): Promise<boolean> {
+    const { size } = await fs.stat(filePath);
+    return this.uploadStream(path, createReadStream(filePath), size, contentType);
+  }
+}
+
+/**
+ * Streams a URL's body; throws on network errors and error statuses.
+ */
+export async function openUrl(url: string, signal?: AbortSignal, headers?: Record<string, string>): Promise<Readable> {
+  const response = await fetch(url, { signal, headers });
+  if (!response.ok || !response.body) {
+    await response.body?.cancel().catch(() => undefined);
+    throw new Error(`Download failed with status ${response.status}`);
+  }
+  return Readable.fromWeb(response.body as Parameters<typeof Readable.fromWeb>[0]);
+}
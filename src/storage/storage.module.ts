@@ -0,0 +1,40 @@
+import { Global, Logger, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { SupabaseService } from '../supabase/supabase.service';
+import { SignedUrlCacheService } from './signed-url-cache.service';
+import { SignedUrlStore, SupabaseSignedUrlStore } from './signed-url-store';
+import { StorageService } from './storage.service';
+
+@Global()
+@Module({
+  providers: [
+    StorageService,
+    SignedUrlCacheService,
+    {
+      provide: SignedUrlStore,
+      inject: [ConfigService, SupabaseService],
+      useFactory: (configService: ConfigService, supabaseService: SupabaseService) => {
+        const shared = configService.get<string>('SIGNED_URL_CACHE_SHARED')?.toLowerCase().trim() === 'true';
+        if (!shared) {
+          return null;
+        }
+
+        const client = supabaseService.getClient();
+        if (!client) {
+          new Logger(StorageModule.name).warn(
+            'SIGNED_URL_CACHE_SHARED is on but Supabase is not configured; signed URLs are cached per process.',
+          );
+          return null;
+        }
+
+        return new SupabaseSignedUrlStore(
+          client,
+          configService.get<string>('SIGNED_URL_CACHE_TABLE') ?? 'signed_url_cache',
+        );
+      },
+    },
+  ],
+  exports: [StorageService, SignedUrlCacheService],
+})
+export class StorageModule {}
@@ -0,0 +1,98 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { SupabaseService } from '../supabase/supabase.service';
+import { LocalStorageProvider } from './local-storage.provider';
+import { S3StorageProvider } from './s3-storage.provider';
+import { isStorageBackend, StorageBackendName, StorageProvider } from './storage-provider';
+import { SupabaseStorageProvider } from './supabase-storage.provider';
+
+/**
+ * The configured storage backends. Every backend whose settings are present is available; topics
+ * pick one with `storageBackend` and everything else uses STORAGE_BACKEND (default `supabase`).
+ */
+@Injectable()
+export class StorageService {
+  private readonly logger = new Logger(StorageService.name);
+  private readonly providers = new Map<StorageBackendName, StorageProvider>();
+  private readonly defaultBackend: StorageBackendName;
+
+  constructor(
+    private readonly configService: ConfigService,
+    supabaseService: SupabaseService,
+  ) {
+    const client = supabaseService.getClient();
+    const bucket = this.configService.get<string>('SUPABASE_BUCKET');
+    if (client && bucket) {
+      const publicBucket = this.configService.get<string>('SUPABASE_PUBLIC_BUCKET')?.toLowerCase().trim() === 'true';
+      this.providers.set('supabase', new SupabaseStorageProvider(client, bucket, publicBucket));
+    }
+
+    const localDir = this.configService.get<string>('LOCAL_STORAGE_DIR')?.trim();
+    if (localDir) {
+      const publicUrl = this.configService.get<string>('LOCAL_STORAGE_PUBLIC_URL')?.trim() || null;
+      this.providers.set('local', new LocalStorageProvider(localDir, publicUrl));
+    }
+
+    const s3 = this.createS3Provider();
+    if (s3) {
+      this.providers.set('s3', s3);
+    }
+
+    const configured = this.configService.get<string>('STORAGE_BACKEND')?.toLowerCase().trim();
+    if (configured && !isStorageBackend(configured)) {
+      this.logger.warn(`Unknown STORAGE_BACKEND "${configured}"; using supabase.`);
+    }
+    this.defaultBackend = isStorageBackend(configured) ? configured : 'supabase';
+    if (!this.providers.has(this.defaultBackend)) {
+      this.logger.warn(`Storage backend ${this.defaultBackend} is not configured; videos cannot be served from it.`);
+    }
+  }
+
+  /**
+   * The named backend, or the default one; null when it is not configured.
+   */
+  get(backend?: StorageBackendName): StorageProvider | null {
+    return this.providers.get(backend ?? this.defaultBackend) ?? null;
+  }
+
+  getDefaultBackend(): StorageBackendName {
+    return this.defaultBackend;
+  }
+
+  list(): StorageProvider[] {
+    return [...this.providers.values()];
+  }
+
+  private createS3Provider(): S3StorageProvider | null {
+    const endpoint = this.configService.get<string>('S3_ENDPOINT')?.trim();
+    const bucket = this.configService.get<string>('S3_BUCKET')?.trim();
+    const accessKeyId = this.configService.get<string>('S3_ACCESS_KEY_ID')?.trim();
+    const secretAccessKey = this.configService.get<string>('S3_SECRET_ACCESS_KEY')?.trim();
+    if (!endpoint && !bucket) {
+      return null;
+    }
+    if (!endpoint || !bucket || !accessKeyId || !secretAccessKey) {
+      this.logger.warn(
+        'S3 storage needs S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY; the s3 backend is disabled.',
+      );
+      return null;
+    }
+
+    try {
+      return new S3StorageProvider({
+        endpoint,
+        bucket,
+        accessKeyId,
+        secretAccessKey,
+        region: this.configService.get<string>('S3_REGION')?.trim() || 'us-east-1',
+        forcePathStyle:
+          (this.configService.get<string>('S3_FORCE_PATH_STYLE') ?? 'true').toLowerCase().trim() !== 'false',
+        publicBaseUrl: this.configService.get<string>('S3_PUBLIC_URL')?.trim() || null,
+      });
+    } catch (error) {
+      this.logger.warn(`Invalid S3_ENDPOINT ${endpoint}: ${String(error)}; the s3 backend is disabled.`);
+      return null;
+    }
+  }
+}
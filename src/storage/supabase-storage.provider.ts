@@ -0,0 +1,102 @@
+import { Logger } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Readable } from 'stream';
+
+import { openUrl, StorageObjectInfo, StorageProvider } from './storage-provider';
+
+/**
+ * Objects in a Supabase Storage bucket. Public URLs are only handed out for buckets marked public
+ * (SUPABASE_PUBLIC_BUCKET), since a private bucket answers them with an error.
+ */
+export class SupabaseStorageProvider extends StorageProvider {
+  readonly name = 'supabase' as const;
+  private readonly logger = new Logger(SupabaseStorageProvider.name);
+
+  constructor(
+    private readonly client: SupabaseClient,
+    private readonly bucket: string,
+    private readonly publicBucket: boolean,
+  ) {
+    super();
+  }
+
+  get location(): string {
+    return this.bucket;
+  }
+
+  async getSignedUrl(path: string, expiresInSeconds: number): Promise<string | null> {
+    const { data, error } = await this.client.storage.from(this.bucket).createSignedUrl(path, expiresInSeconds);
+
+    if (error) {
+      this.logger.error(`Supabase signed URL error for ${path}: ${error.message}`);
+      return null;
+    }
+
+    return data?.signedUrl ?? null;
+  }
+
+  getPublicUrl(path: string): string | null {
+    if (!this.publicBucket) {
+      return null;
+    }
+
+    const { data } = this.client.storage.from(this.bucket).getPublicUrl(path);
+    return data?.publicUrl ?? null;
+  }
+
+  async getObjectInfo(path: string): Promise<StorageObjectInfo | null> {
+    const { data, error } = await this.client.storage.from(this.bucket).info(path);
+
+    if (error) {
+      this.logger.warn(`Supabase object info error for ${path}: ${error.message}`);
+      return null;
+    }
+
+    return {
+      etag: data?.etag ?? null,
+      size: typeof data?.size === 'number' ? data.size : null,
+      updatedAt: data?.updatedAt ?? data?.lastModified ?? null,
+    };
+  }
+
+  // The client's own download buffers the whole object, so stream through a short-lived URL.
+  async download(path: string, signal?: AbortSignal): Promise<Readable> {
+    const url = (await this.getSignedUrl(path, 60)) ?? this.getPublicUrl(path);
+    if (!url) {
+      throw new Error(`No URL available to download ${path} from ${this.bucket}`);
+    }
+    return openUrl(url, signal);
+  }
+
+  async uploadBuffer(path: string, body: Buffer, contentType: string): Promise<boolean> {
+    const { error } = await this.client.storage.from(this.bucket).upload(path, body, { contentType, upsert: true });
+
+    if (error) {
+      this.logger.error(`Supabase upload error for ${path}: ${error.message}`);
+      return false;
+    }
+
+    return true;
+  }
+
+  async uploadStream(path: string, body: Readable, size: number, contentType: string): Promise<boolean> {
+    const { error } = await this.client.storage.from(this.bucket).upload(path, body, {
+      contentType,
+      upsert: true,
+      headers: { 'content-length': String(size) },
+    });
+
+    if (error) {
+      this.logger.error(`Supabase upload error for ${path}: ${error.message}`);
+      return false;
+    }
+
+    return true;
+  }
+
+  // Lists one object to prove the bucket exists and the key can read it.
+  async check(): Promise<string | null> {
+    const { error } = await this.client.storage.from(this.bucket).list('', { limit: 1 });
+    return error ? error.message : null;
+  }
+}
@@ -1,11 +1,9 @@
 import { Global, Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
 
 import { SupabaseService } from './supabase.service';
 
 @Global()
 @Module({
-  imports: [ConfigModule],
   providers: [SupabaseService],
   exports: [SupabaseService],
 })
@@ -13,7 +13,7 @@ export class SupabaseService {
 
     if (!url || !key) {
       this.logger.warn(
-        'Supabase is not fully configured. Set SUPABASE_URL and SUPABASE_ANON_KEY to enable signed URLs.',
+        'Supabase is not fully configured. Set SUPABASE_URL and SUPABASE_ANON_KEY to use Supabase tables and storage.',
       );
       return;
     }
@@ -21,33 +21,11 @@ export class SupabaseService {
     this.client = createClient(url, key);
   }
 
-  async getSignedUrl(
-    bucket: string,
-    path: string,
-    expiresInSeconds = 3600,
-  ): Promise<string | null> {
-    if (!this.client) {
-      return null;
-    }
-
-    const { data, error } = await this.client.storage
-      .from(bucket)
-      .createSignedUrl(path, expiresInSeconds);
-
-    if (error) {
-      this.logger.error(`Supabase signed URL error for ${path}: ${error.message}`);
-      return null;
-    }
-
-    return data?.signedUrl ?? null;
-  }
-
-  getPublicUrl(bucket: string, path: string): string | null {
-    if (!this.client) {
-      return null;
-    }
-
-    const { data } = this.client.storage.from(bucket).getPublicUrl(path);
-    return data?.publicUrl ?? null;
+  /**
+   * Exposes the raw client for table and storage access; returns null when Supabase is not
+   * configured.
+   */
+  getClient(): SupabaseClient | null {
+    return this.client;
   }
 }
@@ -0,0 +1,273 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Context, Markup } from 'telegraf';
+import { Message } from 'telegraf/types';
+
+import { parseChatId } from '../common/config-values';
+import { I18nService } from '../i18n/i18n.service';
+import { Language } from '../i18n/language';
+import { UserLanguageService } from '../i18n/user-language.service';
+import { CallbackAction, encodeCallbackData } from '../telegram/callback-data';
+import { describeUser, safeAnswerCbQuery } from '../telegram/telegram-context';
+import { SupportTicket, SupportTicketRepository } from './support-ticket.repository';
+
+const SUPPORT_OPEN = 'open';
+const SUPPORT_CLOSE = 'close';
+
+/**
+ * Bridges users and human operators. While a user has an open ticket, everything they send the bot
+ * is forwarded into the operator chat; operators answer by replying to those forwarded messages and
+ * the reply is copied back to the user.
+ */
+@Injectable()
+export class SupportHandoffService {
+  private readonly logger = new Logger(SupportHandoffService.name);
+  private readonly supportChatId: number | null;
+  private readonly supportThreadId: number | null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly tickets: SupportTicketRepository,
+    private readonly i18n: I18nService,
+    private readonly userLanguage: UserLanguageService,
+  ) {
+    this.supportChatId = parseChatId(this.configService.get<string>('SUPPORT_CHAT_ID'));
+    this.supportThreadId = parseChatId(this.configService.get<string>('SUPPORT_THREAD_ID'));
+
+    if (!this.supportChatId) {
+      this.logger.warn('SUPPORT_CHAT_ID is not set; human support handoff is disabled.');
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.supportChatId !== null;
+  }
+
+  isSupportChat(chatId: number | undefined): boolean {
+    return this.supportChatId !== null && chatId === this.supportChatId;
+  }
+
+  listTickets(userId: number, limit: number): Promise<SupportTicket[]> {
+    return this.tickets.listByUser(userId, limit);
+  }
+
+  supportButton(language: Language) {
+    return Markup.button.callback(
+      this.i18n.t(language, 'supportButton'),
+      encodeCallbackData(CallbackAction.Support, SUPPORT_OPEN),
+    );
+  }
+
+  /**
+   * Opens a ticket for the sender and announces it in the operator chat. Users with an open ticket
+   * are told to keep writing instead of getting a second one.
+   */
+  async openTicket(ctx: Context): Promise<void> {
+    const user = ctx.from;
+    const chatId = ctx.chat?.id;
+    const language = await this.userLanguage.resolve(user);
+    if (!user || typeof chatId !== 'number' || ctx.chat?.type !== 'private') {
+      return;
+    }
+
+    if (!this.supportChatId) {
+      await ctx.reply(this.i18n.t(language, 'supportUnavailable'));
+      return;
+    }
+
+    const existing = await this.tickets.findOpenByUser(user.id);
+    if (existing) {
+      await ctx.reply(this.i18n.t(language, 'supportAlreadyOpen'));
+      return;
+    }
+
+    const ticket = await this.tickets.create({
+      userId: user.id,
+      chatId,
+      username: user.username ?? null,
+      language,
+    });
+    if (!ticket) {
+      await ctx.reply(this.i18n.t(language, 'supportUnavailable'));
+      return;
+    }
+
+    try {
+      const header = await ctx.telegram.sendMessage(
+        this.supportChatId,
+        `🎫 Ticket #${ticket.id} opened by ${describeUser(ctx.from)} [${language}]\nReply to the forwarded messages to answer, or send /close as a reply to end the ticket.`,
+        {
+          message_thread_id: this.supportThreadId ?? undefined,
+          ...Markup.inlineKeyboard([
+            Markup.button.callback(
+              `Close ticket #${ticket.id}`,
+              encodeCallbackData(CallbackAction.Support, SUPPORT_CLOSE, String(ticket.id)),
+            ),
+          ]),
+        },
+      );
+      await this.tickets.linkMessage(ticket.id, this.supportChatId, header.message_id);
+    } catch (error) {
+      this.logger.error(`Failed to announce ticket #${ticket.id} in support chat: ${String(error)}`);
+    }
+
+    await ctx.reply(this.i18n.t(language, 'supportOpened'));
+  }
+
+  /**
+   * `/close` from the user closes their ticket; `/close` in the operator chat closes the ticket of
+   * the message it replies to.
+   */
+  async handleCloseCommand(ctx: Context): Promise<void> {
+    if (this.isSupportChat(ctx.chat?.id)) {
+      const replyTo = this.replyTarget(ctx.message);
+      const ticket =
+        replyTo && this.supportChatId ? await this.tickets.findByMessage(this.supportChatId, replyTo) : null;
+      if (!ticket) {
+        await ctx.reply('Reply to a ticket message with /close to close it.');
+        return;
+      }
+      await this.closeByOperator(ctx, ticket);
+      return;
+    }
+
+    const user = ctx.from;
+    if (!user || ctx.chat?.type !== 'private') {
+      return;
+    }
+
+    const language = await this.userLanguage.resolve(user);
+    const ticket = await this.tickets.findOpenByUser(user.id);
+    const closed = ticket ? await this.tickets.close(ticket.id) : null;
+    if (!closed) {
+      await ctx.reply(this.i18n.t(language, 'supportNoTicket'));
+      return;
+    }
+
+    await ctx.reply(this.i18n.t(language, 'supportClosed'));
+    await this.notifySupportChat(ctx, `🔒 Ticket #${closed.id} was closed by the user.`);
+  }
+
+  async handleCallback(ctx: Context, args: string[]): Promise<void> {
+    const [action, ticketId] = args;
+    if (action === SUPPORT_OPEN) {
+      await safeAnswerCbQuery(ctx);
+      await this.openTicket(ctx);
+      return;
+    }
+
+    if (action === SUPPORT_CLOSE && this.isSupportChat(ctx.chat?.id)) {
+      const ticket = await this.tickets.findById(Number(ticketId));
+      if (!ticket || ticket.status !== 'open') {
+        await safeAnswerCbQuery(ctx, 'Ticket is already closed.');
+        return;
+      }
+      await safeAnswerCbQuery(ctx, `Closing ticket #${ticket.id}`);
+      await this.closeByOperator(ctx, ticket);
+      return;
+    }
+
+    await safeAnswerCbQuery(ctx);
+  }
+
+  /**
+   * Routes a non-command message. Returns false when the message is not part of a support
+   * conversation so the caller can handle it otherwise.
+   */
+  async handleMessage(ctx: Context): Promise<boolean> {
+    const message = ctx.message;
+    if (!message || !this.supportChatId) {
+      return false;
+    }
+
+    if (this.isSupportChat(ctx.chat?.id)) {
+      return this.relayOperatorReply(ctx, message);
+    }
+
+    if (ctx.chat?.type !== 'private' || !ctx.from) {
+      return false;
+    }
+
+    const ticket = await this.tickets.findOpenByUser(ctx.from.id);
+    if (!ticket) {
+      return false;
+    }
+
+    try {
+      const forwarded = await ctx.forwardMessage(this.supportChatId, {
+        message_thread_id: this.supportThreadId ?? undefined,
+      });
+      await this.tickets.linkMessage(ticket.id, this.supportChatId, forwarded.message_id);
+    } catch (error) {
+      this.logger.error(`Failed to forward message for ticket #${ticket.id}: ${String(error)}`);
+      const language = await this.userLanguage.resolve(ctx.from);
+      await ctx.reply(this.i18n.t(language, 'supportForwardFailed'));
+    }
+    return true;
+  }
+
+  private async relayOperatorReply(ctx: Context, message: Message): Promise<boolean> {
+    const replyTo = this.replyTarget(message);
+    if (!replyTo || !this.supportChatId) {
+      return false;
+    }
+
+    const ticket = await this.tickets.findByMessage(this.supportChatId, replyTo);
+    if (!ticket) {
+      return false;
+    }
+
+    if (ticket.status !== 'open') {
+      await ctx.reply(`Ticket #${ticket.id} is closed; this reply was not delivered.`, {
+        reply_parameters: { message_id: message.message_id },
+      });
+      return true;
+    }
+
+    try {
+      await ctx.telegram.copyMessage(ticket.chatId, this.supportChatId, message.message_id);
+      // Operators may reply to each other's answers, so those messages map to the ticket as well.
+      await this.tickets.linkMessage(ticket.id, this.supportChatId, message.message_id);
+    } catch (error) {
+      this.logger.error(`Failed to relay operator reply for ticket #${ticket.id}: ${String(error)}`);
+      await ctx.reply(`⚠️ Could not deliver the reply to ticket #${ticket.id}: ${String(error)}`);
+    }
+    return true;
+  }
+
+  private async closeByOperator(ctx: Context, ticket: SupportTicket): Promise<void> {
+    const closed = await this.tickets.close(ticket.id);
+    if (!closed) {
+      await this.notifySupportChat(ctx, `Ticket #${ticket.id} is already closed.`);
+      return;
+    }
+
+    const language = await this.userLanguage.resolve({ id: closed.userId, language_code: closed.language });
+    try {
+      await ctx.telegram.sendMessage(closed.chatId, this.i18n.t(language, 'supportClosed'));
+    } catch (error) {
+      this.logger.warn(`Failed to notify user about closed ticket #${closed.id}: ${String(error)}`);
+    }
+    await this.notifySupportChat(ctx, `🔒 Ticket #${closed.id} was closed by ${describeUser(ctx.from)}.`);
+  }
+
+  private async notifySupportChat(ctx: Context, text: string): Promise<void> {
+    if (!this.supportChatId) {
+      return;
+    }
+
+    try {
+      await ctx.telegram.sendMessage(this.supportChatId, text, {
+        message_thread_id: this.supportThreadId ?? undefined,
+      });
+    } catch (error) {
+      this.logger.warn(`Failed to post to support chat: ${String(error)}`);
+    }
+  }
+
+  private replyTarget(message: Message | undefined): number | null {
+    return message && 'reply_to_message' in message && message.reply_to_message
+      ? message.reply_to_message.message_id
+      : null;
+  }
+}
@@ -0,0 +1,240 @@
+import { Logger } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export type SupportTicketStatus = 'open' | 'closed';
+
+export type SupportTicket = {
+  id: number;
+  userId: number;
+  chatId: number;
+  username: string | null;
+  language: string;
+  status: SupportTicketStatus;
+  openedAt: string;
+  closedAt: string | null;
+};
+
+export type NewSupportTicket = Pick<SupportTicket, 'userId' | 'chatId' | 'username' | 'language'>;
+
+/**
+ * Storage for support tickets and for the mapping between messages posted in the operator chat and
+ * the ticket they belong to. Used as the Nest injection token; see SupportModule for the binding.
+ */
+export abstract class SupportTicketRepository {
+  abstract findOpenByUser(userId: number): Promise<SupportTicket | null>;
+  abstract findById(ticketId: number): Promise<SupportTicket | null>;
+  abstract create(ticket: NewSupportTicket): Promise<SupportTicket | null>;
+  abstract close(ticketId: number): Promise<SupportTicket | null>;
+  abstract linkMessage(ticketId: number, supportChatId: number, supportMessageId: number): Promise<void>;
+  abstract findByMessage(supportChatId: number, supportMessageId: number): Promise<SupportTicket | null>;
+  /**
+   * The user's most recent tickets, newest first.
+   */
+  abstract listByUser(userId: number, limit: number): Promise<SupportTicket[]>;
+}
+
+type TicketRow = {
+  id: number;
+  user_id: number;
+  chat_id: number;
+  username: string | null;
+  language: string;
+  status: SupportTicketStatus;
+  opened_at: string;
+  closed_at: string | null;
+};
+
+export class SupabaseSupportTicketRepository extends SupportTicketRepository {
+  private readonly logger = new Logger(SupabaseSupportTicketRepository.name);
+
+  constructor(
+    private readonly client: SupabaseClient,
+    private readonly ticketTable: string,
+    private readonly messageTable: string,
+  ) {
+    super();
+  }
+
+  async findOpenByUser(userId: number): Promise<SupportTicket | null> {
+    const { data, error } = await this.client
+      .from(this.ticketTable)
+      .select('*')
+      .eq('user_id', userId)
+      .eq('status', 'open')
+      .order('opened_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to look up open ticket for user ${userId}: ${error.message}`);
+      return null;
+    }
+    return data ? this.fromRow(data as TicketRow) : null;
+  }
+
+  async findById(ticketId: number): Promise<SupportTicket | null> {
+    const { data, error } = await this.client
+      .from(this.ticketTable)
+      .select('*')
+      .eq('id', ticketId)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to load ticket ${ticketId}: ${error.message}`);
+      return null;
+    }
+    return data ? this.fromRow(data as TicketRow) : null;
+  }
+
+  async create(ticket: NewSupportTicket): Promise<SupportTicket | null> {
+    const { data, error } = await this.client
+      .from(this.ticketTable)
+      .insert({
+        user_id: ticket.userId,
+        chat_id: ticket.chatId,
+        username: ticket.username,
+        language: ticket.language,
+        status: 'open',
+        opened_at: new Date().toISOString(),
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      this.logger.error(`Failed to open ticket for user ${ticket.userId}: ${error.message}`);
+      return null;
+    }
+    return this.fromRow(data as TicketRow);
+  }
+
+  async close(ticketId: number): Promise<SupportTicket | null> {
+    const { data, error } = await this.client
+      .from(this.ticketTable)
+      .update({ status: 'closed', closed_at: new Date().toISOString() })
+      .eq('id', ticketId)
+      .eq('status', 'open')
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to close ticket ${ticketId}: ${error.message}`);
+      return null;
+    }
+    return data ? this.fromRow(data as TicketRow) : null;
+  }
+
+  async linkMessage(ticketId: number, supportChatId: number, supportMessageId: number): Promise<void> {
+    const { error } = await this.client.from(this.messageTable).insert({
+      ticket_id: ticketId,
+      support_chat_id: supportChatId,
+      support_message_id: supportMessageId,
+    });
+
+    if (error) {
+      this.logger.warn(`Failed to link message ${supportMessageId} to ticket ${ticketId}: ${error.message}`);
+    }
+  }
+
+  async findByMessage(supportChatId: number, supportMessageId: number): Promise<SupportTicket | null> {
+    const { data, error } = await this.client
+      .from(this.messageTable)
+      .select('ticket_id')
+      .eq('support_chat_id', supportChatId)
+      .eq('support_message_id', supportMessageId)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to resolve ticket for message ${supportMessageId}: ${error.message}`);
+      return null;
+    }
+    return data ? this.findById(Number(data.ticket_id)) : null;
+  }
+
+  async listByUser(userId: number, limit: number): Promise<SupportTicket[]> {
+    const { data, error } = await this.client
+      .from(this.ticketTable)
+      .select('*')
+      .eq('user_id', userId)
+      .order('opened_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      this.logger.error(`Failed to list tickets of user ${userId}: ${error.message}`);
+      return [];
+    }
+    return ((data ?? []) as TicketRow[]).map((row) => this.fromRow(row));
+  }
+
+  private fromRow(row: TicketRow): SupportTicket {
+    return {
+      id: Number(row.id),
+      userId: Number(row.user_id),
+      chatId: Number(row.chat_id),
+      username: row.username,
+      language: row.language,
+      status: row.status,
+      openedAt: row.opened_at,
+      closedAt: row.closed_at,
+    };
+  }
+}
+
+/**
+ * Process-local store for development without Supabase; tickets are lost on restart.
+ */
+export class InMemorySupportTicketRepository extends SupportTicketRepository {
+  private readonly tickets = new Map<number, SupportTicket>();
+  private readonly messages = new Map<string, number>();
+  private nextId = 1;
+
+  async findOpenByUser(userId: number): Promise<SupportTicket | null> {
+    for (const ticket of this.tickets.values()) {
+      if (ticket.userId === userId && ticket.status === 'open') {
+        return ticket;
+      }
+    }
+    return null;
+  }
+
+  async findById(ticketId: number): Promise<SupportTicket | null> {
+    return this.tickets.get(ticketId) ?? null;
+  }
+
+  async create(ticket: NewSupportTicket): Promise<SupportTicket | null> {
+    const created: SupportTicket = {
+      ...ticket,
+      id: this.nextId++,
+      status: 'open',
+      openedAt: new Date().toISOString(),
+      closedAt: null,
+    };
+    this.tickets.set(created.id, created);
+    return created;
+  }
+
+  async close(ticketId: number): Promise<SupportTicket | null> {
+    const ticket = this.tickets.get(ticketId);
+    if (!ticket || ticket.status !== 'open') {
+      return null;
+    }
+    const closed: SupportTicket = { ...ticket, status: 'closed', closedAt: new Date().toISOString() };
+    this.tickets.set(ticketId, closed);
+    return closed;
+  }
+
+  async linkMessage(ticketId: number, supportChatId: number, supportMessageId: number): Promise<void> {
+    this.messages.set(`${supportChatId}:${supportMessageId}`, ticketId);
+  }
+
+  async findByMessage(supportChatId: number, supportMessageId: number): Promise<SupportTicket | null> {
+    const ticketId = this.messages.get(`${supportChatId}:${supportMessageId}`);
+    return ticketId ? this.findById(ticketId) : null;
+  }
+
+  async listByUser(userId: number, limit: number): Promise<SupportTicket[]> {
+    return [...this.tickets.values()]
+      .filter((ticket) => ticket.userId === userId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,37 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { SupabaseService } from '../supabase/supabase.service';
+import { SupportHandoffService } from './support-handoff.service';
+import {
+  InMemorySupportTicketRepository,
+  SupabaseSupportTicketRepository,
+  SupportTicketRepository,
+} from './support-ticket.repository';
+
+@Module({
+  providers: [
+    {
+      provide: SupportTicketRepository,
+      inject: [ConfigService, SupabaseService],
+      useFactory: (configService: ConfigService, supabaseService: SupabaseService) => {
+        const client = supabaseService.getClient();
+        if (!client) {
+          new Logger(SupportModule.name).warn(
+            'Supabase is not configured; support tickets are kept in memory and lost on restart.',
+          );
+          return new InMemorySupportTicketRepository();
+        }
+
+        return new SupabaseSupportTicketRepository(
+          client,
+          configService.get<string>('SUPPORT_TICKET_TABLE') ?? 'support_tickets',
+          configService.get<string>('SUPPORT_MESSAGE_TABLE') ?? 'support_ticket_messages',
+        );
+      },
+    },
+    SupportHandoffService,
+  ],
+  exports: [SupportHandoffService],
+})
+export class SupportModule {}
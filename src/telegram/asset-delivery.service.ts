@@ -0,0 +1,135 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Markup, Telegram } from 'telegraf';
+import * as path from 'path';
+import { Readable } from 'stream';
+
+import { TopicAsset } from '../catalog/support-topic';
+import { I18nService } from '../i18n/i18n.service';
+import { Language } from '../i18n/language';
+import { StorageBackendName } from '../storage/storage-provider';
+import { StorageService } from '../storage/storage.service';
+import { isRejectedFileIdError, TelegramFileCacheService } from './telegram-file-cache.service';
+import { VideoDeliveryService } from './video-delivery.service';
+
+type FileAsset = Extract<TopicAsset, { type: 'document' | 'photo' }>;
+
+/**
+ * Sends the non-video assets of a topic: text steps, URL buttons, and documents or photos from the
+ * bucket. Files are uploaded once and re-sent by their cached Telegram file_id afterwards, keyed
+ * by the object's ETag like videos.
+ */
+@Injectable()
+export class AssetDeliveryService {
+  private readonly logger = new Logger(AssetDeliveryService.name);
+
+  constructor(
+    private readonly videoDelivery: VideoDeliveryService,
+    private readonly storage: StorageService,
+    private readonly fileCache: TelegramFileCacheService,
+    private readonly i18n: I18nService,
+  ) {}
+
+  /**
+   * Sends one asset (already localized), reading files from the topic's storage backend. Returns
+   * false when a file is missing from storage; throws when Telegram rejects the send so the job
+   * can be retried.
+   */
+  async send(
+    telegram: Telegram,
+    chatId: number,
+    language: Language,
+    asset: Exclude<TopicAsset, { type: 'video' }>,
+    backend?: StorageBackendName,
+  ): Promise<boolean> {
+    switch (asset.type) {
+      case 'text':
+        await telegram.sendMessage(chatId, asset.text, asset.parseMode ? { parse_mode: asset.parseMode } : undefined);
+        return true;
+      case 'link':
+        await telegram.sendMessage(
+          chatId,
+          asset.text ?? this.i18n.t(language, 'assetLinkPrompt'),
+          Markup.inlineKeyboard([[Markup.button.url(asset.label, asset.url)]]),
+        );
+        return true;
+      case 'document':
+      case 'photo':
+        return this.sendFile(telegram, chatId, asset, backend);
+    }
+  }
+
+  private async sendFile(
+    telegram: Telegram,
+    chatId: number,
+    asset: FileAsset,
+    backend: StorageBackendName | undefined,
+  ): Promise<boolean> {
+    const version = await this.videoDelivery.getObjectVersion(asset.storagePath, backend);
+    if (!version) {
+      this.logger.warn(`Skipping ${asset.type} ${asset.storagePath}: not found in storage`);
+      return false;
+    }
+
+    const cached = await this.fileCache.get(backend, asset.storagePath, version);
+    if (cached) {
+      try {
+        await this.sendByType(telegram, chatId, asset, cached.fileId);
+        return true;
+      } catch (error) {
+        if (!isRejectedFileIdError(error)) {
+          throw error;
+        }
+        this.logger.warn(`Cached file id for ${asset.storagePath} was rejected, uploading again. Error: ${String(error)}`);
+        await this.fileCache.invalidate(backend, asset.storagePath);
+      }
+    }
+
+    // Telegraf fetches the URL (or reads the stream when the backend has no URLs) and uploads it, so
+    // the file gets a proper name instead of the signed URL's path and query string.
+    const filename = (asset.type === 'document' ? asset.fileName : undefined) ?? path.posix.basename(asset.storagePath);
+    const url = await this.videoDelivery.getObjectUrl(asset.storagePath, backend);
+    const storage = this.storage.get(backend);
+    const file = url
+      ? { url, filename }
+      : storage
+        ? { source: await storage.download(asset.storagePath), filename }
+        : null;
+    if (!file) {
+      this.logger.warn(`Skipping ${asset.type} ${asset.storagePath}: storage is not configured`);
+      return false;
+    }
+    const fileId = await this.sendByType(telegram, chatId, asset, file);
+    if (fileId) {
+      await this.fileCache.set(backend, {
+        storagePath: asset.storagePath,
+        version,
+        fileId,
+        partFileIds: null,
+        width: null,
+        height: null,
+      });
+    }
+    return true;
+  }
+
+  /**
+   * Sends a photo or document and returns the file_id Telegram assigned to it.
+   */
+  private async sendByType(
+    telegram: Telegram,
+    chatId: number,
+    asset: FileAsset,
+    file: string | { url: string; filename: string } | { source: Readable; filename: string },
+  ): Promise<string | null> {
+    if (asset.type === 'photo') {
+      await telegram.sendChatAction(chatId, 'upload_photo');
+      const message = await telegram.sendPhoto(chatId, file, { caption: asset.caption });
+      // Telegram returns every generated size; the last one is the original resolution.
+      return message.photo[message.photo.length - 1]?.file_id ?? null;
+    }
+
+    await telegram.sendChatAction(chatId, 'upload_document');
+    const message = await telegram.sendDocument(chatId, file, { caption: asset.caption });
+    return message.document.file_id;
+  }
+}
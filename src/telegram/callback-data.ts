@@ -0,0 +1,59 @@
+/**
+ * Inline button callback data is `<action>:<arg>:<arg>...`. Telegram rejects buttons whose data is
+ * longer than 64 bytes, so every encoder goes through `encodeCallbackData`, which enforces the cap.
+ */
+export const MAX_CALLBACK_DATA_BYTES = 64;
+
+export const CallbackAction = {
+  Menu: 'm',
+  Topic: 't',
+  Language: 'l',
+  Support: 's',
+  Broadcast: 'b',
+  VideoJob: 'v',
+  Chapter: 'c',
+  Setup: 'w',
+  Verify: 'a',
+} as const;
+
+export type CallbackPayload = {
+  action: string;
+  args: string[];
+};
+
+export function encodeCallbackData(action: string, ...args: string[]): string {
+  const data = [action, ...args].join(':');
+  const size = Buffer.byteLength(data, 'utf8');
+  if (size > MAX_CALLBACK_DATA_BYTES) {
+    throw new Error(`Callback data "${data}" is ${size} bytes; Telegram allows ${MAX_CALLBACK_DATA_BYTES}.`);
+  }
+  return data;
+}
+
+/**
+ * Splits callback data into action and arguments. Data without a separator predates the scheme
+ * (buttons on old messages carried the bare topic key) and is treated as a topic request.
+ */
+export function decodeCallbackData(data: string): CallbackPayload {
+  const [action, ...args] = data.split(':');
+  if (args.length === 0) {
+    return { action: CallbackAction.Topic, args: [action] };
+  }
+  return { action, args };
+}
+
+/**
+ * Menu node callback; `categoryKey` null means the home menu. The category key is enough to rebuild
+ * the full path (and the Back target) because categories form a tree with a single parent each.
+ */
+export function menuCallback(categoryKey: string | null): string {
+  return encodeCallbackData(CallbackAction.Menu, categoryKey ?? '');
+}
+
+export function topicCallback(topicKey: string): string {
+  return encodeCallbackData(CallbackAction.Topic, topicKey);
+}
+
+export function chapterCallback(topicKey: string, chapterIndex: number): string {
+  return encodeCallbackData(CallbackAction.Chapter, topicKey, String(chapterIndex));
+}
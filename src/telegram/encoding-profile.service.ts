@@ -0,0 +1,75 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+import { BUILT_IN_PROFILES, EncodingProfile, validateEncodingProfiles } from './encoding-profile';
+
+/**
+ * Named ffmpeg profiles: the built-in screen-recording, talking-head and low-bandwidth profiles,
+ * adjusted or extended by an optional JSON/YAML file so operators can tune encodes without a
+ * release. Topics pick a profile by name; unknown names fall back to the default profile.
+ */
+@Injectable()
+export class EncodingProfileService implements OnModuleInit {
+  private readonly logger = new Logger(EncodingProfileService.name);
+  private profiles: Record<string, EncodingProfile> = { ...BUILT_IN_PROFILES };
+  private readonly filePath: string;
+  private readonly defaultProfileName: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.filePath = path.resolve(
+      this.configService.get<string>('ENCODING_PROFILES_FILE') ?? path.join('config', 'encoding-profiles.json'),
+    );
+    this.defaultProfileName =
+      this.configService.get<string>('VIDEO_DEFAULT_ENCODING_PROFILE')?.trim() || 'screen-recording';
+  }
+
+  async onModuleInit(): Promise<void> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn(`Unable to read ${this.filePath}; using built-in encoding profiles: ${String(error)}`);
+      }
+      this.checkDefaultProfile();
+      return;
+    }
+
+    try {
+      const extension = path.extname(this.filePath).toLowerCase();
+      const parsed: unknown =
+        extension === '.yaml' || extension === '.yml' ? parseYaml(contents) : JSON.parse(contents);
+      this.profiles = validateEncodingProfiles(parsed, this.filePath);
+      this.logger.log(`Loaded encoding profiles: ${Object.keys(this.profiles).join(', ')}`);
+    } catch (error) {
+      this.logger.error(`Ignoring ${this.filePath}; using built-in encoding profiles. ${String(error)}`);
+    }
+    this.checkDefaultProfile();
+  }
+
+  resolve(name: string | null | undefined): EncodingProfile {
+    if (name) {
+      const profile = this.profiles[name];
+      if (profile) {
+        return profile;
+      }
+      this.logger.warn(`Unknown encoding profile "${name}"; using "${this.defaultProfileName}"`);
+    }
+    return this.profiles[this.defaultProfileName] ?? BUILT_IN_PROFILES['screen-recording'];
+  }
+
+  list(): EncodingProfile[] {
+    return Object.values(this.profiles);
+  }
+
+  private checkDefaultProfile(): void {
+    if (!this.profiles[this.defaultProfileName]) {
+      this.logger.warn(
+        `VIDEO_DEFAULT_ENCODING_PROFILE "${this.defaultProfileName}" is not defined; using "screen-recording"`,
+      );
+    }
+  }
+}
@@ -0,0 +1,168 @@
+import { createHash } from 'crypto';
+
+/**
+ * ffmpeg settings for one kind of source video. Output is always H.264/AAC MP4 with faststart so
+ * Telegram can stream it.
+ */
+export type EncodingProfile = {
+  name: string;
+  /** Output height in pixels; the width follows the source aspect ratio. */
+  height: number;
+  crf: number;
+  preset: string;
+  videoProfile: 'baseline' | 'main' | 'high';
+  level: string;
+  /** Caps the bitrate of the CRF encode in kbit/s; 0 leaves it uncapped. */
+  maxBitrateKbps: number;
+  audioBitrateKbps: number;
+  audioChannels: number;
+  /**
+   * Largest acceptable output. A CRF encode over this size is redone in two passes at the bitrate
+   * that fits; Telegram rejects bot uploads over 50 MB.
+   */
+  maxFileSizeBytes: number;
+};
+
+export class EncodingProfileValidationError extends Error {
+  constructor(
+    readonly source: string,
+    readonly issues: string[],
+  ) {
+    super(`Invalid encoding profiles from ${source}: ${issues.join('; ')}`);
+    this.name = 'EncodingProfileValidationError';
+  }
+}
+
+const MB = 1024 * 1024;
+
+export const BUILT_IN_PROFILES: Record<string, EncodingProfile> = {
+  'screen-recording': {
+    name: 'screen-recording',
+    height: 720,
+    crf: 23,
+    preset: 'veryfast',
+    videoProfile: 'main',
+    level: '3.1',
+    maxBitrateKbps: 2500,
+    audioBitrateKbps: 96,
+    audioChannels: 1,
+    maxFileSizeBytes: 48 * MB,
+  },
+  'talking-head': {
+    name: 'talking-head',
+    height: 720,
+    crf: 21,
+    preset: 'veryfast',
+    videoProfile: 'main',
+    level: '3.1',
+    maxBitrateKbps: 3500,
+    audioBitrateKbps: 128,
+    audioChannels: 2,
+    maxFileSizeBytes: 48 * MB,
+  },
+  'low-bandwidth': {
+    name: 'low-bandwidth',
+    height: 480,
+    crf: 28,
+    preset: 'veryfast',
+    videoProfile: 'baseline',
+    level: '3.0',
+    maxBitrateKbps: 800,
+    audioBitrateKbps: 64,
+    audioChannels: 1,
+    maxFileSizeBytes: 20 * MB,
+  },
+};
+
+const PROFILE_NAME_PATTERN = /^[a-z0-9-]{1,32}$/;
+const PRESETS = ['ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium', 'slow', 'slower', 'veryslow'];
+const VIDEO_PROFILES = ['baseline', 'main', 'high'];
+
+/**
+ * Short hash of every setting, stored with renditions and cached file ids so changing a profile
+ * makes the affected videos encode again.
+ */
+export function profileFingerprint(profile: EncodingProfile): string {
+  const hash = createHash('sha1').update(JSON.stringify(profile)).digest('hex').slice(0, 8);
+  return `${profile.name}@${hash}`;
+}
+
+/**
+ * Merges a raw profiles document (`{ profiles: { name: { ...settings } } }`) over the built-in
+ * profiles. Entries named like a built-in profile, or with `extends` naming one, only need the
+ * settings they change. Throws EncodingProfileValidationError listing every problem.
+ */
+export function validateEncodingProfiles(raw: unknown, source: string): Record<string, EncodingProfile> {
+  const entries =
+    raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as Record<string, unknown>).profiles : undefined;
+  if (!entries || typeof entries !== 'object' || Array.isArray(entries)) {
+    throw new EncodingProfileValidationError(source, ['expected an object with a "profiles" map']);
+  }
+
+  const issues: string[] = [];
+  const profiles: Record<string, EncodingProfile> = { ...BUILT_IN_PROFILES };
+
+  for (const [name, entry] of Object.entries(entries as Record<string, unknown>)) {
+    const where = `profile "${name}"`;
+    if (!PROFILE_NAME_PATTERN.test(name)) {
+      issues.push(`${where} has an invalid name (lowercase letters, digits and "-", max 32 chars)`);
+      continue;
+    }
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      issues.push(`${where} is not an object`);
+      continue;
+    }
+
+    const { extends: baseName, ...settings } = entry as Record<string, unknown>;
+    const base = typeof baseName === 'string' ? BUILT_IN_PROFILES[baseName] : BUILT_IN_PROFILES[name];
+    if (baseName !== undefined && !base) {
+      issues.push(`${where} extends unknown built-in profile "${String(baseName)}"`);
+      continue;
+    }
+
+    const profile = { ...base, ...settings, name };
+    const entryIssues = checkProfile(profile, where);
+    if (entryIssues.length > 0) {
+      issues.push(...entryIssues);
+      continue;
+    }
+    profiles[name] = profile as EncodingProfile;
+  }
+
+  if (issues.length > 0) {
+    throw new EncodingProfileValidationError(source, issues);
+  }
+  return profiles;
+}
+
+function checkProfile(profile: Record<string, unknown>, where: string): string[] {
+  const issues: string[] = [];
+  const ranges: Array<[keyof EncodingProfile, number, number]> = [
+    ['height', 144, 2160],
+    ['crf', 0, 51],
+    ['maxBitrateKbps', 0, 50_000],
+    ['audioBitrateKbps', 16, 512],
+    ['audioChannels', 1, 2],
+    ['maxFileSizeBytes', MB, 2000 * MB],
+  ];
+
+  for (const [field, min, max] of ranges) {
+    const value = profile[field];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      issues.push(`${where} needs an integer "${field}" between ${min} and ${max}`);
+    }
+  }
+  if (typeof profile.height === 'number' && profile.height % 2 !== 0) {
+    issues.push(`${where} needs an even "height"`);
+  }
+  if (typeof profile.preset !== 'string' || !PRESETS.includes(profile.preset)) {
+    issues.push(`${where} has unknown "preset" (one of ${PRESETS.join(', ')})`);
+  }
+  if (typeof profile.videoProfile !== 'string' || !VIDEO_PROFILES.includes(profile.videoProfile)) {
+    issues.push(`${where} has unknown "videoProfile" (one of ${VIDEO_PROFILES.join(', ')})`);
+  }
+  if (typeof profile.level !== 'string' || !/^\d(\.\d)?$/.test(profile.level)) {
+    issues.push(`${where} has invalid "level" (e.g. "3.1")`);
+  }
+  return issues;
+}
@@ -0,0 +1,276 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, Hash } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+
+import { parsePositiveInt } from '../common/config-values';
+import { SignedUrlCacheService } from '../storage/signed-url-cache.service';
+import { StorageObjectInfo, StorageProvider } from '../storage/storage-provider';
+import { TempWorkspaceService } from './temp-workspace.service';
+
+/**
+ * A failed download. `retryable` is false when trying again cannot help, e.g. the object is missing
+ * or over the size limit.
+ */
+export class DownloadError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+  ) {
+    super(message);
+    this.name = 'DownloadError';
+  }
+}
+
+type OpenedBody = {
+  body: Readable;
+  /** Byte offset the body starts at; 0 unless a ranged request was honoured. */
+  offset: number;
+  /** Size of the whole object when the response states it. */
+  totalBytes: number | null;
+};
+
+const MAX_REDIRECTS = 5;
+const MB = 1024 * 1024;
+// Storage answers errors with a page or document; those must never end up as a video.
+const ERROR_CONTENT_TYPES = ['text/html', 'application/json', 'application/xml', 'text/xml'];
+// Supabase and S3 report the MD5 of single-part uploads as the ETag; multipart ETags carry a suffix.
+const MD5_ETAG_PATTERN = /^[a-f0-9]{32}$/i;
+
+/**
+ * Downloads stored objects into the temp workspace. Each attempt has connect and read timeouts,
+ * follows redirects and stops at DOWNLOAD_MAX_MB; a failed attempt resumes with a Range request
+ * where the server allows it. The result is checked against the object's size and, when its ETag
+ * is an MD5, its checksum.
+ */
+@Injectable()
+export class ObjectDownloaderService {
+  private readonly logger = new Logger(ObjectDownloaderService.name);
+  private readonly connectTimeoutMs: number;
+  private readonly readTimeoutMs: number;
+  private readonly maxBytes: number;
+  private readonly attempts: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly signedUrls: SignedUrlCacheService,
+    private readonly workspace: TempWorkspaceService,
+  ) {
+    this.connectTimeoutMs = parsePositiveInt(this.configService.get<string>('DOWNLOAD_CONNECT_TIMEOUT_MS')) ?? 10_000;
+    this.readTimeoutMs = parsePositiveInt(this.configService.get<string>('DOWNLOAD_READ_TIMEOUT_MS')) ?? 30_000;
+    this.maxBytes = (parsePositiveInt(this.configService.get<string>('DOWNLOAD_MAX_MB')) ?? 1024) * MB;
+    this.attempts = parsePositiveInt(this.configService.get<string>('DOWNLOAD_ATTEMPTS')) ?? 3;
+  }
+
+  /**
+   * Downloads `storagePath` to a new workspace file and returns its path. The file is removed again
+   * when the download fails.
+   */
+  async downloadToTemp(storage: StorageProvider, storagePath: string, signal: AbortSignal): Promise<string> {
+    const stored = await storage.getObjectInfo(storagePath);
+    // Some backends keep the quotes of the HTTP ETag header.
+    const info = stored && { ...stored, etag: stored.etag?.replace(/"/g, '') || null };
+    if (info?.size !== null && info?.size !== undefined && info.size > this.maxBytes) {
+      throw new DownloadError(`${storagePath} is ${info.size} bytes, over the ${this.maxBytes / MB} MB limit`, false);
+    }
+    const tempPath = this.workspace.filePath('download', path.extname(storagePath) || '.mp4');
+    const reservation = await this.workspace.reserve(tempPath, info?.size ?? 0);
+    try {
+      await this.downloadWithRetries(storage, storagePath, info, tempPath, signal);
+      return tempPath;
+    } catch (error) {
+      await this.workspace.remove([tempPath]);
+      throw error;
+    } finally {
+      // From here on the file counts by its size on disk.
+      reservation.release();
+    }
+  }
+
+  private async downloadWithRetries(
+    storage: StorageProvider,
+    storagePath: string,
+    info: StorageObjectInfo | null,
+    tempPath: string,
+    signal: AbortSignal,
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        const { bytes, totalBytes } = await this.attempt(storage, storagePath, info, tempPath, signal);
+        await this.verify(storagePath, tempPath, bytes, totalBytes ?? info?.size ?? null, info?.etag ?? null);
+        return;
+      } catch (error) {
+        signal.throwIfAborted();
+        const retryable = !(error instanceof DownloadError) || error.retryable;
+        if (!retryable || attempt >= this.attempts) {
+          throw error;
+        }
+        this.logger.warn(`Download of ${storagePath} failed (attempt ${attempt}/${this.attempts}): ${String(error)}`);
+        await new Promise((resolve) => setTimeout(resolve, attempt * 1000));
+      }
+    }
+  }
+
+  /**
+   * One attempt, continuing after whatever an earlier attempt left in `tempPath`.
+   */
+  private async attempt(
+    storage: StorageProvider,
+    storagePath: string,
+    info: StorageObjectInfo | null,
+    tempPath: string,
+    signal: AbortSignal,
+  ): Promise<{ bytes: number; totalBytes: number | null }> {
+    const existing = (await fs.stat(tempPath).catch(() => null))?.size ?? 0;
+    const url = (await this.signedUrls.getSignedUrl(storage, storagePath)) ?? storage.getPublicUrl(storagePath);
+    // Backends without URLs (local disk) are read directly; there is nothing to resume over a network.
+    const opened = url
+      ? await this.openUrl(url, existing, info?.etag ?? null, signal)
+      : { body: await storage.download(storagePath, signal), offset: 0, totalBytes: info?.size ?? null };
+
+    if (opened.offset > 0) {
+      this.logger.log(`Resuming download of ${storagePath} at byte ${opened.offset}`);
+    }
+
+    let bytes = opened.offset;
+    const limit = new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        bytes += chunk.length;
+        if (bytes > this.maxBytes) {
+          callback(new DownloadError(`${storagePath} is over the ${this.maxBytes / MB} MB limit`, false));
+          return;
+        }
+        callback(null, chunk);
+      },
+    });
+    await pipeline(opened.body, limit, createWriteStream(tempPath, { flags: opened.offset > 0 ? 'a' : 'w' }), {
+      signal,
+    });
+    return { bytes, totalBytes: opened.totalBytes };
+  }
+
+  private async verify(
+    storagePath: string,
+    tempPath: string,
+    bytes: number,
+    expectedBytes: number | null,
+    etag: string | null,
+  ): Promise<void> {
+    const written = (await fs.stat(tempPath)).size;
+    if (written !== bytes || (expectedBytes !== null && written !== expectedBytes)) {
+      // Start over: the partial file cannot be trusted for a resume.
+      await this.workspace.remove([tempPath]);
+      throw new DownloadError(`${storagePath} is ${written} bytes, expected ${expectedBytes ?? bytes}`, true);
+    }
+
+    if (etag && MD5_ETAG_PATTERN.test(etag)) {
+      const md5 = await this.hashFile(tempPath, createHash('md5'));
+      if (md5 !== etag.toLowerCase()) {
+        await this.workspace.remove([tempPath]);
+        throw new DownloadError(`${storagePath} failed its checksum: MD5 ${md5}, ETag ${etag}`, true);
+      }
+    }
+  }
+
+  /**
+   * GETs `url` from byte `offset` on, following redirects. Falls back to the whole object when the
+   * server ignores the Range header or the object changed since the partial download (If-Range).
+   */
+  private async openUrl(
+    url: string,
+    offset: number,
+    etag: string | null,
+    signal: AbortSignal,
+    redirects = 0,
+  ): Promise<OpenedBody> {
+    const headers: Record<string, string> = offset > 0 ? { range: `bytes=${offset}-` } : {};
+    if (offset > 0 && etag) {
+      headers['if-range'] = `"${etag}"`;
+    }
+
+    const response = await this.get(url, headers, signal);
+    const status = response.statusCode ?? 0;
+
+    if (status >= 300 && status < 400 && response.headers.location) {
+      response.resume();
+      if (redirects >= MAX_REDIRECTS) {
+        throw new DownloadError(`Too many redirects downloading ${this.describe(url)}`, false);
+      }
+      return this.openUrl(new URL(response.headers.location, url).toString(), offset, etag, signal, redirects + 1);
+    }
+    if (status === 416 && offset > 0) {
+      // The partial file is already complete or no longer matches; start over.
+      response.resume();
+      return this.openUrl(url, 0, etag, signal, redirects);
+    }
+    if (status !== 200 && status !== 206) {
+      response.resume();
+      const retryable = status === 408 || status === 429 || status >= 500;
+      throw new DownloadError(`Download of ${this.describe(url)} failed with status ${status}`, retryable);
+    }
+
+    const contentType = response.headers['content-type']?.split(';')[0].trim().toLowerCase();
+    if (contentType && ERROR_CONTENT_TYPES.includes(contentType)) {
+      response.resume();
+      throw new DownloadError(`Download of ${this.describe(url)} returned ${contentType} instead of a file`, true);
+    }
+
+    const length = Number(response.headers['content-length']);
+    const contentLength = Number.isFinite(length) && response.headers['content-length'] !== undefined ? length : null;
+    if (status === 206) {
+      const range = /^bytes (\d+)-(\d+)\/(\d+|\*)$/.exec(response.headers['content-range'] ?? '');
+      if (!range || Number(range[1]) !== offset) {
+        response.resume();
+        return this.openUrl(url, 0, etag, signal, redirects);
+      }
+      return { body: response, offset, totalBytes: range[3] === '*' ? null : Number(range[3]) };
+    }
+    return { body: response, offset: 0, totalBytes: contentLength };
+  }
+
+  /**
+   * One GET with a connect timeout (until the socket connects) and a read timeout (longest silence
+   * while the response streams).
+   */
+  private get(url: string, headers: Record<string, string>, signal: AbortSignal): Promise<http.IncomingMessage> {
+    const requester = url.startsWith('https:') ? https : http;
+    return new Promise((resolve, reject) => {
+      const request = requester.get(url, { headers, signal }, (response) => {
+        clearTimeout(connectTimer);
+        resolve(response);
+      });
+      const connectTimer = setTimeout(
+        () =>
+          request.destroy(
+            new DownloadError(`No connection to ${this.describe(url)} within ${this.connectTimeoutMs} ms`, true),
+          ),
+        this.connectTimeoutMs,
+      );
+      request.setTimeout(this.readTimeoutMs, () =>
+        request.destroy(new DownloadError(`No data from ${this.describe(url)} for ${this.readTimeoutMs} ms`, true)),
+      );
+      request.on('error', (error) => {
+        clearTimeout(connectTimer);
+        reject(error);
+      });
+    });
+  }
+
+  private async hashFile(filePath: string, hash: Hash): Promise<string> {
+    for await (const chunk of createReadStream(filePath)) {
+      hash.update(chunk as Buffer);
+    }
+    return hash.digest('hex');
+  }
+
+  // Signed URLs carry credentials in the query string; keep them out of logs and errors.
+  private describe(url: string): string {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname}`;
+  }
+}
@@ -0,0 +1,318 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Context, Markup, Telegram } from 'telegraf';
+
+import { InteractionOutcome } from '../analytics/analytics.repository';
+import { localizeTopic, SupportTopic } from '../catalog/support-topic';
+import { TopicCatalogService } from '../catalog/topic-catalog.service';
+import { I18nService } from '../i18n/i18n.service';
+import { Language } from '../i18n/language';
+import { UserLanguageService } from '../i18n/user-language.service';
+import { SetupProgress, SetupProgressRepository } from '../setup/setup-progress.repository';
+import { SetupEvent, transition } from '../setup/setup-wizard';
+import { SupportHandoffService } from '../support/support-handoff.service';
+import { VerificationService } from '../verification/verification.service';
+import { CallbackAction, encodeCallbackData } from './callback-data';
+import { safeAnswerCbQuery } from './telegram-context';
+import { VideoJob, VideoJobPayload } from './video-job-queue';
+import { VideoJobWorkerService } from './video-job-worker.service';
+
+const DEFAULT_STEPS = [
+  'exness_referral',
+  'create_cent_account',
+  'claim_bot_bhub',
+  'buy_vps',
+  'connect_vps',
+  'setup_bot_vps',
+  'copy_bot_settings_balances',
+];
+
+const DONE = 'done';
+const HELP = 'help';
+const REPEAT = 'repeat';
+const RESUME = 'resume';
+const RESTART = 'restart';
+
+type SetupUser = VideoJobPayload['user'];
+
+/**
+ * `/setup` walks a new user through the whole setup, one topic per step in the order of
+ * SETUP_WIZARD_STEPS. Each step's guide goes through the video queue; once it is sent the user is
+ * asked "Done? / Need help" and only a Done moves on. Progress is stored per user, so `/setup`
+ * after a restart (or days later) offers to continue where they stopped.
+ */
+@Injectable()
+export class SetupWizardService implements OnModuleInit, OnApplicationBootstrap {
+  private readonly logger = new Logger(SetupWizardService.name);
+  private readonly stepKeys: string[];
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly progressRepository: SetupProgressRepository,
+    private readonly videoJobs: VideoJobWorkerService,
+    private readonly catalog: TopicCatalogService,
+    private readonly i18n: I18nService,
+    private readonly userLanguage: UserLanguageService,
+    private readonly supportHandoff: SupportHandoffService,
+    private readonly verification: VerificationService,
+  ) {
+    const configured = (this.configService.get<string>('SETUP_WIZARD_STEPS') ?? '')
+      .split(',')
+      .map((key) => key.trim())
+      .filter((key) => key.length > 0);
+    this.stepKeys = configured.length > 0 ? configured : DEFAULT_STEPS;
+  }
+
+  onModuleInit(): void {
+    this.videoJobs.onJobFinished((telegram, job, outcome) => this.handleJobFinished(telegram, job, outcome));
+  }
+
+  onApplicationBootstrap(): void {
+    const missing = this.stepKeys.filter((key) => !this.catalog.getTopic(key));
+    if (missing.length > 0) {
+      this.logger.warn(`SETUP_WIZARD_STEPS lists unknown or disabled topics, skipping them: ${missing.join(', ')}`);
+    }
+  }
+
+  async handleCommand(ctx: Context): Promise<void> {
+    const language = await this.userLanguage.resolve(ctx.from);
+    const user = ctx.from;
+    if (!user || typeof ctx.chat?.id !== 'number') {
+      return;
+    }
+
+    const steps = this.steps();
+    if (steps.length === 0) {
+      await ctx.reply(this.i18n.t(language, 'setupUnavailable'));
+      return;
+    }
+
+    const progress = await this.progressRepository.get(user.id);
+    if (progress && progress.state !== 'completed') {
+      const stepIndex = this.locate(progress, steps);
+      await ctx.reply(
+        this.i18n.t(language, 'setupResumePrompt', this.stepParams(steps, stepIndex, language)),
+        Markup.inlineKeyboard([
+          Markup.button.callback(
+            this.i18n.t(language, 'setupResumeButton'),
+            encodeCallbackData(CallbackAction.Setup, RESUME),
+          ),
+          Markup.button.callback(
+            this.i18n.t(language, 'setupRestartButton'),
+            encodeCallbackData(CallbackAction.Setup, RESTART),
+          ),
+        ]),
+      );
+      return;
+    }
+
+    await ctx.reply(this.i18n.t(language, 'setupIntro'));
+    await this.apply(ctx.telegram, ctx.chat.id, user, language, null, 'start');
+  }
+
+  /**
+   * Handles the wizard's buttons. Step buttons carry the step index, so a tap on a prompt of an
+   * earlier step is answered but changes nothing.
+   */
+  async handleCallback(ctx: Context, args: string[]): Promise<void> {
+    const language = await this.userLanguage.resolve(ctx.from);
+    const user = ctx.from;
+    const chatId = ctx.chat?.id;
+    const [command, rawIndex] = args;
+    if (!user || typeof chatId !== 'number') {
+      await safeAnswerCbQuery(ctx, this.i18n.t(language, 'unknownOption'));
+      return;
+    }
+
+    const progress = await this.progressRepository.get(user.id);
+    const steps = this.steps();
+    const current = progress ? { stepIndex: this.locate(progress, steps), state: progress.state } : null;
+
+    const events: Record<string, SetupEvent> = {
+      [DONE]: 'done',
+      [HELP]: 'help',
+      [REPEAT]: 'repeat',
+      [RESUME]: 'resume',
+      [RESTART]: 'start',
+    };
+    const event = command ? events[command] : undefined;
+    const staleStep = rawIndex !== undefined && Number(rawIndex) !== current?.stepIndex;
+    if (!event || staleStep || !transition(current, event, steps.length)) {
+      await safeAnswerCbQuery(ctx, this.i18n.t(language, event ? 'setupStepExpired' : 'unknownOption'));
+      return;
+    }
+
+    await safeAnswerCbQuery(ctx);
+    await this.removeButtons(ctx);
+    await this.apply(ctx.telegram, chatId, user, language, progress, event);
+  }
+
+  /**
+   * Asks for confirmation once the guide of the user's current step has been sent (or could not be
+   * sent, so they can ask for help). A cancelled guide leaves the step open for `/setup` to resume.
+   */
+  private async handleJobFinished(telegram: Telegram, job: VideoJob, outcome: InteractionOutcome): Promise<void> {
+    const { payload } = job;
+    if (payload.origin !== 'setup' || outcome === 'cancelled') {
+      return;
+    }
+
+    const progress = await this.progressRepository.get(payload.user.id);
+    if (!progress || progress.stepKey !== payload.topicKey) {
+      return;
+    }
+    await this.apply(telegram, payload.chatId, payload.user, payload.language, progress, 'delivered');
+  }
+
+  /**
+   * Moves the user through the state machine, stores the new position and sends what the new state
+   * calls for.
+   */
+  private async apply(
+    telegram: Telegram,
+    chatId: number,
+    user: SetupUser,
+    language: Language,
+    progress: SetupProgress | null,
+    event: SetupEvent,
+  ): Promise<void> {
+    const steps = this.steps();
+    const current = progress ? { stepIndex: this.locate(progress, steps), state: progress.state } : null;
+    const next = transition(current, event, steps.length);
+    if (!next) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const saved: SetupProgress = {
+      userId: user.id,
+      chatId,
+      stepIndex: next.stepIndex,
+      stepKey: steps[next.stepIndex].key,
+      state: next.state,
+      startedAt: event === 'start' || !progress ? now : progress.startedAt,
+      updatedAt: now,
+      completedAt: next.state === 'completed' ? now : null,
+    };
+    await this.progressRepository.save(saved);
+
+    const params = this.stepParams(steps, next.stepIndex, language);
+    switch (next.state) {
+      case 'sending':
+        await this.sendStep(telegram, chatId, user, language, steps[next.stepIndex], params);
+        return;
+      case 'awaiting_confirmation':
+        await telegram.sendMessage(
+          chatId,
+          this.i18n.t(language, 'setupConfirmPrompt', params),
+          Markup.inlineKeyboard([
+            this.stepButton(language, 'setupDoneButton', DONE, next.stepIndex),
+            this.stepButton(language, 'setupHelpButton', HELP, next.stepIndex),
+          ]),
+        );
+        return;
+      case 'needs_help': {
+        const supportEnabled = this.supportHandoff.isEnabled();
+        await telegram.sendMessage(
+          chatId,
+          this.i18n.t(language, supportEnabled ? 'setupHelpPrompt' : 'setupHelpPromptNoSupport', params),
+          Markup.inlineKeyboard([
+            [this.stepButton(language, 'setupRepeatButton', REPEAT, next.stepIndex)],
+            ...(supportEnabled ? [[this.supportHandoff.supportButton(language)]] : []),
+            [this.stepButton(language, 'setupDoneButton', DONE, next.stepIndex)],
+          ]),
+        );
+        return;
+      }
+      case 'completed':
+        await telegram.sendMessage(chatId, this.i18n.t(language, 'setupCompleted', { total: steps.length }));
+        return;
+    }
+  }
+
+  /**
+   * Announces the step and queues its guide; the worker sends it and reports back through
+   * `handleJobFinished`. A step gated behind verification waits until the user is verified and
+   * runs `/setup` again.
+   */
+  private async sendStep(
+    telegram: Telegram,
+    chatId: number,
+    user: SetupUser,
+    language: Language,
+    topic: SupportTopic,
+    params: Record<string, string | number>,
+  ): Promise<void> {
+    await telegram.sendMessage(chatId, this.i18n.t(language, 'setupStep', params));
+    if (!(await this.verification.isAllowed(user.id, topic))) {
+      const notice = this.verification.buildRequiredNotice(topic, language);
+      await telegram.sendMessage(chatId, notice.text, notice.markup);
+      return;
+    }
+    if (!(await this.videoJobs.canEnqueue(user.id))) {
+      await telegram.sendMessage(chatId, this.i18n.t(language, 'videoQueueFull'));
+      return;
+    }
+
+    const statusMessage = await telegram.sendMessage(chatId, this.i18n.t(language, 'videoSending'));
+    await this.videoJobs.enqueue({
+      chatId,
+      user: {
+        id: user.id,
+        username: user.username,
+        first_name: user.first_name,
+        language_code: user.language_code,
+      },
+      language,
+      topicKey: topic.key,
+      origin: 'setup',
+      statusMessageId: statusMessage.message_id,
+    });
+  }
+
+  /**
+   * Enabled topics of SETUP_WIZARD_STEPS, in order.
+   */
+  private steps(): SupportTopic[] {
+    return this.stepKeys
+      .map((key) => this.catalog.getTopic(key))
+      .filter((topic): topic is SupportTopic => topic !== null);
+  }
+
+  /**
+   * Index of the stored step in the current step list. Follows the topic key when steps were
+   * reordered; a step that was removed keeps its index so the user continues with the one after it.
+   */
+  private locate(progress: SetupProgress, steps: SupportTopic[]): number {
+    const index = steps.findIndex((topic) => topic.key === progress.stepKey);
+    return index >= 0 ? index : Math.min(progress.stepIndex, steps.length - 1);
+  }
+
+  private stepParams(steps: SupportTopic[], stepIndex: number, language: Language) {
+    return {
+      step: stepIndex + 1,
+      total: steps.length,
+      label: localizeTopic(steps[stepIndex], language).label,
+    };
+  }
+
+  private stepButton(
+    language: Language,
+    labelKey: 'setupDoneButton' | 'setupHelpButton' | 'setupRepeatButton',
+    command: string,
+    stepIndex: number,
+  ) {
+    return Markup.button.callback(
+      this.i18n.t(language, labelKey),
+      encodeCallbackData(CallbackAction.Setup, command, String(stepIndex)),
+    );
+  }
+
+  private async removeButtons(ctx: Context): Promise<void> {
+    try {
+      await ctx.editMessageReplyMarkup(undefined);
+    } catch (error) {
+      this.logger.debug(`Unable to remove setup buttons: ${String(error)}`);
+    }
+  }
+}
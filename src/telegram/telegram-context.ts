@@ -0,0 +1,28 @@
+import { Logger } from '@nestjs/common';
+import { Context } from 'telegraf';
+import { User } from 'telegraf/types';
+
+const logger = new Logger('TelegramContext');
+
+/**
+ * A Telegram user for logs, audit entries and staff messages: `Ann Lee (@ann, id 42)`.
+ */
+export function describeUser(user: User | undefined): string {
+  if (!user) {
+    return 'unknown user';
+  }
+  const name = [user.first_name, user.last_name].filter(Boolean).join(' ');
+  return user.username ? `${name} (@${user.username}, id ${user.id})` : `${name} (id ${user.id})`;
+}
+
+/**
+ * Answers a button tap so its spinner stops. The query may already be answered or too old, which
+ * is not worth more than a debug line.
+ */
+export async function safeAnswerCbQuery(ctx: Context, text?: string): Promise<void> {
+  try {
+    await ctx.answerCbQuery(text);
+  } catch (error) {
+    logger.debug(`Unable to answer callback query: ${String(error)}`);
+  }
+}
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { ConfigService } from '@nestjs/config';
+import { TelegramError } from 'telegraf';
+
+import { StorageService } from '../storage/storage.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { CachedTelegramFile, isRejectedFileIdError, TelegramFileCacheService } from './telegram-file-cache.service';
+
+const badRequest = (description: string) => new TelegramError({ error_code: 400, description });
+
+const entry = (version: string): CachedTelegramFile => ({
+  storagePath: 'guides/a.mp4',
+  version,
+  fileId: `file-${version}`,
+  partFileIds: null,
+  width: null,
+  height: null,
+});
+
+function createCache(): TelegramFileCacheService {
+  const providers = {
+    supabase: { name: 'supabase', location: 'videos' },
+    s3: { name: 's3', location: 'videos' },
+  } as const;
+  const storage = {
+    get: (backend?: keyof typeof providers) => providers[backend ?? 'supabase'],
+    getDefaultBackend: () => 'supabase',
+  } as unknown as StorageService;
+  const config = new ConfigService({ BOT_TOKEN: '123:abc' });
+  const supabase = { getClient: () => null } as unknown as SupabaseService;
+  return new TelegramFileCacheService(config, supabase, storage);
+}
+
+describe('isRejectedFileIdError', () => {
+  it('accepts the Bad Requests Telegram sends for unusable file ids', () => {
+    assert.equal(isRejectedFileIdError(badRequest('Bad Request: wrong file identifier/HTTP URL specified')), true);
+    assert.equal(isRejectedFileIdError(badRequest('Bad Request: FILE_REFERENCE_EXPIRED')), true);
+    assert.equal(isRejectedFileIdError(badRequest('Bad Request: type of file mismatch')), true);
+  });
+
+  it('keeps the entry on rate limits, other Bad Requests, network errors and cancellations', () => {
+    const tooManyRequests = new TelegramError({
+      error_code: 429,
+      description: 'Too Many Requests: retry after 5',
+      parameters: { retry_after: 5 },
+    });
+    assert.equal(isRejectedFileIdError(tooManyRequests), false);
+    assert.equal(isRejectedFileIdError(badRequest('Bad Request: chat not found')), false);
+    assert.equal(isRejectedFileIdError(new TelegramError({ error_code: 502, description: 'Bad Gateway' })), false);
+    assert.equal(isRejectedFileIdError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })), false);
+    assert.equal(isRejectedFileIdError(new DOMException('This operation was aborted', 'AbortError')), false);
+  });
+});
+
+describe('TelegramFileCacheService', () => {
+  it('drops an entry once the stored object changes', async () => {
+    const cache = createCache();
+    await cache.set(undefined, entry('v1'));
+
+    assert.equal((await cache.get(undefined, 'guides/a.mp4', 'v1'))?.fileId, 'file-v1');
+    assert.equal(await cache.get(undefined, 'guides/a.mp4', 'v2'), null);
+    assert.equal(await cache.get(undefined, 'guides/a.mp4', 'v1'), null);
+  });
+
+  it('keeps the same path in different backends apart', async () => {
+    const cache = createCache();
+    await cache.set('s3', entry('v1'));
+
+    assert.equal(cache.peek('supabase', 'guides/a.mp4'), null);
+    assert.equal(cache.peek('s3', 'guides/a.mp4')?.fileId, 'file-v1');
+    await cache.invalidate(undefined, 'guides/a.mp4');
+    assert.equal(cache.peek('s3', 'guides/a.mp4')?.fileId, 'file-v1');
+  });
+});
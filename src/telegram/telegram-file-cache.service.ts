@@ -0,0 +1,212 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TelegramError } from 'telegraf';
+
+import { StorageBackendName } from '../storage/storage-provider';
+import { StorageService } from '../storage/storage.service';
+import { SupabaseService } from '../supabase/supabase.service';
+
+export type CachedTelegramFile = {
+  storagePath: string;
+  version: string;
+  /** File id of the whole video, or of its first part when it was sent in parts. */
+  fileId: string;
+  /** File ids of every part, in order, when the video was too large to send in one piece. */
+  partFileIds: string[] | null;
+  width: number | null;
+  height: number | null;
+};
+
+/** How Telegram words a Bad Request for a file_id it no longer (or never) accepts. */
+const REJECTED_FILE_ID_DESCRIPTIONS = [
+  'wrong file identifier',
+  'wrong remote file identifier',
+  'file reference expired',
+  'file_reference_expired',
+  'type of file mismatch',
+];
+
+type FileCacheRow = {
+  bot_id: number;
+  location: string;
+  storage_path: string;
+  version: string;
+  file_id: string;
+  part_file_ids: string[] | null;
+  width: number | null;
+  height: number | null;
+};
+
+/**
+ * Remembers the Telegram file_id of every uploaded video so later sends skip download and re-encode.
+ * Entries are keyed by bot, storage location and path, checked against the object version (ETag),
+ * and persisted in a Supabase table. File ids only work for the bot that uploaded the file, and the
+ * same path in another bucket is another file.
+ */
+@Injectable()
+export class TelegramFileCacheService implements OnModuleInit {
+  private readonly logger = new Logger(TelegramFileCacheService.name);
+  private readonly entries = new Map<string, CachedTelegramFile>();
+  private readonly tableName: string;
+  private readonly botId: number;
+  private persistenceEnabled = true;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly supabaseService: SupabaseService,
+    private readonly storage: StorageService,
+  ) {
+    this.tableName =
+      this.configService.get<string>('TELEGRAM_FILE_CACHE_TABLE') ?? 'telegram_file_cache';
+    // The bot id is the part of the token before the colon.
+    const token =
+      this.configService.get<string>('BOT_TOKEN') || this.configService.get<string>('TELEGRAM_BOT_TOKEN') || '';
+    this.botId = Number(token.split(':')[0]) || 0;
+  }
+
+  async onModuleInit(): Promise<void> {
+    const client = this.supabaseService.getClient();
+    if (!client) {
+      this.persistenceEnabled = false;
+      return;
+    }
+
+    const { data, error } = await client
+      .from(this.tableName)
+      .select('bot_id, location, storage_path, version, file_id, part_file_ids, width, height')
+      .eq('bot_id', this.botId);
+
+    if (error) {
+      this.persistenceEnabled = false;
+      this.logger.warn(
+        `Telegram file cache table "${this.tableName}" unavailable; caching in memory only. Error: ${error.message}`,
+      );
+      return;
+    }
+
+    for (const row of (data ?? []) as FileCacheRow[]) {
+      this.entries.set(this.entryKey(row.location, row.storage_path), this.fromRow(row));
+    }
+    this.logger.log(`Loaded ${this.entries.size} cached Telegram file ids`);
+  }
+
+  /**
+   * Returns the cached file for the given object version. A cached entry for an older version is
+   * dropped so the next send uploads the changed object.
+   */
+  async get(
+    backend: StorageBackendName | undefined,
+    storagePath: string,
+    version: string,
+  ): Promise<CachedTelegramFile | null> {
+    const cached = this.entries.get(this.entryKey(this.locate(backend), storagePath));
+    if (!cached) {
+      return null;
+    }
+
+    if (cached.version !== version) {
+      this.logger.log(`Storage object ${storagePath} changed; invalidating cached file id`);
+      await this.invalidate(backend, storagePath);
+      return null;
+    }
+
+    return cached;
+  }
+
+  /**
+   * Returns whatever is cached for `storagePath` without checking the object version, for callers
+   * that cannot afford a storage lookup (inline queries).
+   */
+  peek(backend: StorageBackendName | undefined, storagePath: string): CachedTelegramFile | null {
+    return this.entries.get(this.entryKey(this.locate(backend), storagePath)) ?? null;
+  }
+
+  async set(backend: StorageBackendName | undefined, entry: CachedTelegramFile): Promise<void> {
+    const location = this.locate(backend);
+    this.entries.set(this.entryKey(location, entry.storagePath), entry);
+
+    const client = this.supabaseService.getClient();
+    if (!client || !this.persistenceEnabled) {
+      return;
+    }
+
+    const { error } = await client
+      .from(this.tableName)
+      .upsert(this.toRow(location, entry), { onConflict: 'bot_id,location,storage_path' });
+
+    if (error) {
+      this.logger.warn(`Failed to persist Telegram file id for ${entry.storagePath}: ${error.message}`);
+    }
+  }
+
+  async invalidate(backend: StorageBackendName | undefined, storagePath: string): Promise<void> {
+    const location = this.locate(backend);
+    this.entries.delete(this.entryKey(location, storagePath));
+
+    const client = this.supabaseService.getClient();
+    if (!client || !this.persistenceEnabled) {
+      return;
+    }
+
+    const { error } = await client
+      .from(this.tableName)
+      .delete()
+      .eq('bot_id', this.botId)
+      .eq('location', location)
+      .eq('storage_path', storagePath);
+    if (error) {
+      this.logger.warn(`Failed to delete cached Telegram file id for ${storagePath}: ${error.message}`);
+    }
+  }
+
+  /**
+   * The backend and bucket (or directory) behind `backend`, e.g. `s3:videos`. An unconfigured
+   * backend has no files to cache, so its bare name is enough.
+   */
+  private locate(backend: StorageBackendName | undefined): string {
+    const storage = this.storage.get(backend);
+    return storage ? `${storage.name}:${storage.location}` : (backend ?? this.storage.getDefaultBackend());
+  }
+
+  private entryKey(location: string, storagePath: string): string {
+    return `${location}:${storagePath}`;
+  }
+
+  private fromRow(row: FileCacheRow): CachedTelegramFile {
+    return {
+      storagePath: row.storage_path,
+      version: row.version,
+      fileId: row.file_id,
+      partFileIds: row.part_file_ids?.length ? row.part_file_ids : null,
+      width: row.width ?? null,
+      height: row.height ?? null,
+    };
+  }
+
+  private toRow(location: string, entry: CachedTelegramFile): FileCacheRow & { updated_at: string } {
+    return {
+      bot_id: this.botId,
+      location,
+      storage_path: entry.storagePath,
+      version: entry.version,
+      file_id: entry.fileId,
+      part_file_ids: entry.partFileIds,
+      width: entry.width,
+      height: entry.height,
+      updated_at: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Whether Telegram refused a send because of the cached file_id itself, so the entry should be
+ * dropped and the file uploaded again. Rate limits, network failures and cancellations say nothing
+ * about the file_id and must not cost the cache entry.
+ */
+export function isRejectedFileIdError(error: unknown): boolean {
+  if (!(error instanceof TelegramError) || error.code !== 400) {
+    return false;
+  }
+  const description = error.description.toLowerCase();
+  return REJECTED_FILE_ID_DESCRIPTIONS.some((phrase) => description.includes(phrase));
+}
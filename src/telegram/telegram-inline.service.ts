@@ -0,0 +1,96 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Context, Markup } from 'telegraf';
+import { InlineQueryResult } from 'telegraf/types';
+
+import { localizeTopic, SupportTopic } from '../catalog/support-topic';
+import { TopicCatalogService } from '../catalog/topic-catalog.service';
+import { TopicSearchService } from '../catalog/topic-search.service';
+import { I18nService } from '../i18n/i18n.service';
+import { Language } from '../i18n/language';
+import { UserLanguageService } from '../i18n/user-language.service';
+import { TelegramFileCacheService } from './telegram-file-cache.service';
+
+/**
+ * `/start` payload of the deep link attached to shared guides; the bot sends the topic right away.
+ */
+export const TOPIC_START_PREFIX = 'topic-';
+
+// Telegram shows at most 50 inline results.
+const MAX_INLINE_RESULTS = 20;
+
+/**
+ * Answers `@bot <query>` in any chat with matching guides. A guide whose video Telegram already
+ * has is shared as that video; the others are shared as a short message. Both carry a button that
+ * opens the guide in the bot.
+ */
+@Injectable()
+export class TelegramInlineService {
+  private readonly logger = new Logger(TelegramInlineService.name);
+
+  constructor(
+    private readonly catalog: TopicCatalogService,
+    private readonly search: TopicSearchService,
+    private readonly fileCache: TelegramFileCacheService,
+    private readonly i18n: I18nService,
+    private readonly userLanguage: UserLanguageService,
+  ) {}
+
+  async handleInlineQuery(ctx: Context): Promise<void> {
+    const inlineQuery = ctx.inlineQuery;
+    if (!inlineQuery) {
+      return;
+    }
+
+    const language = await this.userLanguage.resolve(ctx.from);
+    const query = inlineQuery.query.trim();
+    const topics = query
+      ? this.search.search(query, MAX_INLINE_RESULTS).map((match) => match.topic)
+      : this.catalog.getTopics().slice(0, MAX_INLINE_RESULTS);
+
+    const results = topics.map((topic) => this.toResult(localizeTopic(topic, language), language, ctx.me));
+    try {
+      // Results depend on the user's language, so Telegram must not share its cache between users.
+      await ctx.answerInlineQuery(results, { cache_time: 300, is_personal: true });
+    } catch (error) {
+      this.logger.warn(`Failed to answer inline query "${query}": ${String(error)}`);
+    }
+  }
+
+  private toResult(topic: SupportTopic, language: Language, botUsername: string): InlineQueryResult {
+    const markup = Markup.inlineKeyboard([
+      Markup.button.url(
+        this.i18n.t(language, 'inlineWatchButton'),
+        `https://t.me/${botUsername}?start=${TOPIC_START_PREFIX}${topic.key}`,
+      ),
+    ]);
+
+    // Only single-file videos can be shared as one inline result. Gated guides are never shared as
+    // video; the bot checks verification when the button opens it.
+    const cached =
+      topic.storagePath && !topic.requiresVerification
+        ? this.fileCache.peek(topic.storageBackend, topic.storagePath)
+        : null;
+    if (cached && !cached.partFileIds) {
+      return {
+        type: 'video',
+        id: topic.key,
+        video_file_id: cached.fileId,
+        title: topic.label,
+        description: topic.caption,
+        caption: topic.caption,
+        ...markup,
+      };
+    }
+
+    return {
+      type: 'article',
+      id: topic.key,
+      title: topic.label,
+      description: topic.caption,
+      input_message_content: {
+        message_text: `${topic.label}\n\n${topic.caption}\n\n${this.i18n.t(language, 'inlineOpenBotHint')}`,
+      },
+      ...markup,
+    };
+  }
+}
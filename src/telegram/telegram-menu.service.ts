@@ -0,0 +1,130 @@
+import { Injectable } from '@nestjs/common';
+import { Markup } from 'telegraf';
+
+import {
+  formatTimestamp,
+  localizeCategory,
+  localizeTopic,
+  SupportCategory,
+  SupportTopic,
+} from '../catalog/support-topic';
+import { TopicCatalogService } from '../catalog/topic-catalog.service';
+import { I18nService } from '../i18n/i18n.service';
+import { Language } from '../i18n/language';
+import { SupportHandoffService } from '../support/support-handoff.service';
+import { chapterCallback, menuCallback, topicCallback } from './callback-data';
+
+export type MenuView = {
+  text: string;
+  markup: ReturnType<typeof Markup.inlineKeyboard>;
+};
+
+/**
+ * Renders the nested topic menu. Each node lists its child categories first, then its topics, and
+ * submenus end with Back/Home buttons so navigation can edit the same message in place. The home
+ * menu ends with a "Talk to support" button when handoff is configured.
+ */
+@Injectable()
+export class TelegramMenuService {
+  constructor(
+    private readonly catalog: TopicCatalogService,
+    private readonly i18n: I18nService,
+    private readonly supportHandoff: SupportHandoffService,
+  ) {}
+
+  /**
+   * Builds the menu for `categoryKey` (home when null). Returns null for categories that no longer
+   * exist or have no enabled topics, e.g. after a catalog reload.
+   */
+  buildMenu(categoryKey: string | null, language: Language): MenuView | null {
+    const category = categoryKey ? this.catalog.getCategory(categoryKey) : null;
+    if (categoryKey && !category) {
+      return null;
+    }
+
+    const childCategories = this.catalog.getChildCategories(categoryKey);
+    const topics = this.catalog.getTopicsInCategory(categoryKey);
+    if (category && childCategories.length === 0 && topics.length === 0) {
+      return null;
+    }
+
+    const rows = [
+      ...childCategories.map((child) => [
+        Markup.button.callback(`📂 ${localizeCategory(child, language).label}`, menuCallback(child.key)),
+      ]),
+      ...topics.map((topic) => [
+        Markup.button.callback(localizeTopic(topic, language).label, topicCallback(topic.key)),
+      ]),
+    ];
+
+    if (category) {
+      const navigation = [];
+      if (category.parent) {
+        navigation.push(Markup.button.callback(this.i18n.t(language, 'menuBack'), menuCallback(category.parent)));
+      }
+      navigation.push(Markup.button.callback(this.i18n.t(language, 'menuHome'), menuCallback(null)));
+      rows.push(navigation);
+    } else if (this.supportHandoff.isEnabled()) {
+      rows.push([this.supportHandoff.supportButton(language)]);
+    }
+
+    return {
+      text: category
+        ? `${this.breadcrumb(category, language)}\n\n${this.i18n.t(language, 'menuChooseGuide')}`
+        : this.i18n.t(language, 'intro'),
+      markup: Markup.inlineKeyboard(rows),
+    };
+  }
+
+  /**
+   * Chapter buttons shown under a sent video, one per chapter with its start time. `topic` must
+   * already be localized. Returns null when the topic has no chapters.
+   */
+  buildChapterMenu(topic: SupportTopic, language: Language): MenuView | null {
+    if (!topic.chapters?.length) {
+      return null;
+    }
+
+    return {
+      text: this.i18n.t(language, 'videoChaptersPrompt', { label: topic.label }),
+      markup: Markup.inlineKeyboard(
+        topic.chapters.map((chapter, index) => [
+          Markup.button.callback(
+            `${formatTimestamp(chapter.start)} · ${chapter.title}`,
+            chapterCallback(topic.key, index),
+          ),
+        ]),
+      ),
+    };
+  }
+
+  /**
+   * Reply to a free-text question: the matching topics as buttons, or an apology when nothing
+   * matched. Both end with the "Talk to support" button when handoff is configured.
+   */
+  buildSearchResults(topics: SupportTopic[], language: Language): MenuView {
+    const rows = topics.map((topic) => [
+      Markup.button.callback(localizeTopic(topic, language).label, topicCallback(topic.key)),
+    ]);
+    const supportEnabled = this.supportHandoff.isEnabled();
+    if (supportEnabled) {
+      rows.push([this.supportHandoff.supportButton(language)]);
+    }
+
+    let text = this.i18n.t(language, 'searchResults');
+    if (topics.length === 0) {
+      text = this.i18n.t(language, supportEnabled ? 'searchNoResultsSupport' : 'searchNoResults');
+    }
+    return { text, markup: Markup.inlineKeyboard(rows) };
+  }
+
+  private breadcrumb(category: SupportCategory, language: Language): string {
+    const labels: string[] = [];
+    let current: SupportCategory | null = category;
+    while (current) {
+      labels.unshift(localizeCategory(current, language).label);
+      current = current.parent ? this.catalog.getCategory(current.parent) : null;
+    }
+    return labels.join(' › ');
+  }
+}
@@ -1,11 +1,33 @@
-import { Body, Controller, Get, Headers, HttpCode, Post } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  Headers,
+  HttpCode,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
 import { Update } from 'telegraf/types';
 
+import { AnalyticsService } from '../analytics/analytics.service';
+import { AdminAuthGuard } from '../auth/admin-auth.guard';
+import { SignedUrlCacheService } from '../storage/signed-url-cache.service';
 import { TelegramService } from './telegram.service';
+import { VideoJobWorkerService } from './video-job-worker.service';
+import { VideoWarmupService } from './video-warmup.service';
 
 @Controller('telegram')
 export class TelegramController {
-  constructor(private readonly telegramService: TelegramService) {}
+  constructor(
+    private readonly telegramService: TelegramService,
+    private readonly analyticsService: AnalyticsService,
+    private readonly videoJobs: VideoJobWorkerService,
+    private readonly videoWarmup: VideoWarmupService,
+    private readonly signedUrls: SignedUrlCacheService,
+  ) {}
 
   @Get('options')
   getOptions() {
@@ -17,6 +39,42 @@ export class TelegramController {
     return { status: 'ok', source: 'telegram-bot' };
   }
 
+  @Get('stats')
+  @UseGuards(AdminAuthGuard)
+  getStats(@Query('from') from?: string, @Query('to') to?: string) {
+    return this.analyticsService.getStats(from, to);
+  }
+
+  @Get('jobs/:id')
+  @UseGuards(AdminAuthGuard)
+  async getJob(@Param('id') id: string) {
+    const job = await this.videoJobs.getJob(id);
+    if (!job) {
+      throw new NotFoundException(`Video job ${id} not found`);
+    }
+    return job;
+  }
+
+  @Get('renditions/warmup')
+  @UseGuards(AdminAuthGuard)
+  getWarmupStatus() {
+    return this.videoWarmup.getStatus();
+  }
+
+  @Post('renditions/warmup')
+  @HttpCode(202)
+  @UseGuards(AdminAuthGuard)
+  startWarmup() {
+    const started = this.videoWarmup.start();
+    return { started, ...this.videoWarmup.getStatus() };
+  }
+
+  @Get('storage/url-cache')
+  @UseGuards(AdminAuthGuard)
+  getSignedUrlCacheStats() {
+    return this.signedUrls.getStats();
+  }
+
   @Post('webhook')
   @HttpCode(200)
   handleWebhook(
@@ -1,11 +1,47 @@
 import { Module } from '@nestjs/common';
 
+import { AbuseModule } from '../abuse/abuse.module';
+import { AdminModule } from '../admin/admin.module';
+import { BroadcastModule } from '../broadcast/broadcast.module';
+import { SetupModule } from '../setup/setup.module';
+import { SupportModule } from '../support/support.module';
+import { VerificationModule } from '../verification/verification.module';
+import { AssetDeliveryService } from './asset-delivery.service';
+import { EncodingProfileService } from './encoding-profile.service';
+import { ObjectDownloaderService } from './object-downloader.service';
+import { SetupWizardService } from './setup-wizard.service';
 import { TelegramController } from './telegram.controller';
+import { TelegramFileCacheService } from './telegram-file-cache.service';
+import { TelegramInlineService } from './telegram-inline.service';
+import { TelegramMenuService } from './telegram-menu.service';
 import { TelegramService } from './telegram.service';
+import { TempWorkspaceService } from './temp-workspace.service';
+import { VideoDeliveryService } from './video-delivery.service';
+import { InMemoryVideoJobQueue, VideoJobQueue } from './video-job-queue';
+import { VideoJobWorkerService } from './video-job-worker.service';
+import { VideoRenditionService } from './video-rendition.service';
+import { VideoWarmupService } from './video-warmup.service';
 
 @Module({
-  providers: [TelegramService],
+  imports: [SupportModule, BroadcastModule, SetupModule, VerificationModule, AdminModule, AbuseModule],
+  providers: [
+    TelegramService,
+    TelegramFileCacheService,
+    TelegramInlineService,
+    TelegramMenuService,
+    AssetDeliveryService,
+    SetupWizardService,
+    VideoDeliveryService,
+    VideoJobWorkerService,
+    VideoRenditionService,
+    VideoWarmupService,
+    EncodingProfileService,
+    ObjectDownloaderService,
+    TempWorkspaceService,
+    // Swap for a persistent VideoJobQueue implementation to share jobs between instances.
+    { provide: VideoJobQueue, useClass: InMemoryVideoJobQueue },
+  ],
   controllers: [TelegramController],
-  exports: [TelegramService],
+  exports: [TelegramService, VideoDeliveryService, VideoJobWorkerService, TempWorkspaceService],
 })
 export class TelegramModule {}
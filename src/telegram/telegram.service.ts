@@ -1,120 +1,89 @@
 import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Context, Markup, Telegraf } from 'telegraf';
+import { Context, Markup, Telegraf, Types } from 'telegraf';
 import { Update } from 'telegraf/types';
 
-import { createWriteStream, promises as fs } from 'fs';
-import { tmpdir } from 'os';
-import * as path from 'path';
-import { pipeline } from 'stream/promises';
-import { spawn } from 'child_process';
-import * as https from 'https';
-import * as http from 'http';
-
-import { SupabaseService } from '../supabase/supabase.service';
-
-type VideoOptionKey =
-  | 'exness_referral'
-  | 'create_cent_account'
-  | 'claim_bot_bhub'
-  | 'learn_vps'
-  | 'buy_vps'
-  | 'connect_vps'
-  | 'setup_bot_vps'
-  | 'clone_bot_one_account'
-  | 'copy_bot_settings_balances';
-
-type VideoOption = {
-  label: string;
-  caption: string;
-  storagePath: string;
-  width?: number;
-  height?: number;
+import { ABUSE_ADMIN_COMMANDS, AbuseProtectionService } from '../abuse/abuse-protection.service';
+import { ROLE_ADMIN_COMMANDS, RoleAdminService } from '../admin/role-admin.service';
+import { TOPIC_ADMIN_COMMANDS, TopicAdminService } from '../admin/topic-admin.service';
+import { AnalyticsService } from '../analytics/analytics.service';
+import { BroadcastComposerService } from '../broadcast/broadcast-composer.service';
+import { BroadcastService } from '../broadcast/broadcast.service';
+import { formatTimestamp, localizeTopic, SupportTopic } from '../catalog/support-topic';
+import { TopicCatalogService } from '../catalog/topic-catalog.service';
+import { TopicSearchService } from '../catalog/topic-search.service';
+import { parsePositiveInt } from '../common/config-values';
+import { I18nService } from '../i18n/i18n.service';
+import { isLanguage, Language, LANGUAGE_NAMES, SUPPORTED_LANGUAGES } from '../i18n/language';
+import { UserLanguageService } from '../i18n/user-language.service';
+import { SupportHandoffService } from '../support/support-handoff.service';
+import { VerificationService } from '../verification/verification.service';
+import { CallbackAction, decodeCallbackData, encodeCallbackData } from './callback-data';
+import { SetupWizardService } from './setup-wizard.service';
+import { safeAnswerCbQuery } from './telegram-context';
+import { TelegramInlineService, TOPIC_START_PREFIX } from './telegram-inline.service';
+import { TelegramMenuService } from './telegram-menu.service';
+import { VideoDeliveryService } from './video-delivery.service';
+import { VideoJob } from './video-job-queue';
+import { CANCEL_VIDEO_JOB, VideoJobWorkerService } from './video-job-worker.service';
+
+// Update types the bot handles; requested explicitly for both webhooks and polling.
+const ALLOWED_UPDATES: Types.UpdateType[] = ['message', 'callback_query', 'inline_query'];
+
+export type BotStatus = {
+  mode: 'polling' | 'webhook';
+  /** False before startup finished and after polling stopped. */
+  running: boolean;
+  /** A webhook URL is configured but setting it failed, so the bot fell back to polling. */
+  webhookFallback: boolean;
+  /** The webhook URL the bot sets; null in polling mode. */
+  expectedWebhookUrl: string | null;
+  lastError: string | null;
+  /** Telegram's `getWebhookInfo`; null when Telegram could not be asked. */
+  webhook: {
+    url: string | null;
+    pendingUpdateCount: number;
+    lastErrorAt: string | null;
+    lastErrorMessage: string | null;
+  } | null;
+  webhookInfoError: string | null;
 };
 
 @Injectable()
 export class TelegramService implements OnModuleInit, OnModuleDestroy {
   private bot: Telegraf | null = null;
   private readonly logger = new Logger(TelegramService.name);
+  private running = false;
+  private webhookFallback = false;
+  private lastBotError: string | null = null;
 
-  private readonly videoOptions: Record<VideoOptionKey, VideoOption>;
-  private readonly introMessage =
-    'Hi! Choose a support topic below and I will send you the matching guide.\n\nYou can type /help any time to see this menu again.';
-  private readonly menuMarkup: ReturnType<typeof Markup.inlineKeyboard>;
-  private readonly signedUrlCache = new Map<string, { url: string; expiresAt: number }>();
-
-  private readonly supabaseBucket: string | null;
   private readonly webhookUrl: string | null;
   private readonly webhookSecret: string | null;
   private useLongPolling: boolean;
-  private readonly preferDirectSend: boolean;
   private readonly defaultVideoWidth: number | null;
   private readonly defaultVideoHeight: number | null;
   private readonly handlerTimeoutMs: number;
-  private ffmpegAvailable: boolean | null = null;
-  private readonly activeSends = new Set<number>();
 
   constructor(
     private readonly configService: ConfigService,
-    private readonly supabaseService: SupabaseService,
+    private readonly videoDelivery: VideoDeliveryService,
+    private readonly videoJobs: VideoJobWorkerService,
+    private readonly catalog: TopicCatalogService,
+    private readonly menuService: TelegramMenuService,
+    private readonly i18n: I18nService,
+    private readonly userLanguage: UserLanguageService,
+    private readonly supportHandoff: SupportHandoffService,
+    private readonly analytics: AnalyticsService,
+    private readonly broadcasts: BroadcastService,
+    private readonly broadcastComposer: BroadcastComposerService,
+    private readonly search: TopicSearchService,
+    private readonly inline: TelegramInlineService,
+    private readonly setupWizard: SetupWizardService,
+    private readonly verification: VerificationService,
+    private readonly topicAdmin: TopicAdminService,
+    private readonly roleAdmin: RoleAdminService,
+    private readonly abuseProtection: AbuseProtectionService,
   ) {
-    this.supabaseBucket = this.configService.get<string>('SUPABASE_BUCKET') ?? null;
-    this.videoOptions = {
-      exness_referral: {
-        label: 'Create an Exness account using Varvannareach referral.',
-        caption: 'Steps to sign up with the referral link.',
-        storagePath: 'videos/exness-referral.mp4',
-      },
-      create_cent_account: {
-        label: 'Create a Standard Cent account for bot setup.',
-        caption: 'Guide to creating the correct Exness account type.',
-        storagePath: 'videos/create-cent-account.mp4',
-      },
-      claim_bot_bhub: {
-        label: 'Submit or claim the bot from Bhub.',
-        caption: 'How to claim your bot entitlement via Bhub.',
-        storagePath: 'videos/claim-bot-bhub.mp4',
-      },
-      learn_vps: {
-        label: 'Learn what a VPS is and how it works.',
-        caption: 'Intro to VPS concepts and why they matter.',
-        storagePath: 'videos/learn-vps.mp4',
-      },
-      buy_vps: {
-        label: 'Learn how to buy a VPS from the website.',
-        caption: 'Walkthrough for purchasing a VPS.',
-        storagePath: 'videos/buy-vps.mp4',
-      },
-      connect_vps: {
-        label:
-          'Learn how to connect to a remote VPS (phone, iPad, computer, Mac).',
-        caption: 'Connection steps for each device type.',
-        storagePath: 'videos/connect-vps.mp4',
-      },
-      setup_bot_vps: {
-        label: 'Learn how to set up the bot on the VPS.',
-        caption: 'Full deployment guide on your VPS.',
-        storagePath: 'videos/setup-bot-vps.mp4',
-      },
-      clone_bot_one_account: {
-        label: 'Learn how to clone the bot to run on one account.',
-        caption: 'Cloning and running the bot for a single account.',
-        storagePath: 'videos/clone-bot-one-account.mp4',
-      },
-      copy_bot_settings_balances: {
-        label:
-          'Learn how to copy bot settings for balances like 5K, 10K, and higher.',
-        caption: 'Recommended settings across common balance tiers.',
-        storagePath: 'videos/copy-bot-settings-balances.mp4',
-      },
-    };
-
-    this.menuMarkup = Markup.inlineKeyboard(
-      Object.entries(this.videoOptions).map(([key, option]) => [
-        Markup.button.callback(option.label, key),
-      ]),
-    );
-
     this.webhookUrl = this.resolveWithAlias('WEBHOOK_URL', 'TELEGRAM_WEBHOOK_URL');
     const pollingPreference =
       this.configService.get<string>('TELEGRAM_USE_POLLING')?.toLowerCase() ?? null;
@@ -126,15 +95,12 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
 
     this.useLongPolling = pollingPreference === 'true' || !this.webhookUrl;
     this.webhookSecret = this.configService.get<string>('TELEGRAM_WEBHOOK_SECRET') ?? null;
-    this.defaultVideoWidth = this.parsePositiveInt(this.configService.get<string>('TELEGRAM_VIDEO_WIDTH'));
-    this.defaultVideoHeight = this.parsePositiveInt(this.configService.get<string>('TELEGRAM_VIDEO_HEIGHT'));
+    this.defaultVideoWidth = parsePositiveInt(this.configService.get<string>('TELEGRAM_VIDEO_WIDTH'));
+    this.defaultVideoHeight = parsePositiveInt(this.configService.get<string>('TELEGRAM_VIDEO_HEIGHT'));
+    // Handlers only enqueue video work, so they can use Telegraf's regular handler timeout.
     this.handlerTimeoutMs =
-      this.parsePositiveInt(this.configService.get<string>('TELEGRAM_HANDLER_TIMEOUT_MS')) ??
-      Infinity;
-    this.preferDirectSend =
-      (this.configService.get<string>('TELEGRAM_PREFER_DIRECT_SEND') ?? 'false')
-        .toLowerCase()
-        .trim() === 'true';
+      parsePositiveInt(this.configService.get<string>('TELEGRAM_HANDLER_TIMEOUT_MS')) ??
+      90_000;
   }
 
   async onModuleInit(): Promise<void> {
@@ -156,8 +122,10 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
       this.logger.error(`Telegram bot error${updateId ? ` on update ${updateId}` : ''}: ${String(error)}`);
     });
 
-    await this.checkFfmpegAvailable();
+    await this.videoDelivery.checkFfmpegAvailable();
     this.registerHandlers();
+    this.videoJobs.attach(this.bot.telegram);
+    await this.broadcasts.attach(this.bot.telegram);
 
     if (this.useLongPolling) {
       await this.startLongPolling();
@@ -168,15 +136,49 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
     if (!webhookConfigured) {
       this.logger.warn('Falling back to long polling after webhook configuration failed.');
       this.useLongPolling = true;
+      this.webhookFallback = true;
       await this.startLongPolling();
       return;
     }
 
+    this.running = true;
     this.logger.log('Telegram bot is running with webhooks');
   }
 
+  /**
+   * How the bot receives updates and what Telegram reports about its webhook, for health checks.
+   */
+  async getStatus(): Promise<BotStatus> {
+    const status: BotStatus = {
+      mode: this.useLongPolling ? 'polling' : 'webhook',
+      running: this.running,
+      webhookFallback: this.webhookFallback,
+      expectedWebhookUrl: this.useLongPolling ? null : this.webhookUrl,
+      lastError: this.lastBotError,
+      webhook: null,
+      webhookInfoError: null,
+    };
+    if (!this.bot) {
+      return status;
+    }
+
+    try {
+      const info = await this.bot.telegram.getWebhookInfo();
+      status.webhook = {
+        url: info.url || null,
+        pendingUpdateCount: info.pending_update_count,
+        lastErrorAt: info.last_error_date ? new Date(info.last_error_date * 1000).toISOString() : null,
+        lastErrorMessage: info.last_error_message ?? null,
+      };
+    } catch (error) {
+      status.webhookInfoError = String(error);
+    }
+    return status;
+  }
+
   async stop(): Promise<void> {
     if (this.bot) {
+      this.running = false;
       if (this.useLongPolling) {
         this.bot.stop('App shutdown');
         this.logger.log('Stopped Telegram bot polling');
@@ -208,11 +210,12 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
     try {
       await bot.telegram.setWebhook(this.webhookUrl, {
         secret_token: this.webhookSecret ?? undefined,
-        allowed_updates: ['message', 'callback_query'],
+        allowed_updates: ALLOWED_UPDATES,
       });
       this.logger.log(`Webhook configured at ${this.webhookUrl}`);
       return true;
     } catch (error) {
+      this.lastBotError = `Failed to set webhook: ${String(error)}`;
       this.logger.error(
         `Failed to set Telegram webhook at ${this.webhookUrl}: ${String(error)}`,
       );
@@ -227,7 +230,23 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
     }
 
     await this.deleteWebhookSafe('before starting long polling');
-    await bot.launch({ dropPendingUpdates: true });
+    // launch() only settles once polling stops, so startup waits for its launch callback instead.
+    await new Promise<void>((resolve, reject) => {
+      bot
+        .launch({ dropPendingUpdates: true, allowedUpdates: ALLOWED_UPDATES }, () => {
+          this.running = true;
+          resolve();
+        })
+        .then(() => {
+          this.running = false;
+        })
+        .catch((error) => {
+          this.running = false;
+          this.lastBotError = `Polling stopped: ${String(error)}`;
+          this.logger.error(this.lastBotError);
+          reject(error);
+        });
+    });
     this.logger.log(
       'Telegram bot is running with long polling (no webhook configured)',
     );
@@ -239,8 +258,34 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
       return;
     }
 
-    bot.start((ctx) => ctx.reply(this.introMessage, this.menuMarkup));
-    bot.help((ctx) => ctx.reply(this.introMessage, this.menuMarkup));
+    // Rate limits and the blocklist apply before any handler runs.
+    bot.use(this.abuseProtection.middleware());
+
+    bot.start(async (ctx) => {
+      const language = await this.userLanguage.resolve(ctx.from);
+      void this.analytics.recordStart(ctx.from, language);
+
+      // Deep link from a guide shared through inline mode: send that guide straight away.
+      const topicKey = ctx.payload.startsWith(TOPIC_START_PREFIX)
+        ? ctx.payload.slice(TOPIC_START_PREFIX.length)
+        : null;
+      const topic = topicKey ? this.catalog.getTopic(topicKey) : null;
+      if (topic) {
+        await this.queueVideo(ctx, language, topic.key);
+        return;
+      }
+      await this.replyWithHomeMenu(ctx);
+    });
+    bot.help((ctx) => this.replyWithHomeMenu(ctx));
+    bot.command('language', (ctx) => this.replyWithLanguagePicker(ctx));
+    bot.command('setup', (ctx) => this.setupWizard.handleCommand(ctx));
+    bot.command('verify', (ctx) => this.verification.handleCommand(ctx));
+    bot.command('support', (ctx) => this.supportHandoff.openTicket(ctx));
+    bot.command('close', (ctx) => this.supportHandoff.handleCloseCommand(ctx));
+    bot.command('broadcast', (ctx) => this.broadcastComposer.handleCommand(ctx));
+    bot.command(TOPIC_ADMIN_COMMANDS, (ctx) => this.topicAdmin.handleCommand(ctx));
+    bot.command(ABUSE_ADMIN_COMMANDS, (ctx) => this.abuseProtection.handleCommand(ctx));
+    bot.command(ROLE_ADMIN_COMMANDS, (ctx) => this.roleAdmin.handleCommand(ctx));
 
     bot.on('callback_query', async (ctx) => {
       const callbackQuery = ctx.callbackQuery;
@@ -249,401 +294,335 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
           ? (callbackQuery.data as string | undefined)
           : undefined;
 
-      const chatId = ctx.chat?.id;
-      if (typeof chatId === 'number' && this.activeSends.has(chatId)) {
-        await this.safeAnswerCbQuery(ctx, '⏳ Please wait until the current video finishes sending.');
+      const payload = data ? decodeCallbackData(data) : null;
+      switch (payload?.action) {
+        case CallbackAction.Menu:
+          await this.handleMenuNavigation(ctx, payload.args[0] || null);
+          return;
+        case CallbackAction.Topic:
+          await this.handleTopicRequest(ctx, payload.args[0]);
+          return;
+        case CallbackAction.Language:
+          await this.handleLanguageSelection(ctx, payload.args[0]);
+          return;
+        case CallbackAction.Support:
+          await this.supportHandoff.handleCallback(ctx, payload.args);
+          return;
+        case CallbackAction.Broadcast:
+          await this.broadcastComposer.handleCallback(ctx, payload.args);
+          return;
+        case CallbackAction.VideoJob:
+          await this.handleVideoJobCallback(ctx, payload.args);
+          return;
+        case CallbackAction.Chapter:
+          await this.handleChapterRequest(ctx, payload.args);
+          return;
+        case CallbackAction.Setup:
+          await this.setupWizard.handleCallback(ctx, payload.args);
+          return;
+        case CallbackAction.Verify:
+          await this.verification.handleCallback(ctx, payload.args);
+          return;
+        default: {
+          const language = await this.userLanguage.resolve(ctx.from);
+          await safeAnswerCbQuery(ctx, this.i18n.t(language, 'unknownOption'));
+        }
+      }
+    });
+
+    bot.on('inline_query', (ctx) => this.inline.handleInlineQuery(ctx));
+
+    // Registered last so commands above take precedence over free-form messages.
+    bot.on('message', async (ctx) => {
+      const message = ctx.message;
+      if ('text' in message && message.text.startsWith('/')) {
         return;
       }
 
-      const option = data && this.isVideoOptionKey(data) ? this.videoOptions[data] : null;
-      if (!option) {
-        await this.safeAnswerCbQuery(ctx, 'Unknown option');
+      if (await this.broadcastComposer.handleMessage(ctx)) {
         return;
       }
 
-      try {
-        if (typeof chatId === 'number') {
-          this.activeSends.add(chatId);
-        }
+      if (await this.topicAdmin.handleMessage(ctx)) {
+        return;
+      }
 
-        await this.safeAnswerCbQuery(ctx, 'Sending video…');
-        const statusMessage = await ctx.reply('📤 Video is sending...');
-
-        try {
-          const videoUrl = await this.getVideoUrl(option);
-          if (!videoUrl) {
-            await ctx.reply(
-              'Video will be delivered soon. (Supabase storage not configured or file not found.)',
-            );
-            await this.safeEditMessage(statusMessage.chat.id, statusMessage.message_id, '⚠️ Video will be sent once available.');
-            return;
-          }
-
-          try {
-            await this.sendVideoCompressed(ctx, option, videoUrl);
-            await this.safeEditMessage(
-              statusMessage.chat.id,
-              statusMessage.message_id,
-              `✅ Video sent: ${option.label}`,
-            );
-          } catch (error) {
-            this.logger.error(`Failed to send video for ${option.storagePath}: ${String(error)}`);
-            await ctx.reply('Sorry, failed to send the video. Please try again in a moment.');
-            await this.safeEditMessage(
-              statusMessage.chat.id,
-              statusMessage.message_id,
-              '❌ Failed to send video. Please try again.',
-            );
-          }
-        } finally {
-          if (typeof chatId === 'number') {
-            this.activeSends.delete(chatId);
-          }
-        }
-      } catch (error) {
-        this.logger.warn(`Callback handling failed: ${String(error)}`);
-        await this.safeAnswerCbQuery(ctx, '⚠️ Something went wrong, please try again.');
-        if (typeof chatId === 'number') {
-          this.activeSends.delete(chatId);
-        }
+      if (await this.verification.handleMessage(ctx)) {
+        return;
       }
-    });
-  }
 
-  private resolveWithAlias(primaryKey: string, aliasKey: string): string | null {
-    const primary = this.configService.get<string>(primaryKey) ?? null;
-    const alias = this.configService.get<string>(aliasKey) ?? null;
+      if (await this.supportHandoff.handleMessage(ctx)) {
+        return;
+      }
 
-    if (primary && alias && primary !== alias) {
-      this.logger.warn(
-        `${primaryKey} and ${aliasKey} are both set; using ${primaryKey}. Remove the duplicate to avoid confusion.`,
-      );
-    } else if (!primary && alias) {
-      this.logger.log(`${primaryKey} not set; falling back to legacy ${aliasKey}.`);
-    }
+      if (ctx.chat.type === 'private' && 'text' in message) {
+        await this.replyWithSearchResults(ctx, message.text);
+        return;
+      }
 
-    return primary ?? alias;
+      if (ctx.chat.type === 'private' && this.supportHandoff.isEnabled()) {
+        const language = await this.userLanguage.resolve(ctx.from);
+        await ctx.reply(
+          this.i18n.t(language, 'supportHint'),
+          Markup.inlineKeyboard([[this.supportHandoff.supportButton(language)]]),
+        );
+      }
+    });
   }
 
-  private async getVideoUrl(option: VideoOption): Promise<string | null> {
-    const bucket = this.supabaseBucket;
-    if (!bucket) {
-      this.logger.warn(
-        `Supabase bucket not configured. Set SUPABASE_BUCKET to serve videos for: ${option.label}`,
-      );
-      return null;
+  private async replyWithHomeMenu(ctx: Context): Promise<void> {
+    const language = await this.userLanguage.resolve(ctx.from);
+    void this.analytics.recordMenuOpen(ctx.from, language, null);
+    const menu = this.menuService.buildMenu(null, language);
+    if (menu) {
+      await ctx.reply(menu.text, menu.markup);
     }
+  }
 
-    const cacheKey = `${bucket}:${option.storagePath}`;
-    const cached = this.signedUrlCache.get(cacheKey);
-    const now = Date.now();
-
-    if (cached && cached.expiresAt > now + 15_000) {
-      return cached.url;
-    }
+  /**
+   * Answers a typed question with the best-matching topics, or offers support when none match.
+   */
+  private async replyWithSearchResults(ctx: Context, text: string): Promise<void> {
+    const language = await this.userLanguage.resolve(ctx.from);
+    const topics = this.search.search(text).map((match) => match.topic);
+    const reply = this.menuService.buildSearchResults(topics, language);
+    await ctx.reply(reply.text, reply.markup);
+  }
 
-    const expiresInSeconds = 3600;
-    const url = await this.supabaseService.getSignedUrl(
-      bucket,
-      option.storagePath,
-      expiresInSeconds,
+  private async replyWithLanguagePicker(ctx: Context): Promise<void> {
+    const language = await this.userLanguage.resolve(ctx.from);
+    await ctx.reply(
+      this.i18n.t(language, 'languagePrompt'),
+      Markup.inlineKeyboard(
+        SUPPORTED_LANGUAGES.map((code) => [
+          Markup.button.callback(LANGUAGE_NAMES[code], encodeCallbackData(CallbackAction.Language, code)),
+        ]),
+      ),
     );
+  }
 
-    if (url) {
-      const expiresAt = now + expiresInSeconds * 1000;
-      this.signedUrlCache.set(cacheKey, { url, expiresAt });
-      return url;
+  /**
+   * Stores the picked language and swaps the picker message for the home menu in that language.
+   */
+  private async handleLanguageSelection(ctx: Context, code: string | undefined): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId || !isLanguage(code)) {
+      const language = await this.userLanguage.resolve(ctx.from);
+      await safeAnswerCbQuery(ctx, this.i18n.t(language, 'unknownOption'));
+      return;
     }
 
-    const publicUrl = this.supabaseService.getPublicUrl(bucket, option.storagePath);
-    if (publicUrl) {
-      this.logger.warn(`Using public Supabase URL for ${option.storagePath} (signed URL not available).`);
-      return publicUrl;
-    }
+    await this.userLanguage.setPreference(userId, code);
+    await safeAnswerCbQuery(ctx, this.i18n.t(code, 'languageChanged'));
 
-    return null;
-  }
+    const menu = this.menuService.buildMenu(null, code);
+    if (!menu) {
+      return;
+    }
 
-  private isVideoOptionKey(value: string): value is VideoOptionKey {
-    return value in this.videoOptions;
+    try {
+      await ctx.editMessageText(menu.text, menu.markup);
+    } catch (error) {
+      this.logger.debug(`Unable to edit language picker, sending a new menu: ${String(error)}`);
+      await ctx.reply(menu.text, menu.markup);
+    }
   }
 
   /**
-   * Sends video, re-encoding MP4 with Telegram-safe settings to keep aspect ratio and quality.
+   * Shows a menu node by editing the message that holds the pressed button, so Back/Home do not
+   * flood the chat. Falls back to a new message when the original can no longer be edited.
    */
-  private async sendVideoCompressed(
-    ctx: Context,
-    option: VideoOption,
-    videoUrl: string,
-  ): Promise<void> {
-    await ctx.sendChatAction('upload_video');
-
-    const isMp4 = this.isMp4(option.storagePath);
-    const canReencode = isMp4 && (await this.checkFfmpegAvailable());
-    const shouldDirectSendFirst = isMp4 && this.preferDirectSend;
-
-    if (shouldDirectSendFirst) {
-      try {
-        await ctx.replyWithVideo(
-          { url: videoUrl },
-          {
-            caption: option.caption,
-            supports_streaming: true,
-          },
-        );
+  private async handleMenuNavigation(ctx: Context, categoryKey: string | null): Promise<void> {
+    const language = await this.userLanguage.resolve(ctx.from);
+    let menu = this.menuService.buildMenu(categoryKey, language);
+    if (!menu) {
+      await safeAnswerCbQuery(ctx, this.i18n.t(language, 'menuUnavailable'));
+      menu = this.menuService.buildMenu(null, language);
+      if (!menu) {
         return;
-      } catch (error) {
-        this.logger.warn(
-          `Direct send failed for ${option.storagePath}, falling back to re-encode if available. Error: ${String(
-            error,
-          )}`,
-        );
       }
+    } else {
+      await safeAnswerCbQuery(ctx);
+      void this.analytics.recordMenuOpen(ctx.from, language, categoryKey);
     }
 
-    if (canReencode) {
-      let tempOutput: string | null = null;
-      try {
-        const encoded = await this.reencodeForTelegram(videoUrl, option.storagePath);
-        tempOutput = encoded.path;
-
-        await ctx.replyWithVideo(
-          { source: encoded.path },
-          {
-            caption: option.caption,
-            supports_streaming: true,
-            width: encoded.width ?? undefined,
-            height: encoded.height ?? undefined,
-          },
-        );
+    try {
+      await ctx.editMessageText(menu.text, menu.markup);
+    } catch (error) {
+      if (String(error).includes('message is not modified')) {
         return;
-      } catch (error) {
-        this.logger.warn(
-          `MP4 re-encode send failed for ${option.storagePath}, falling back to direct send. Error: ${String(
-            error,
-          )}`,
-        );
-      } finally {
-        if (tempOutput) {
-          await fs.unlink(tempOutput).catch(() => undefined);
-        }
       }
+      this.logger.debug(`Unable to edit menu message, sending a new one: ${String(error)}`);
+      await ctx.reply(menu.text, menu.markup);
     }
-
-    await ctx.replyWithVideo(
-      { url: videoUrl },
-      {
-        caption: option.caption,
-        supports_streaming: true,
-      },
-    );
   }
 
-  private isMp4(path: string): boolean {
-    return path.toLowerCase().trim().endsWith('.mp4');
-  }
+  /**
+   * Acknowledges the tap and queues the video behind the user's earlier requests; the worker sends
+   * it and keeps the status message up to date.
+   */
+  private async handleTopicRequest(ctx: Context, topicKey: string | undefined): Promise<void> {
+    const language = await this.userLanguage.resolve(ctx.from);
+    const topic = topicKey ? this.catalog.getTopic(topicKey) : null;
+    if (!topic) {
+      await safeAnswerCbQuery(ctx, this.i18n.t(language, 'unknownOption'));
+      return;
+    }
 
-  private deriveFilename(storagePath: string): string | null {
-    const segments = storagePath.split('/');
-    const candidate = segments.pop();
-    return candidate && candidate.trim().length > 0 ? candidate : null;
+    await this.queueVideo(ctx, language, topic.key);
   }
 
-  private async reencodeForTelegram(
-    videoUrl: string,
-    storagePath: string,
-  ): Promise<{ path: string; width: number | null; height: number | null }> {
-    const inputPath = await this.downloadToTempFile(videoUrl, storagePath);
-    const outputPath = path.join(tmpdir(), `telegram-encoded-${Date.now()}-${Math.random()}.mp4`);
-
-    try {
-      await this.runFfmpeg([
-        '-y',
-        '-noautorotate',
-        '-i',
-        inputPath,
-        '-c:v',
-        'libx264',
-        '-profile:v',
-        'baseline',
-        '-level',
-        '3.1',
-        '-pix_fmt',
-        'yuv420p',
-        // Preserve aspect ratio, normalize SAR, and ignore rotation metadata by rewriting it.
-        '-vf',
-        'scale=-2:720,setsar=1,format=yuv420p',
-        '-preset',
-        'veryfast',
-        '-crf',
-        '17',
-        '-metadata:s:v:0',
-        'rotate=0',
-        '-movflags',
-        '+faststart',
-        '-c:a',
-        'copy',
-        outputPath,
-      ]);
-
-      const dims = await this.probeVideoDimensions(outputPath);
-      return { path: outputPath, width: dims?.width ?? null, height: dims?.height ?? null };
-    } finally {
-      await fs.unlink(inputPath).catch(() => undefined);
+  /**
+   * Queues a clip starting at the tapped chapter. When clips are disabled (or ffmpeg is missing),
+   * replies to the video with the chapter's timestamp instead, which Telegram renders as a seek link.
+   */
+  private async handleChapterRequest(ctx: Context, args: string[]): Promise<void> {
+    const language = await this.userLanguage.resolve(ctx.from);
+    const [topicKey, rawIndex] = args;
+    const topic = topicKey ? this.catalog.getTopic(topicKey) : null;
+    const chapterIndex = Number(rawIndex);
+    const chapter = topic ? localizeTopic(topic, language).chapters?.[chapterIndex] : undefined;
+    if (!topic || !chapter) {
+      await safeAnswerCbQuery(ctx, this.i18n.t(language, 'unknownOption'));
+      return;
     }
-  }
-
-  private async downloadToTempFile(url: string, storagePath: string): Promise<string> {
-    const ext = path.extname(storagePath) || '.mp4';
-    const tempPath = path.join(tmpdir(), `telegram-download-${Date.now()}-${Math.random()}${ext}`);
-    const requester = url.startsWith('https') ? https : http;
-
-    await new Promise<void>((resolve, reject) => {
-      const request = requester.get(url, (response) => {
-        if (response.statusCode && response.statusCode >= 400) {
-          reject(new Error(`Download failed with status ${response.statusCode}`));
-          response.resume();
-          return;
-        }
-
-        const fileStream = createWriteStream(tempPath);
-        pipeline(response, fileStream).then(resolve).catch(reject);
-      });
 
-      request.on('error', reject);
-    });
+    if (await this.videoDelivery.canCutChapterClips()) {
+      await this.queueVideo(ctx, language, topic.key, chapterIndex);
+      return;
+    }
 
-    return tempPath;
+    await safeAnswerCbQuery(ctx);
+    const menuMessage = ctx.callbackQuery?.message;
+    const videoMessage = menuMessage && 'reply_to_message' in menuMessage ? menuMessage.reply_to_message : undefined;
+    await ctx.reply(
+      this.i18n.t(language, 'videoChapterAt', { title: chapter.title, time: formatTimestamp(chapter.start) }),
+      videoMessage
+        ? { reply_parameters: { message_id: videoMessage.message_id, allow_sending_without_reply: true } }
+        : undefined,
+    );
   }
 
-  private async runFfmpeg(args: string[]): Promise<void> {
-    await new Promise<void>((resolve, reject) => {
-      const proc = spawn('ffmpeg', args, { stdio: ['ignore', 'ignore', 'pipe'] });
-      let stderr = '';
+  private async queueVideo(
+    ctx: Context,
+    language: Language,
+    topicKey: string,
+    chapterIndex?: number,
+  ): Promise<void> {
+    const chatId = ctx.chat?.id;
+    const user = ctx.from;
+    if (typeof chatId !== 'number' || !user) {
+      await safeAnswerCbQuery(ctx, this.i18n.t(language, 'unknownOption'));
+      return;
+    }
 
-      proc.stderr.on('data', (chunk) => {
-        stderr += chunk.toString();
-      });
+    try {
+      const topic = this.catalog.getTopic(topicKey);
+      if (topic && !(await this.verification.isAllowed(user.id, topic))) {
+        await safeAnswerCbQuery(ctx);
+        const notice = this.verification.buildRequiredNotice(topic, language);
+        await ctx.reply(notice.text, notice.markup);
+        return;
+      }
 
-      proc.on('error', (error) => reject(error));
-      proc.on('close', (code) => {
-        if (code === 0) {
-          resolve();
-        } else {
-          reject(new Error(`ffmpeg exited with code ${code}: ${stderr}`));
-        }
+      if (!(await this.videoJobs.canEnqueue(user.id))) {
+        await safeAnswerCbQuery(ctx, this.i18n.t(language, 'videoQueueFull'));
+        return;
+      }
+
+      await safeAnswerCbQuery(ctx, this.i18n.t(language, 'sendingVideoToast'));
+      const statusMessage = await ctx.reply(this.i18n.t(language, 'videoSending'));
+      await this.videoJobs.enqueue({
+        chatId,
+        user: {
+          id: user.id,
+          username: user.username,
+          first_name: user.first_name,
+          language_code: user.language_code,
+        },
+        language,
+        topicKey,
+        chapterIndex,
+        statusMessageId: statusMessage.message_id,
       });
-    });
+    } catch (error) {
+      this.logger.warn(`Callback handling failed: ${String(error)}`);
+      await safeAnswerCbQuery(ctx, this.i18n.t(language, 'genericError'));
+    }
   }
 
-  private async checkFfmpegAvailable(): Promise<boolean> {
-    if (this.ffmpegAvailable !== null) {
-      return this.ffmpegAvailable;
+  private async handleVideoJobCallback(ctx: Context, args: string[]): Promise<void> {
+    const language = await this.userLanguage.resolve(ctx.from);
+    const [command, jobId] = args;
+    const userId = ctx.from?.id;
+    if (command !== CANCEL_VIDEO_JOB || !jobId || !userId) {
+      await safeAnswerCbQuery(ctx, this.i18n.t(language, 'unknownOption'));
+      return;
     }
 
-    this.ffmpegAvailable = await new Promise<boolean>((resolve) => {
-      const probe = spawn('ffmpeg', ['-version']);
-      probe.on('error', () => resolve(false));
-      probe.on('close', (code) => resolve(code === 0));
-    });
-
-    if (!this.ffmpegAvailable) {
-      this.logger.warn(
-        'ffmpeg not found on PATH; skipping re-encode and sending videos directly. Install ffmpeg to improve Telegram playback quality.',
-      );
+    const cancelled = await this.videoJobs.cancel(jobId, userId);
+    await safeAnswerCbQuery(ctx, cancelled ? this.i18n.t(language, 'videoCancelled') : undefined);
+    if (!cancelled) {
+      return;
     }
 
-    return this.ffmpegAvailable;
+    try {
+      await ctx.editMessageText(this.i18n.t(language, 'videoCancelled'));
+    } catch (error) {
+      this.logger.debug(`Unable to edit cancelled video message: ${String(error)}`);
+    }
   }
 
-  private async probeVideoDimensions(
-    filePath: string,
-  ): Promise<{ width: number; height: number } | null> {
-    return new Promise((resolve) => {
-      const proc = spawn('ffprobe', [
-        '-v',
-        'error',
-        '-select_streams',
-        'v:0',
-        '-show_entries',
-        'stream=width,height',
-        '-of',
-        'json',
-        filePath,
-      ]);
-
-      let stdout = '';
-      proc.stdout.on('data', (chunk) => {
-        stdout += chunk.toString();
-      });
+  private resolveWithAlias(primaryKey: string, aliasKey: string): string | null {
+    const primary = this.configService.get<string>(primaryKey) ?? null;
+    const alias = this.configService.get<string>(aliasKey) ?? null;
 
-      proc.on('close', (code) => {
-        if (code !== 0) {
-          resolve(null);
-          return;
-        }
-        try {
-          const parsed = JSON.parse(stdout);
-          const stream = parsed?.streams?.[0];
-          const width = Number(stream?.width);
-          const height = Number(stream?.height);
-          if (Number.isFinite(width) && Number.isFinite(height)) {
-            resolve({ width, height });
-            return;
-          }
-        } catch {
-          // ignore parse errors
-        }
-        resolve(null);
-      });
+    if (primary && alias && primary !== alias) {
+      this.logger.warn(
+        `${primaryKey} and ${aliasKey} are both set; using ${primaryKey}. Remove the duplicate to avoid confusion.`,
+      );
+    } else if (!primary && alias) {
+      this.logger.log(`${primaryKey} not set; falling back to legacy ${aliasKey}.`);
+    }
 
-      proc.on('error', () => resolve(null));
-    });
+    return primary ?? alias;
   }
 
-  private parsePositiveInt(value: string | null | undefined): number | null {
-    if (!value) {
-      return null;
-    }
-    const parsed = Number.parseInt(value, 10);
-    return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+  getOptions(): SupportTopic[] {
+    return this.catalog.getTopics();
   }
 
   /**
-   * Attempts to edit a message while ignoring common edit errors (e.g., message not found).
+   * Queues a topic for a chat on an admin's behalf, e.g. to resend a video a user lost. The
+   * verification gate does not apply because an admin chose the recipient. The language defaults
+   * to the chat's stored preference. Returns null when the chat already has the maximum number of
+   * videos queued; Telegram errors (unknown chat, bot blocked) are thrown.
    */
-  private async safeEditMessage(chatId: number, messageId: number, text: string): Promise<void> {
-    const bot = this.bot;
-    if (!bot) {
-      return;
+  async sendTopic(chatId: number, topic: SupportTopic, language?: Language): Promise<VideoJob | null> {
+    const telegram = this.bot?.telegram;
+    if (!telegram) {
+      throw new Error('The bot is not running');
     }
-
-    try {
-      await bot.telegram.editMessageText(chatId, messageId, undefined, text);
-    } catch (error) {
-      this.logger.debug(`Unable to edit message ${messageId}: ${String(error)}`);
+    if (!(await this.videoJobs.canEnqueue(chatId))) {
+      return null;
     }
-  }
 
-  getOptions(): Array<VideoOption & { key: VideoOptionKey }> {
-    return Object.entries(this.videoOptions).map(([key, option]) => ({
-      key: key as VideoOptionKey,
-      ...option,
-    }));
+    const resolved = language ?? (await this.userLanguage.resolve({ id: chatId }));
+    const statusMessage = await telegram.sendMessage(chatId, this.i18n.t(resolved, 'videoSending'));
+    return this.videoJobs.enqueue({
+      chatId,
+      user: { id: chatId },
+      language: resolved,
+      topicKey: topic.key,
+      origin: 'admin',
+      statusMessageId: statusMessage.message_id,
+    });
   }
 
   async onModuleDestroy(): Promise<void> {
     await this.stop();
   }
 
-  private async safeAnswerCbQuery(ctx: Context, text: string): Promise<void> {
-    try {
-      await ctx.answerCbQuery(text);
-    } catch (error) {
-      this.logger.debug(`Unable to answer callback query: ${String(error)}`);
-    }
-  }
-
   /**
    * Deletes the Telegram webhook and logs (but does not throw) network errors so startup/shutdown
    * can continue even when Telegram API is temporarily unreachable.
@@ -0,0 +1,169 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+
+import { parsePositiveInt } from '../common/config-values';
+
+/** Kinds of temp files the video pipeline writes; each name starts with `telegram-<kind>-`. */
+export type TempFileKind = 'download' | 'encoded' | 'clip' | 'part' | 'pass';
+
+/** Space held for a file being written; release it once the file is complete or gone. */
+export type TempReservation = { release(): void };
+
+const TEMP_FILE_PATTERN = /^telegram-(download|encoded|clip|part|pass)-/;
+const MB = 1024 * 1024;
+
+export class TempQuotaError extends Error {
+  constructor(
+    readonly requestedBytes: number,
+    readonly usedBytes: number,
+    readonly quotaBytes: number,
+  ) {
+    super(
+      `Temp workspace quota exceeded: ${Math.ceil(requestedBytes / MB)} MB requested, ` +
+        `${Math.ceil(usedBytes / MB)} of ${Math.floor(quotaBytes / MB)} MB in use`,
+    );
+    this.name = 'TempQuotaError';
+  }
+}
+
+/**
+ * The directory (VIDEO_TEMP_DIR) holding downloads, encodes and parts while a video job runs. Files
+ * left behind by a crashed process are swept on startup, and VIDEO_TEMP_QUOTA_MB caps how much the
+ * pipeline may keep on disk at once, counting space reserved for writes still in progress.
+ */
+@Injectable()
+export class TempWorkspaceService implements OnModuleInit {
+  private readonly logger = new Logger(TempWorkspaceService.name);
+  readonly directory: string;
+  private readonly quotaBytes: number;
+  /** Bytes reserved per file path until the writer releases them. */
+  private readonly reservations = new Map<string, number>();
+  private admissions: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly configService: ConfigService) {
+    this.directory = path.resolve(
+      this.configService.get<string>('VIDEO_TEMP_DIR')?.trim() || path.join(tmpdir(), 'telegram-support-bot'),
+    );
+    this.quotaBytes = (parsePositiveInt(this.configService.get<string>('VIDEO_TEMP_QUOTA_MB')) ?? 4096) * MB;
+  }
+
+  async onModuleInit(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Files untouched since before this process started belong to a process that is gone. Bots of
+    // other tenants in this process start later, so they never sweep each other's files.
+    const startedAt = Date.now() - process.uptime() * 1000;
+    const directories = this.directory === tmpdir() ? [this.directory] : [this.directory, tmpdir()];
+    let removed = 0;
+    for (const directory of directories) {
+      removed += await this.sweep(directory, startedAt);
+    }
+    if (removed > 0) {
+      this.logger.log(`Removed ${removed} stale temp files`);
+    }
+  }
+
+  /**
+   * A fresh path in the workspace; nothing is created yet.
+   */
+  filePath(kind: TempFileKind, extension = ''): string {
+    return path.join(this.directory, `telegram-${kind}-${Date.now()}-${randomUUID()}${extension}`);
+  }
+
+  /**
+   * A fresh name prefix for tools that write numbered files themselves, e.g. ffmpeg's segment muxer.
+   */
+  filePrefix(kind: TempFileKind): string {
+    return `telegram-${kind}-${Date.now()}-${randomUUID()}-`;
+  }
+
+  /**
+   * Workspace files whose names start with `prefix`, sorted by name.
+   */
+  async listFiles(prefix: string): Promise<string[]> {
+    const names = await fs.readdir(this.directory);
+    return names
+      .filter((name) => name.startsWith(prefix))
+      .sort()
+      .map((name) => path.join(this.directory, name));
+  }
+
+  /**
+   * Reserves `bytes` for writing `filePath`, or throws TempQuotaError when that would exceed the
+   * quota. Reservations are admitted one at a time, so concurrent jobs cannot all claim the same
+   * headroom; until released, the file counts as at least `bytes` however much is written so far.
+   */
+  async reserve(filePath: string, bytes: number): Promise<TempReservation> {
+    const admitted = this.admissions.then(async () => {
+      const usedBytes = await this.getUsedBytes();
+      if (usedBytes + bytes > this.quotaBytes) {
+        throw new TempQuotaError(bytes, usedBytes, this.quotaBytes);
+      }
+      this.reservations.set(filePath, (this.reservations.get(filePath) ?? 0) + bytes);
+    });
+    this.admissions = admitted.catch(() => undefined);
+    await admitted;
+
+    let released = false;
+    return {
+      release: () => {
+        if (released) {
+          return;
+        }
+        released = true;
+        const remaining = (this.reservations.get(filePath) ?? 0) - bytes;
+        if (remaining > 0) {
+          this.reservations.set(filePath, remaining);
+        } else {
+          this.reservations.delete(filePath);
+        }
+      },
+    };
+  }
+
+  async getUsage(): Promise<{ usedBytes: number; quotaBytes: number }> {
+    return { usedBytes: await this.getUsedBytes(), quotaBytes: this.quotaBytes };
+  }
+
+  async remove(filePaths: string[]): Promise<void> {
+    await Promise.all(filePaths.map((filePath) => fs.unlink(filePath).catch(() => undefined)));
+  }
+
+  private async getUsedBytes(): Promise<number> {
+    const names = await fs.readdir(this.directory).catch(() => [] as string[]);
+    const filePaths = names.map((name) => path.join(this.directory, name));
+    const sizes = await Promise.all(
+      filePaths.map(async (filePath) => (await fs.stat(filePath).catch(() => null))?.size ?? 0),
+    );
+
+    let total = sizes.reduce(
+      (sum, size, index) => sum + Math.max(size, this.reservations.get(filePaths[index]) ?? 0),
+      0,
+    );
+    const onDisk = new Set(filePaths);
+    for (const [filePath, bytes] of this.reservations) {
+      if (!onDisk.has(filePath)) {
+        total += bytes;
+      }
+    }
+    return total;
+  }
+
+  private async sweep(directory: string, olderThan: number): Promise<number> {
+    const names = await fs.readdir(directory).catch(() => [] as string[]);
+    let removed = 0;
+    for (const name of names.filter((candidate) => TEMP_FILE_PATTERN.test(candidate))) {
+      const filePath = path.join(directory, name);
+      const stats = await fs.stat(filePath).catch(() => null);
+      if (stats?.isFile() && stats.mtimeMs < olderThan) {
+        await fs.unlink(filePath).catch(() => undefined);
+        removed += 1;
+      }
+    }
+    return removed;
+  }
+}
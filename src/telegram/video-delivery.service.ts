@@ -0,0 +1,980 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Telegram } from 'telegraf';
+import { Message } from 'telegraf/types';
+
+import { promises as fs } from 'fs';
+import { devNull } from 'os';
+import * as path from 'path';
+import { spawn } from 'child_process';
+
+import { formatTimestamp, SupportTopic, VideoTopic } from '../catalog/support-topic';
+import { parsePositiveInt } from '../common/config-values';
+import { I18nService } from '../i18n/i18n.service';
+import { Language } from '../i18n/language';
+import { SignedUrlCacheService } from '../storage/signed-url-cache.service';
+import { StorageService } from '../storage/storage.service';
+import { StorageBackendName, StorageProvider } from '../storage/storage-provider';
+import { EncodingProfile, profileFingerprint } from './encoding-profile';
+import { EncodingProfileService } from './encoding-profile.service';
+import { ObjectDownloaderService } from './object-downloader.service';
+import { isRejectedFileIdError, TelegramFileCacheService } from './telegram-file-cache.service';
+import { TempReservation, TempWorkspaceService } from './temp-workspace.service';
+import { VideoJobStage } from './video-job-queue';
+import { VideoRendition, VideoRenditionService } from './video-rendition.service';
+
+export type DeliveryOutcome = 'sent' | 'direct_send_fallback' | 'unavailable';
+
+export type DeliveryResult = {
+  outcome: DeliveryOutcome;
+  /** Messages holding the video (one per part); empty when nothing was sent. */
+  messageIds: number[];
+};
+
+export type WarmupResult = 'missing' | 'ready' | 'encoded';
+
+/** Local files of an encode, in order; more than one when the video was split into parts. */
+type EncodedVideo = { parts: string[]; width: number | null; height: number | null };
+
+type VideoInput = string | { source: string };
+
+// Below this a two-pass encode is unwatchable, so an over-size video is split into parts instead.
+const MIN_VIDEO_BITRATE_KBPS = 150;
+
+// Parts aim below the size limit because cuts land on the next keyframe; a part still over the limit
+// triggers another split into one more part.
+const PART_SIZE_TARGET = 0.9;
+const SPLIT_ATTEMPTS = 3;
+
+// Telegram accepts 2-10 items per media group.
+const MEDIA_GROUP_LIMIT = 10;
+
+export type StageProgress = { part: number; total: number };
+
+type StageListener = (stage: VideoJobStage, progress?: StageProgress) => Promise<void>;
+
+/**
+ * Gets a topic's video into a chat: reuses the cached Telegram file_id when the bucket object is
+ * unchanged, then a pre-encoded rendition from the bucket, and only re-encodes the source as a last
+ * resort. Runs inside the video job worker, never in an update handler.
+ */
+@Injectable()
+export class VideoDeliveryService {
+  private readonly logger = new Logger(VideoDeliveryService.name);
+
+  private readonly preferDirectSend: boolean;
+  private readonly maxParts: number;
+  private readonly partsAsMediaGroup: boolean;
+  private readonly chapterClips: boolean;
+  private readonly chapterClipMaxSeconds: number;
+  private ffmpegAvailable: boolean | null = null;
+  private ffprobeAvailable: boolean | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly storage: StorageService,
+    private readonly signedUrls: SignedUrlCacheService,
+    private readonly fileCache: TelegramFileCacheService,
+    private readonly renditions: VideoRenditionService,
+    private readonly profiles: EncodingProfileService,
+    private readonly i18n: I18nService,
+    private readonly downloader: ObjectDownloaderService,
+    private readonly workspace: TempWorkspaceService,
+  ) {
+    this.preferDirectSend =
+      (this.configService.get<string>('TELEGRAM_PREFER_DIRECT_SEND') ?? 'false')
+        .toLowerCase()
+        .trim() === 'true';
+    this.maxParts = parsePositiveInt(this.configService.get<string>('VIDEO_MAX_PARTS')) ?? 10;
+    this.partsAsMediaGroup =
+      (this.configService.get<string>('VIDEO_PARTS_AS_MEDIA_GROUP') ?? 'false').toLowerCase().trim() === 'true';
+    this.chapterClips =
+      (this.configService.get<string>('VIDEO_CHAPTER_CLIPS') ?? 'true').toLowerCase().trim() !== 'false';
+    this.chapterClipMaxSeconds =
+      parsePositiveInt(this.configService.get<string>('VIDEO_CHAPTER_CLIP_MAX_SECONDS')) ?? 120;
+  }
+
+  /**
+   * Sends the (already localized) topic video to `chatId`, as numbered parts when it is too long
+   * for one upload. Throws when every send path failed so the worker can retry; `unavailable` means
+   * there is nothing to send and retrying will not help. Aborting `signal` stops the download or
+   * ffmpeg run in progress; an upload already handed to Telegram still completes.
+   */
+  async deliver(
+    telegram: Telegram,
+    chatId: number,
+    language: Language,
+    option: VideoTopic,
+    onStage: StageListener,
+    signal: AbortSignal,
+  ): Promise<DeliveryResult> {
+    const profile = this.profiles.resolve(option.encodingProfile);
+    const objectVersion = await this.getObjectVersion(option.storagePath, option.storageBackend);
+    const version = objectVersion ? this.renditionVersion(objectVersion, profile) : null;
+    const cachedMessages = version
+      ? await this.sendCachedVideo(telegram, chatId, language, option, option.storagePath, version, onStage)
+      : null;
+    if (cachedMessages) {
+      return this.result('sent', cachedMessages);
+    }
+
+    const rendition = version ? this.renditions.get(option.storagePath, version) : null;
+    if (version && rendition) {
+      const messages = await this.sendRendition(telegram, chatId, language, option, rendition, onStage, signal);
+      if (messages) {
+        await this.rememberSentVideo(option.storageBackend, option.storagePath, version, messages);
+        return this.result('sent', messages);
+      }
+    }
+
+    // Backends without URLs (local disk) still serve an object that exists by streaming it.
+    const videoUrl = await this.getObjectUrl(option.storagePath, option.storageBackend);
+    if (!videoUrl && !objectVersion) {
+      return this.result('unavailable', []);
+    }
+
+    const sent = await this.sendVideoCompressed(
+      telegram,
+      chatId,
+      language,
+      option,
+      videoUrl,
+      version,
+      profile,
+      onStage,
+      signal,
+    );
+    if (version) {
+      await this.rememberSentVideo(option.storageBackend, option.storagePath, version, sent.messages);
+    }
+    return this.result(sent.usedFallback ? 'direct_send_fallback' : 'sent', sent.messages);
+  }
+
+  /**
+   * Whether chapter taps get a clip cut with ffmpeg; otherwise the bot replies with the timestamp.
+   */
+  async canCutChapterClips(): Promise<boolean> {
+    return this.chapterClips && (await this.checkFfmpegAvailable());
+  }
+
+  /**
+   * Sends a clip of the topic's video starting at one of its chapters and running to the next one,
+   * at most VIDEO_CHAPTER_CLIP_MAX_SECONDS. ffmpeg seeks in the source over HTTP, so only the clip's
+   * range is downloaded; the clip's file_id is cached like a full video.
+   */
+  async deliverChapterClip(
+    telegram: Telegram,
+    chatId: number,
+    language: Language,
+    option: VideoTopic,
+    chapterIndex: number,
+    onStage: StageListener,
+    signal: AbortSignal,
+  ): Promise<DeliveryResult> {
+    const chapter = option.chapters?.[chapterIndex];
+    if (!chapter) {
+      return this.result('unavailable', []);
+    }
+
+    const nextStart = option.chapters?.[chapterIndex + 1]?.start;
+    const duration = Math.min(
+      nextStart !== undefined ? nextStart - chapter.start : this.chapterClipMaxSeconds,
+      this.chapterClipMaxSeconds,
+    );
+    const clipOption: SupportTopic = {
+      ...option,
+      caption: this.i18n.t(language, 'videoChapterCaption', {
+        title: chapter.title,
+        time: formatTimestamp(chapter.start),
+        caption: option.caption,
+      }),
+    };
+    const cacheKey = `${option.storagePath}#t=${chapter.start},${duration}`;
+
+    const profile = this.profiles.resolve(option.encodingProfile);
+    const objectVersion = await this.getObjectVersion(option.storagePath, option.storageBackend);
+    const version = objectVersion ? this.renditionVersion(objectVersion, profile) : null;
+    const cachedMessages = version
+      ? await this.sendCachedVideo(telegram, chatId, language, clipOption, cacheKey, version, onStage)
+      : null;
+    if (cachedMessages) {
+      return this.result('sent', cachedMessages);
+    }
+
+    const videoUrl = await this.getObjectUrl(option.storagePath, option.storageBackend);
+    if (!videoUrl && !objectVersion) {
+      return this.result('unavailable', []);
+    }
+    if (!(await this.checkFfmpegAvailable())) {
+      throw new Error('ffmpeg is not available to cut chapter clips');
+    }
+
+    const outputPath = this.workspace.filePath('clip', '.mp4');
+    let inputPath: string | null = null;
+    let reservation: TempReservation | null = null;
+    try {
+      // ffmpeg seeks over HTTP when there is a URL; otherwise it needs the whole file locally.
+      if (!videoUrl) {
+        await onStage('downloading');
+        inputPath = await this.downloadToTempFile(option.storagePath, option.storageBackend, signal);
+      }
+      const input = videoUrl ?? (inputPath as string);
+      // A clip over the profile's size limit is refused below, so that is all it may take.
+      reservation = await this.workspace.reserve(outputPath, profile.maxFileSizeBytes);
+      await onStage('encoding');
+      await this.runFfmpeg(
+        signal,
+        this.buildEncodeArgs(input, outputPath, profile, null, { start: chapter.start, duration }),
+      );
+      const size = (await fs.stat(outputPath)).size;
+      if (size > profile.maxFileSizeBytes) {
+        throw new Error(`Clip ${cacheKey} is ${size} bytes, over the ${profile.name} limit`);
+      }
+
+      const dims = await this.probeVideoDimensions(outputPath);
+      const messages = await this.sendVideoParts(
+        telegram,
+        chatId,
+        language,
+        clipOption,
+        [{ source: outputPath }],
+        { width: dims?.width ?? null, height: dims?.height ?? null },
+        onStage,
+      );
+      if (version) {
+        await this.rememberSentVideo(option.storageBackend, cacheKey, version, messages);
+      }
+      return this.result('sent', messages);
+    } finally {
+      await this.removeFiles(inputPath ? [outputPath, inputPath] : [outputPath]);
+      reservation?.release();
+    }
+  }
+
+  /**
+   * Makes sure the bucket holds a rendition of `storagePath` encoded with the named profile from the
+   * current source, encoding and uploading one when needed. Used by the warm-up pipeline; throws
+   * when encoding or the upload fails.
+   */
+  async warmRendition(
+    storagePath: string,
+    profileName: string | undefined,
+    signal: AbortSignal,
+    backend?: StorageBackendName,
+  ): Promise<WarmupResult> {
+    const profile = this.profiles.resolve(profileName);
+    const objectVersion = await this.getObjectVersion(storagePath, backend);
+    if (!objectVersion) {
+      return 'missing';
+    }
+
+    const version = this.renditionVersion(objectVersion, profile);
+    if (this.renditions.get(storagePath, version)) {
+      return 'ready';
+    }
+
+    const encoded = await this.reencodeForTelegram(storagePath, backend, profile, async () => undefined, signal);
+    try {
+      await this.storeRendition(storagePath, backend, version, encoded);
+    } finally {
+      await this.removeFiles(encoded.parts);
+    }
+    return 'encoded';
+  }
+
+  private result(outcome: DeliveryOutcome, messages: Message.VideoMessage[]): DeliveryResult {
+    return { outcome, messageIds: messages.map((message) => message.message_id) };
+  }
+
+  /**
+   * Version used for renditions and cached file ids: the source object's version plus the profile
+   * fingerprint, so editing either the video or its profile triggers a fresh encode.
+   */
+  private renditionVersion(objectVersion: string, profile: EncodingProfile): string {
+    return `${objectVersion}|${profileFingerprint(profile)}`;
+  }
+
+  /**
+   * Signed (or, for public buckets, public) URL of a stored object; null when the backend issues
+   * neither, e.g. local disk. Signed URLs come from SignedUrlCacheService.
+   */
+  async getObjectUrl(storagePath: string, backend?: StorageBackendName): Promise<string | null> {
+    const storage = this.storage.get(backend);
+    if (!storage) {
+      this.logger.warn(
+        `Storage backend ${backend ?? this.storage.getDefaultBackend()} is not configured; cannot serve ${storagePath}`,
+      );
+      return null;
+    }
+
+    return (await this.signedUrls.getSignedUrl(storage, storagePath)) ?? storage.getPublicUrl(storagePath);
+  }
+
+  /**
+   * Resolves the bucket object's ETag (or size/mtime when no ETag is exposed) used to key the file_id
+   * cache and renditions. Null when the object does not exist.
+   */
+  async getObjectVersion(storagePath: string, backend?: StorageBackendName): Promise<string | null> {
+    const info = (await this.storage.get(backend)?.getObjectInfo(storagePath)) ?? null;
+    if (!info) {
+      return null;
+    }
+
+    if (info.etag) {
+      return info.etag;
+    }
+
+    return info.updatedAt ? `${info.updatedAt}:${info.size ?? ''}` : null;
+  }
+
+  /**
+   * Re-sends a previously uploaded video (or all of its parts) by Telegram file_id. Returns null
+   * when nothing is cached under `cacheKey` or Telegram no longer accepts a file_id, so the caller
+   * falls back to a fresh upload. Any other failure (cancel, rate limit, network) is rethrown and
+   * keeps the cached entry.
+   */
+  private async sendCachedVideo(
+    telegram: Telegram,
+    chatId: number,
+    language: Language,
+    option: SupportTopic,
+    cacheKey: string,
+    version: string,
+    onStage: StageListener,
+  ): Promise<Message.VideoMessage[] | null> {
+    const cached = await this.fileCache.get(option.storageBackend, cacheKey, version);
+    if (!cached) {
+      return null;
+    }
+
+    try {
+      return await this.sendVideoParts(
+        telegram,
+        chatId,
+        language,
+        option,
+        cached.partFileIds ?? [cached.fileId],
+        cached,
+        onStage,
+      );
+    } catch (error) {
+      if (!isRejectedFileIdError(error)) {
+        throw error;
+      }
+      this.logger.warn(`Cached file id for ${cacheKey} was rejected, uploading again. Error: ${String(error)}`);
+      await this.fileCache.invalidate(option.storageBackend, cacheKey);
+      return null;
+    }
+  }
+
+  private async rememberSentVideo(
+    backend: StorageBackendName | undefined,
+    cacheKey: string,
+    version: string,
+    messages: Message.VideoMessage[],
+  ): Promise<void> {
+    const fileIds = messages.map((message) => message.video?.file_id);
+    const video = messages[0]?.video;
+    if (!video || fileIds.some((fileId) => !fileId)) {
+      return;
+    }
+
+    await this.fileCache.set(backend, {
+      storagePath: cacheKey,
+      version,
+      fileId: video.file_id,
+      partFileIds: fileIds.length > 1 ? (fileIds as string[]) : null,
+      width: video.width ?? null,
+      height: video.height ?? null,
+    });
+  }
+
+  /**
+   * Uploads a video, or its parts in order with a "Part 2/3" caption prefix (as media groups when
+   * VIDEO_PARTS_AS_MEDIA_GROUP is set), reporting each upload to `onStage`.
+   */
+  private async sendVideoParts(
+    telegram: Telegram,
+    chatId: number,
+    language: Language,
+    option: SupportTopic,
+    inputs: VideoInput[],
+    dimensions: { width: number | null; height: number | null },
+    onStage: StageListener,
+  ): Promise<Message.VideoMessage[]> {
+    const extra = {
+      supports_streaming: true,
+      width: dimensions.width ?? undefined,
+      height: dimensions.height ?? undefined,
+    };
+    if (inputs.length === 1) {
+      await onStage('uploading');
+      await telegram.sendChatAction(chatId, 'upload_video');
+      return [await telegram.sendVideo(chatId, inputs[0], { ...extra, caption: option.caption })];
+    }
+
+    const total = inputs.length;
+    const captionFor = (index: number) =>
+      this.i18n.t(language, 'videoPartCaption', { part: index + 1, total, caption: option.caption });
+    const messages: Message.VideoMessage[] = [];
+    const groupSize = this.partsAsMediaGroup ? MEDIA_GROUP_LIMIT : 1;
+
+    for (let start = 0; start < total; start += groupSize) {
+      const group = inputs.slice(start, start + groupSize);
+      await onStage('uploading', { part: start + group.length, total });
+      await telegram.sendChatAction(chatId, 'upload_video');
+
+      if (group.length === 1) {
+        messages.push(await telegram.sendVideo(chatId, group[0], { ...extra, caption: captionFor(start) }));
+        continue;
+      }
+      const sent = await telegram.sendMediaGroup(
+        chatId,
+        group.map((media, offset) => ({ type: 'video' as const, media, ...extra, caption: captionFor(start + offset) })),
+      );
+      messages.push(...sent.filter((message): message is Message.VideoMessage => 'video' in message));
+    }
+    return messages;
+  }
+
+  /**
+   * Sends video, re-encoding MP4 with Telegram-safe settings to keep aspect ratio and quality.
+   * `usedFallback` is set when the re-encode path was skipped or failed and the source was sent
+   * as-is, by URL or streamed from storage when the backend has no URLs.
+   */
+  private async sendVideoCompressed(
+    telegram: Telegram,
+    chatId: number,
+    language: Language,
+    option: VideoTopic,
+    videoUrl: string | null,
+    version: string | null,
+    profile: EncodingProfile,
+    onStage: StageListener,
+    signal: AbortSignal,
+  ): Promise<{ messages: Message.VideoMessage[]; usedFallback: boolean }> {
+    await telegram.sendChatAction(chatId, 'upload_video');
+
+    const isMp4 = this.isMp4(option.storagePath);
+    const canReencode = isMp4 && (await this.checkFfmpegAvailable());
+    const shouldDirectSendFirst = isMp4 && this.preferDirectSend;
+
+    if (shouldDirectSendFirst && videoUrl) {
+      try {
+        await onStage('uploading');
+        const message = await telegram.sendVideo(
+          chatId,
+          { url: videoUrl },
+          {
+            caption: option.caption,
+            supports_streaming: true,
+          },
+        );
+        return { messages: [message], usedFallback: false };
+      } catch (error) {
+        signal.throwIfAborted();
+        this.logger.warn(
+          `Direct send failed for ${option.storagePath}, falling back to re-encode if available. Error: ${String(
+            error,
+          )}`,
+        );
+      }
+    }
+
+    if (canReencode) {
+      let encoded: EncodedVideo | null = null;
+      try {
+        encoded = await this.reencodeForTelegram(option.storagePath, option.storageBackend, profile, onStage, signal);
+
+        const messages = await this.sendVideoParts(
+          telegram,
+          chatId,
+          language,
+          option,
+          encoded.parts.map((part) => ({ source: part })),
+          encoded,
+          onStage,
+        );
+        if (version) {
+          // Keep the encode so the next request (or a new file_id after a cache miss) skips ffmpeg.
+          await this.storeRendition(option.storagePath, option.storageBackend, version, encoded).catch((error) =>
+            this.logger.warn(`Failed to store rendition of ${option.storagePath}: ${String(error)}`),
+          );
+        }
+        return { messages, usedFallback: false };
+      } catch (error) {
+        signal.throwIfAborted();
+        this.logger.warn(
+          `MP4 re-encode send failed for ${option.storagePath}, falling back to direct send. Error: ${String(
+            error,
+          )}`,
+        );
+      } finally {
+        if (encoded) {
+          await this.removeFiles(encoded.parts);
+        }
+      }
+    }
+
+    await onStage('uploading');
+    const source = videoUrl
+      ? { url: videoUrl }
+      : { source: await this.requireStorage(option.storageBackend).download(option.storagePath, signal) };
+    const message = await telegram.sendVideo(chatId, source, {
+      caption: option.caption,
+      supports_streaming: true,
+    });
+    return { messages: [message], usedFallback: true };
+  }
+
+  /**
+   * Downloads a pre-encoded rendition (every part of it) and uploads it without touching ffmpeg.
+   * Returns null when the rendition cannot be sent so the caller falls back to encoding the source.
+   */
+  private async sendRendition(
+    telegram: Telegram,
+    chatId: number,
+    language: Language,
+    option: SupportTopic,
+    rendition: VideoRendition,
+    onStage: StageListener,
+    signal: AbortSignal,
+  ): Promise<Message.VideoMessage[] | null> {
+    const tempPaths: string[] = [];
+    try {
+      await onStage('downloading');
+      for (const renditionPath of rendition.renditionPaths) {
+        tempPaths.push(await this.downloadToTempFile(renditionPath, option.storageBackend, signal));
+      }
+
+      return await this.sendVideoParts(
+        telegram,
+        chatId,
+        language,
+        option,
+        tempPaths.map((tempPath) => ({ source: tempPath })),
+        rendition,
+        onStage,
+      );
+    } catch (error) {
+      signal.throwIfAborted();
+      this.logger.warn(
+        `Sending rendition of ${rendition.storagePath} failed, encoding the source instead. Error: ${String(error)}`,
+      );
+      return null;
+    } finally {
+      await this.removeFiles(tempPaths);
+    }
+  }
+
+  /**
+   * Uploads the encode next to its source, in the same storage backend.
+   */
+  private async storeRendition(
+    storagePath: string,
+    backend: StorageBackendName | undefined,
+    version: string,
+    encoded: EncodedVideo,
+  ): Promise<VideoRendition> {
+    const storage = this.requireStorage(backend);
+    const split = encoded.parts.length > 1;
+    const renditionPaths: string[] = [];
+    let sizeBytes = 0;
+
+    for (const [index, part] of encoded.parts.entries()) {
+      const renditionPath = this.renditions.renditionPathFor(storagePath, split ? index + 1 : null);
+      if (!(await storage.uploadFile(renditionPath, part, 'video/mp4'))) {
+        throw new Error(`Upload of rendition ${renditionPath} failed`);
+      }
+      renditionPaths.push(renditionPath);
+      sizeBytes += (await fs.stat(part)).size;
+    }
+
+    const rendition: VideoRendition = {
+      storagePath,
+      sourceVersion: version,
+      renditionPaths,
+      width: encoded.width,
+      height: encoded.height,
+      sizeBytes,
+    };
+    await this.renditions.set(rendition);
+    this.logger.log(
+      `Stored rendition ${renditionPaths.join(', ')} (${encoded.width ?? '?'}x${encoded.height ?? '?'}, ${sizeBytes} bytes)`,
+    );
+    return rendition;
+  }
+
+  private isMp4(path: string): boolean {
+    return path.toLowerCase().trim().endsWith('.mp4');
+  }
+
+  private deriveFilename(storagePath: string): string | null {
+    const segments = storagePath.split('/');
+    const candidate = segments.pop();
+    return candidate && candidate.trim().length > 0 ? candidate : null;
+  }
+
+  private async reencodeForTelegram(
+    storagePath: string,
+    backend: StorageBackendName | undefined,
+    profile: EncodingProfile,
+    onStage: StageListener,
+    signal: AbortSignal,
+  ): Promise<EncodedVideo> {
+    await onStage('downloading');
+    const inputPath = await this.downloadToTempFile(storagePath, backend, signal);
+    const outputPath = this.workspace.filePath('encoded', '.mp4');
+    let reservation: TempReservation | null = null;
+
+    try {
+      // An encode (and a split of it) takes at most about as much space again as its input.
+      reservation = await this.workspace.reserve(outputPath, (await fs.stat(inputPath)).size);
+      await onStage('encoding');
+      const parts = await this.encodeWithProfile(inputPath, outputPath, profile, storagePath, signal);
+
+      const dims = await this.probeVideoDimensions(parts[0]);
+      return { parts, width: dims?.width ?? null, height: dims?.height ?? null };
+    } catch (error) {
+      await fs.unlink(outputPath).catch(() => undefined);
+      throw error;
+    } finally {
+      reservation?.release();
+      await fs.unlink(inputPath).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Encodes with the profile's CRF settings first. When the result exceeds the profile's size limit,
+   * encodes again in two passes at the average bitrate that fits the limit for the video's duration,
+   * or splits the encode into parts when that bitrate would be too low. Returns the output files in
+   * order; `outputPath` is gone when the video was split.
+   */
+  private async encodeWithProfile(
+    inputPath: string,
+    outputPath: string,
+    profile: EncodingProfile,
+    storagePath: string,
+    signal: AbortSignal,
+  ): Promise<string[]> {
+    await this.runFfmpeg(signal, this.buildEncodeArgs(inputPath, outputPath, profile, null));
+
+    const size = (await fs.stat(outputPath)).size;
+    if (size <= profile.maxFileSizeBytes) {
+      return [outputPath];
+    }
+
+    const duration = await this.probeDuration(inputPath);
+    if (!duration) {
+      throw new Error(`${storagePath} is ${size} bytes after encoding and its duration is unknown`);
+    }
+
+    // Leave 5% for container overhead and bitrate overshoot.
+    const totalKbps = Math.floor((profile.maxFileSizeBytes * 8 * 0.95) / duration / 1000);
+    const videoKbps = totalKbps - profile.audioBitrateKbps;
+    if (videoKbps < MIN_VIDEO_BITRATE_KBPS) {
+      this.logger.log(
+        `${storagePath} is too long (${Math.round(duration)}s) for one ${profile.name} video; splitting ${size} bytes into parts`,
+      );
+      return this.splitIntoParts(outputPath, size, duration, profile, storagePath, signal);
+    }
+
+    this.logger.log(
+      `${storagePath} is ${size} bytes with profile ${profile.name}; re-encoding in two passes at ${videoKbps} kbit/s`,
+    );
+    const passLogFile = this.workspace.filePath('pass');
+    try {
+      await this.runFfmpeg(
+        signal,
+        this.buildEncodeArgs(inputPath, devNull, profile, { videoKbps, pass: 1, passLogFile }),
+      );
+      await this.runFfmpeg(
+        signal,
+        this.buildEncodeArgs(inputPath, outputPath, profile, { videoKbps, pass: 2, passLogFile }),
+      );
+    } finally {
+      await fs.unlink(`${passLogFile}-0.log`).catch(() => undefined);
+      await fs.unlink(`${passLogFile}-0.log.mbtree`).catch(() => undefined);
+    }
+
+    const finalSize = (await fs.stat(outputPath)).size;
+    if (finalSize <= profile.maxFileSizeBytes) {
+      return [outputPath];
+    }
+    this.logger.log(`${storagePath} is still ${finalSize} bytes after the two-pass encode; splitting into parts`);
+    return this.splitIntoParts(outputPath, finalSize, duration, profile, storagePath, signal);
+  }
+
+  /**
+   * Cuts an encoded video into consecutive parts of about equal length without re-encoding, using
+   * ffmpeg's segment muxer, which cuts at keyframes. Deletes `inputPath` once every part fits the
+   * profile's size limit; otherwise tries again with one more part.
+   */
+  private async splitIntoParts(
+    inputPath: string,
+    size: number,
+    duration: number,
+    profile: EncodingProfile,
+    storagePath: string,
+    signal: AbortSignal,
+  ): Promise<string[]> {
+    let count = Math.max(2, Math.ceil(size / (profile.maxFileSizeBytes * PART_SIZE_TARGET)));
+
+    for (let attempt = 0; attempt < SPLIT_ATTEMPTS && count <= this.maxParts; attempt += 1, count += 1) {
+      const prefix = this.workspace.filePrefix('part');
+      try {
+        await this.runFfmpeg(signal, [
+          '-y',
+          '-i',
+          inputPath,
+          '-map',
+          '0',
+          '-c',
+          'copy',
+          '-f',
+          'segment',
+          '-segment_time',
+          (duration / count).toFixed(3),
+          '-reset_timestamps',
+          '1',
+          '-segment_format_options',
+          'movflags=+faststart',
+          path.join(this.workspace.directory, `${prefix}%03d.mp4`),
+        ]);
+        const parts = await this.workspace.listFiles(prefix);
+
+        const sizes = await Promise.all(parts.map(async (part) => (await fs.stat(part)).size));
+        if (sizes.every((partSize) => partSize <= profile.maxFileSizeBytes)) {
+          await fs.unlink(inputPath).catch(() => undefined);
+          this.logger.log(`Split ${storagePath} into ${parts.length} parts (${sizes.join(', ')} bytes)`);
+          return parts;
+        }
+      } catch (error) {
+        await this.removeFiles(await this.workspace.listFiles(prefix));
+        throw error;
+      }
+      await this.removeFiles(await this.workspace.listFiles(prefix));
+    }
+
+    throw new Error(
+      `${storagePath} does not fit in ${this.maxParts} parts of ${profile.maxFileSizeBytes} bytes with profile ${profile.name}`,
+    );
+  }
+
+  /**
+   * ffmpeg arguments for one encode. `bitrate` switches from CRF to a two-pass average bitrate; the
+   * first pass writes no audio and discards its output. `clip` encodes only `duration` seconds from
+   * `start`, seeking the input before decoding.
+   */
+  private buildEncodeArgs(
+    inputPath: string,
+    outputPath: string,
+    profile: EncodingProfile,
+    bitrate: { videoKbps: number; pass: 1 | 2; passLogFile: string } | null,
+    clip: { start: number; duration: number } | null = null,
+  ): string[] {
+    const rate = bitrate
+      ? [
+          '-b:v',
+          `${bitrate.videoKbps}k`,
+          '-maxrate',
+          `${Math.round(bitrate.videoKbps * 1.5)}k`,
+          '-bufsize',
+          `${bitrate.videoKbps * 2}k`,
+          '-pass',
+          String(bitrate.pass),
+          '-passlogfile',
+          bitrate.passLogFile,
+        ]
+      : [
+          '-crf',
+          String(profile.crf),
+          ...(profile.maxBitrateKbps > 0
+            ? ['-maxrate', `${profile.maxBitrateKbps}k`, '-bufsize', `${profile.maxBitrateKbps * 2}k`]
+            : []),
+        ];
+
+    const audio =
+      bitrate?.pass === 1
+        ? ['-an', '-f', 'mp4']
+        : ['-c:a', 'aac', '-b:a', `${profile.audioBitrateKbps}k`, '-ac', String(profile.audioChannels)];
+
+    return [
+      '-y',
+      '-noautorotate',
+      ...(clip ? ['-ss', String(clip.start)] : []),
+      '-i',
+      inputPath,
+      ...(clip ? ['-t', String(clip.duration)] : []),
+      '-c:v',
+      'libx264',
+      '-profile:v',
+      profile.videoProfile,
+      '-level',
+      profile.level,
+      '-pix_fmt',
+      'yuv420p',
+      // Preserve aspect ratio, normalize SAR, and ignore rotation metadata by rewriting it.
+      '-vf',
+      `scale=-2:${profile.height},setsar=1,format=yuv420p`,
+      '-preset',
+      profile.preset,
+      // A keyframe every 2s lets an over-size encode be split into parts close to the target length.
+      '-force_key_frames',
+      'expr:gte(t,n_forced*2)',
+      ...rate,
+      '-metadata:s:v:0',
+      'rotate=0',
+      '-movflags',
+      '+faststart',
+      ...audio,
+      outputPath,
+    ];
+  }
+
+  private async removeFiles(filePaths: string[]): Promise<void> {
+    await this.workspace.remove(filePaths);
+  }
+
+  private async downloadToTempFile(
+    storagePath: string,
+    backend: StorageBackendName | undefined,
+    signal: AbortSignal,
+  ): Promise<string> {
+    return this.downloader.downloadToTemp(this.requireStorage(backend), storagePath, signal);
+  }
+
+  private requireStorage(backend: StorageBackendName | undefined): StorageProvider {
+    const storage = this.storage.get(backend);
+    if (!storage) {
+      throw new Error(`Storage backend ${backend ?? this.storage.getDefaultBackend()} is not configured`);
+    }
+    return storage;
+  }
+
+  private async runFfmpeg(signal: AbortSignal, args: string[]): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      const proc = spawn('ffmpeg', args, { stdio: ['ignore', 'ignore', 'pipe'], signal });
+      let stderr = '';
+
+      proc.stderr.on('data', (chunk) => {
+        stderr += chunk.toString();
+      });
+
+      proc.on('error', (error) => reject(error));
+      proc.on('close', (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`ffmpeg exited with code ${code}: ${stderr}`));
+        }
+      });
+    });
+  }
+
+  async checkFfmpegAvailable(): Promise<boolean> {
+    if (this.ffmpegAvailable !== null) {
+      return this.ffmpegAvailable;
+    }
+
+    this.ffmpegAvailable = await this.canRun('ffmpeg');
+
+    if (!this.ffmpegAvailable) {
+      this.logger.warn(
+        'ffmpeg not found on PATH; skipping re-encode and sending videos directly. Install ffmpeg to improve Telegram playback quality.',
+      );
+    }
+
+    return this.ffmpegAvailable;
+  }
+
+  /**
+   * ffprobe reads video dimensions and durations; without it encoded videos fall back to the
+   * configured default size and oversized encodes cannot be re-fitted or split.
+   */
+  async checkFfprobeAvailable(): Promise<boolean> {
+    if (this.ffprobeAvailable === null) {
+      this.ffprobeAvailable = await this.canRun('ffprobe');
+    }
+    return this.ffprobeAvailable;
+  }
+
+  private canRun(binary: string): Promise<boolean> {
+    return new Promise<boolean>((resolve) => {
+      const probe = spawn(binary, ['-version']);
+      probe.on('error', () => resolve(false));
+      probe.on('close', (code) => resolve(code === 0));
+    });
+  }
+
+  private async probeVideoDimensions(
+    filePath: string,
+  ): Promise<{ width: number; height: number } | null> {
+    return new Promise((resolve) => {
+      const proc = spawn('ffprobe', [
+        '-v',
+        'error',
+        '-select_streams',
+        'v:0',
+        '-show_entries',
+        'stream=width,height',
+        '-of',
+        'json',
+        filePath,
+      ]);
+
+      let stdout = '';
+      proc.stdout.on('data', (chunk) => {
+        stdout += chunk.toString();
+      });
+
+      proc.on('close', (code) => {
+        if (code !== 0) {
+          resolve(null);
+          return;
+        }
+        try {
+          const parsed = JSON.parse(stdout);
+          const stream = parsed?.streams?.[0];
+          const width = Number(stream?.width);
+          const height = Number(stream?.height);
+          if (Number.isFinite(width) && Number.isFinite(height)) {
+            resolve({ width, height });
+            return;
+          }
+        } catch {
+          // ignore parse errors
+        }
+        resolve(null);
+      });
+
+      proc.on('error', () => resolve(null));
+    });
+  }
+
+  private async probeDuration(filePath: string): Promise<number | null> {
+    return new Promise((resolve) => {
+      const proc = spawn('ffprobe', ['-v', 'error', '-show_entries', 'format=duration', '-of', 'json', filePath]);
+
+      let stdout = '';
+      proc.stdout.on('data', (chunk) => {
+        stdout += chunk.toString();
+      });
+
+      proc.on('close', (code) => {
+        if (code !== 0) {
+          resolve(null);
+          return;
+        }
+        try {
+          const duration = Number(JSON.parse(stdout)?.format?.duration);
+          resolve(Number.isFinite(duration) && duration > 0 ? duration : null);
+        } catch {
+          resolve(null);
+        }
+      });
+
+      proc.on('error', () => resolve(null));
+    });
+  }
+}
@@ -0,0 +1,184 @@
+import { randomUUID } from 'crypto';
+
+import { Language } from '../i18n/language';
+
+export type VideoJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Last reported step of a job, shown to the user in the status message.
+ */
+export type VideoJobStage = 'queued' | 'downloading' | 'encoding' | 'uploading' | 'retrying' | 'done';
+
+export type VideoJobPayload = {
+  chatId: number;
+  user: {
+    id: number;
+    username?: string;
+    first_name?: string;
+    language_code?: string;
+  };
+  language: Language;
+  topicKey: string;
+  /** Set for a chapter clip: index into the topic's chapters. */
+  chapterIndex?: number;
+  /**
+   * Set when the `/setup` wizard queued the job (it asks the user to confirm the step afterwards),
+   * or an admin sent the topic through the admin API. For an admin send `user` only carries the
+   * chat id, which may be a group, so it is not recorded as a user.
+   */
+  origin?: 'setup' | 'admin';
+  statusMessageId: number;
+};
+
+export type VideoJob = {
+  id: string;
+  payload: VideoJobPayload;
+  status: VideoJobStatus;
+  stage: VideoJobStage;
+  attempts: number;
+  /** Topic assets already sent, so a retry continues after them instead of repeating them. */
+  assetsSent: number;
+  lastError: string | null;
+  runAfter: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type VideoJobUpdate = Partial<Pick<VideoJob, 'status' | 'stage' | 'attempts' | 'assetsSent' | 'lastError' | 'runAfter'>>;
+
+/**
+ * Backend that holds video delivery jobs between the update handler and the worker, and the
+ * per-user lock that keeps one video in flight per user. Used as the Nest injection token; a shared
+ * implementation (database table, Redis) must make `claim` and `cancel` atomic so replicas never
+ * take the same job or run two jobs of one user.
+ */
+export abstract class VideoJobQueue {
+  abstract enqueue(payload: VideoJobPayload): Promise<VideoJob>;
+  /**
+   * Takes the oldest queued job whose `runAfter` has passed and whose user has no job running, and
+   * marks it running.
+   */
+  abstract claim(now: Date): Promise<VideoJob | null>;
+  /**
+   * Applies `changes`. With `expectedStatus` they only apply while the job still has that status,
+   * checked atomically, so a worker cannot overwrite a cancel made by another replica. Returns
+   * whether the job was updated.
+   */
+  abstract update(id: string, changes: VideoJobUpdate, expectedStatus?: VideoJobStatus): Promise<boolean>;
+  abstract get(id: string): Promise<VideoJob | null>;
+  /**
+   * Queued and running jobs of a user, oldest first; a job's index is its queue position.
+   */
+  abstract listActiveForUser(userId: number): Promise<VideoJob[]>;
+  /**
+   * Number of queued and running jobs across all users.
+   */
+  abstract countActive(): Promise<{ queued: number; running: number }>;
+  /**
+   * Marks a queued or running job cancelled and returns it as it was before, or null when the job
+   * is unknown or already finished.
+   */
+  abstract cancel(id: string): Promise<VideoJob | null>;
+}
+
+const FINISHED_JOB_RETENTION_MS = 60 * 60 * 1000;
+
+/**
+ * Process-local queue. Jobs are lost on restart, which is acceptable for a single instance because
+ * users can simply tap the topic again.
+ */
+export class InMemoryVideoJobQueue extends VideoJobQueue {
+  private readonly jobs = new Map<string, VideoJob>();
+
+  async enqueue(payload: VideoJobPayload): Promise<VideoJob> {
+    this.pruneFinished();
+
+    const now = new Date().toISOString();
+    const job: VideoJob = {
+      id: randomUUID(),
+      payload,
+      status: 'queued',
+      stage: 'queued',
+      attempts: 0,
+      assetsSent: 0,
+      lastError: null,
+      runAfter: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(job.id, job);
+    return { ...job };
+  }
+
+  async claim(now: Date): Promise<VideoJob | null> {
+    const busyUsers = new Set<number>();
+    for (const job of this.jobs.values()) {
+      if (job.status === 'running') {
+        busyUsers.add(job.payload.user.id);
+      }
+    }
+
+    for (const job of this.jobs.values()) {
+      if (
+        job.status === 'queued' &&
+        !busyUsers.has(job.payload.user.id) &&
+        Date.parse(job.runAfter) <= now.getTime()
+      ) {
+        job.status = 'running';
+        job.updatedAt = now.toISOString();
+        return { ...job };
+      }
+    }
+    return null;
+  }
+
+  async update(id: string, changes: VideoJobUpdate, expectedStatus?: VideoJobStatus): Promise<boolean> {
+    const job = this.jobs.get(id);
+    if (!job || (expectedStatus && job.status !== expectedStatus)) {
+      return false;
+    }
+    this.jobs.set(id, { ...job, ...changes, updatedAt: new Date().toISOString() });
+    return true;
+  }
+
+  async get(id: string): Promise<VideoJob | null> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  async listActiveForUser(userId: number): Promise<VideoJob[]> {
+    return [...this.jobs.values()]
+      .filter((job) => job.payload.user.id === userId && (job.status === 'queued' || job.status === 'running'))
+      .map((job) => ({ ...job }));
+  }
+
+  async countActive(): Promise<{ queued: number; running: number }> {
+    const counts = { queued: 0, running: 0 };
+    for (const job of this.jobs.values()) {
+      if (job.status === 'queued' || job.status === 'running') {
+        counts[job.status] += 1;
+      }
+    }
+    return counts;
+  }
+
+  async cancel(id: string): Promise<VideoJob | null> {
+    const job = this.jobs.get(id);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) {
+      return null;
+    }
+
+    this.jobs.set(id, { ...job, status: 'cancelled', updatedAt: new Date().toISOString() });
+    return { ...job };
+  }
+
+  private pruneFinished(): void {
+    const cutoff = Date.now() - FINISHED_JOB_RETENTION_MS;
+    for (const [id, job] of this.jobs) {
+      const finished = job.status !== 'queued' && job.status !== 'running';
+      if (finished && Date.parse(job.updatedAt) < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,495 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Markup, Telegram, TelegramError } from 'telegraf';
+
+import { InteractionOutcome } from '../analytics/analytics.repository';
+import { AnalyticsService } from '../analytics/analytics.service';
+import { hasVideo, localizeTopic, SupportTopic, topicAssets } from '../catalog/support-topic';
+import { TopicCatalogService } from '../catalog/topic-catalog.service';
+import { parsePositiveInt } from '../common/config-values';
+import { I18nService } from '../i18n/i18n.service';
+import { Language } from '../i18n/language';
+import { MessageKey } from '../i18n/messages/en';
+import { CallbackAction, encodeCallbackData } from './callback-data';
+import { AssetDeliveryService } from './asset-delivery.service';
+import { TelegramMenuService } from './telegram-menu.service';
+import { DeliveryResult, StageProgress, VideoDeliveryService } from './video-delivery.service';
+import { VideoJob, VideoJobPayload, VideoJobQueue, VideoJobStage } from './video-job-queue';
+
+const STAGE_MESSAGES: Partial<Record<VideoJobStage, MessageKey>> = {
+  downloading: 'videoDownloading',
+  encoding: 'videoEncoding',
+  uploading: 'videoUploading',
+};
+
+export const CANCEL_VIDEO_JOB = 'cancel';
+
+/**
+ * Called once per job when it completes, fails for good or is cancelled.
+ */
+export type VideoJobFinishedListener = (
+  telegram: Telegram,
+  job: VideoJob,
+  outcome: InteractionOutcome,
+) => Promise<void>;
+
+/**
+ * Takes video jobs off the queue and delivers them with bounded concurrency, so ffmpeg work never
+ * runs inside an update handler. Each user's taps run one at a time in order; queued messages show
+ * their position and every unfinished status message carries a Cancel button. Failed attempts are
+ * retried with exponential backoff (or after Telegram's `retry_after`).
+ */
+@Injectable()
+export class VideoJobWorkerService implements OnModuleDestroy {
+  private readonly logger = new Logger(VideoJobWorkerService.name);
+  private telegram: Telegram | null = null;
+  private readonly running = new Map<string, Promise<void>>();
+  private readonly aborts = new Map<string, AbortController>();
+  private readonly finishedListeners: VideoJobFinishedListener[] = [];
+  private pollTimer: NodeJS.Timeout | null = null;
+  private pumping = false;
+  private stopping = false;
+
+  private readonly concurrency: number;
+  private readonly maxQueuedPerUser: number;
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+  private readonly pollIntervalMs: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly queue: VideoJobQueue,
+    private readonly delivery: VideoDeliveryService,
+    private readonly assets: AssetDeliveryService,
+    private readonly catalog: TopicCatalogService,
+    private readonly i18n: I18nService,
+    private readonly analytics: AnalyticsService,
+    private readonly menuService: TelegramMenuService,
+  ) {
+    this.concurrency = parsePositiveInt(this.configService.get<string>('VIDEO_JOB_CONCURRENCY')) ?? 2;
+    this.maxQueuedPerUser = parsePositiveInt(this.configService.get<string>('VIDEO_QUEUE_MAX_PER_USER')) ?? 5;
+    this.maxAttempts = parsePositiveInt(this.configService.get<string>('VIDEO_JOB_MAX_ATTEMPTS')) ?? 3;
+    this.retryDelayMs = parsePositiveInt(this.configService.get<string>('VIDEO_JOB_RETRY_DELAY_MS')) ?? 5000;
+    this.pollIntervalMs = parsePositiveInt(this.configService.get<string>('VIDEO_JOB_POLL_INTERVAL_MS')) ?? 2000;
+  }
+
+  /**
+   * Hands the worker the bot API once the bot is up and starts polling the queue, which also picks
+   * up retries whose backoff has elapsed.
+   */
+  attach(telegram: Telegram): void {
+    this.telegram = telegram;
+    if (!this.pollTimer) {
+      this.pollTimer = setInterval(() => void this.pump(), this.pollIntervalMs);
+      this.pollTimer.unref();
+    }
+    void this.pump();
+  }
+
+  /**
+   * Queues a video behind the user's earlier taps and shows its position in the status message.
+   */
+  async enqueue(payload: VideoJobPayload): Promise<VideoJob> {
+    const job = await this.queue.enqueue(payload);
+    await this.refreshQueuePositions(payload.user.id);
+    void this.pump();
+    return job;
+  }
+
+  async canEnqueue(userId: number): Promise<boolean> {
+    const active = await this.queue.listActiveForUser(userId);
+    return active.length < this.maxQueuedPerUser;
+  }
+
+  /**
+   * Cancels a queued or in-flight job on behalf of its user. Returns null when the job is not the
+   * user's or has already finished.
+   */
+  async cancel(id: string, userId: number): Promise<VideoJob | null> {
+    const job = await this.queue.get(id);
+    if (!job || job.payload.user.id !== userId) {
+      return null;
+    }
+
+    const cancelled = await this.queue.cancel(id);
+    if (!cancelled) {
+      return null;
+    }
+
+    // A job running in this process stops right away; one running on another replica stops at its
+    // next step, when its worker sees the cancelled status.
+    this.aborts.get(id)?.abort();
+    if (cancelled.status === 'queued') {
+      this.finish(cancelled, 'cancelled');
+    }
+    await this.refreshQueuePositions(userId);
+    return cancelled;
+  }
+
+  onJobFinished(listener: VideoJobFinishedListener): void {
+    this.finishedListeners.push(listener);
+  }
+
+  getJob(id: string): Promise<VideoJob | null> {
+    return this.queue.get(id);
+  }
+
+  countActiveJobs(): Promise<{ queued: number; running: number }> {
+    return this.queue.countActive();
+  }
+
+  onModuleDestroy(): void {
+    this.stopping = true;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.running.size > 0) {
+      this.logger.warn(`Shutting down with ${this.running.size} video job(s) still in progress`);
+    }
+  }
+
+  private async pump(): Promise<void> {
+    if (this.pumping || this.stopping || !this.telegram) {
+      return;
+    }
+
+    this.pumping = true;
+    try {
+      while (!this.stopping && this.running.size < this.concurrency) {
+        const job = await this.queue.claim(new Date());
+        if (!job) {
+          return;
+        }
+
+        const run = this.process(job)
+          .catch((error) => this.logger.error(`Video job ${job.id} crashed: ${String(error)}`))
+          .finally(() => {
+            this.running.delete(job.id);
+            void this.refreshQueuePositions(job.payload.user.id);
+            void this.pump();
+          });
+        this.running.set(job.id, run);
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to claim video jobs: ${String(error)}`);
+    } finally {
+      this.pumping = false;
+    }
+  }
+
+  private async process(job: VideoJob): Promise<void> {
+    const telegram = this.telegram;
+    if (!telegram) {
+      return;
+    }
+
+    const { payload } = job;
+    const attempt = job.attempts + 1;
+    const topic = this.catalog.getTopic(payload.topicKey);
+    const option = topic ? localizeTopic(topic, payload.language) : null;
+    const chapter = payload.chapterIndex !== undefined ? option?.chapters?.[payload.chapterIndex] : undefined;
+    const label = option && chapter ? `${option.label} · ${chapter.title}` : option?.label;
+    const abort = new AbortController();
+    let shown: string = job.stage;
+
+    const reportStage = async (next: VideoJobStage, progress?: StageProgress): Promise<void> => {
+      await this.throwIfCancelled(job.id, abort);
+      const messageKey = progress ? 'videoUploadingPart' : STAGE_MESSAGES[next];
+      const progressKey = progress ? `${next}:${progress.part}/${progress.total}` : next;
+      if (progressKey === shown || !messageKey || !label) {
+        return;
+      }
+      shown = progressKey;
+      await this.queue.update(job.id, { stage: next });
+      await this.editStatus(
+        telegram,
+        payload,
+        this.i18n.t(payload.language, messageKey, { label, ...progress }),
+        this.cancelKeyboard(payload.language, job.id),
+      );
+    };
+
+    this.aborts.set(job.id, abort);
+    try {
+      await this.throwIfCancelled(job.id, abort);
+      let result: DeliveryResult = { outcome: 'unavailable', messageIds: [] };
+      if (option && payload.chapterIndex === undefined) {
+        result = await this.deliverTopic(telegram, job, option, reportStage, abort.signal);
+      } else if (option && chapter && hasVideo(option)) {
+        result = await this.delivery.deliverChapterClip(
+          telegram,
+          payload.chatId,
+          payload.language,
+          option,
+          payload.chapterIndex as number,
+          reportStage,
+          abort.signal,
+        );
+      }
+
+      if (result.outcome === 'unavailable') {
+        this.logger.warn(`Nothing to send for topic ${payload.topicKey}: its files are missing from storage`);
+        await telegram.sendMessage(payload.chatId, this.i18n.t(payload.language, 'videoUnavailableReply'));
+        await this.editStatus(telegram, payload, this.i18n.t(payload.language, 'videoUnavailableStatus'));
+      } else {
+        await this.editStatus(
+          telegram,
+          payload,
+          this.i18n.t(payload.language, option?.assets && !chapter ? 'topicSent' : 'videoSent', {
+            label: label ?? payload.topicKey,
+          }),
+        );
+      }
+
+      // The video is out either way; a cancel that raced the last step only keeps its status.
+      const completed = await this.queue.update(
+        job.id,
+        { status: 'completed', stage: 'done', attempts: attempt },
+        'running',
+      );
+      if (!completed) {
+        this.logger.log(`Video job ${job.id} for ${payload.topicKey} was cancelled after it was sent`);
+      }
+      this.finish(job, result.outcome);
+    } catch (error) {
+      if (abort.signal.aborted) {
+        this.logger.log(`Video job ${job.id} for ${payload.topicKey} was cancelled`);
+        this.finish(job, 'cancelled');
+        return;
+      }
+
+      const retryDelayMs = this.retryDelay(error, attempt);
+      if (retryDelayMs !== null) {
+        this.logger.warn(
+          `Video job ${job.id} for ${payload.topicKey} failed (attempt ${attempt}/${this.maxAttempts}), retrying in ${retryDelayMs}ms: ${String(error)}`,
+        );
+        const requeued = await this.queue.update(
+          job.id,
+          {
+            status: 'queued',
+            stage: 'retrying',
+            attempts: attempt,
+            lastError: String(error),
+            runAfter: new Date(Date.now() + retryDelayMs).toISOString(),
+          },
+          'running',
+        );
+        if (!requeued) {
+          this.logger.log(`Video job ${job.id} for ${payload.topicKey} was cancelled; not retrying`);
+          this.finish(job, 'cancelled');
+          return;
+        }
+        await this.editStatus(
+          telegram,
+          payload,
+          this.i18n.t(payload.language, 'videoRetrying', { seconds: Math.ceil(retryDelayMs / 1000) }),
+          this.cancelKeyboard(payload.language, job.id),
+        );
+        return;
+      }
+
+      this.logger.error(`Failed to send video for ${payload.topicKey}: ${String(error)}`);
+      const failed = await this.queue.update(
+        job.id,
+        { status: 'failed', attempts: attempt, lastError: String(error) },
+        'running',
+      );
+      if (!failed) {
+        this.logger.log(`Video job ${job.id} for ${payload.topicKey} was cancelled before it failed`);
+        this.finish(job, 'cancelled');
+        return;
+      }
+      await telegram
+        .sendMessage(payload.chatId, this.i18n.t(payload.language, 'videoFailedReply'))
+        .catch((sendError) => this.logger.debug(`Unable to report failed video: ${String(sendError)}`));
+      await this.editStatus(telegram, payload, this.i18n.t(payload.language, 'videoFailedStatus'));
+      this.finish(job, 'failed');
+    } finally {
+      this.aborts.delete(job.id);
+    }
+  }
+
+  /**
+   * Aborts the attempt when the job was cancelled, locally or through the shared queue.
+   */
+  private async throwIfCancelled(id: string, abort: AbortController): Promise<void> {
+    if (!abort.signal.aborted) {
+      const current = await this.queue.get(id);
+      if (current?.status === 'cancelled') {
+        abort.abort();
+      }
+    }
+    abort.signal.throwIfAborted();
+  }
+
+  /**
+   * Rewrites the status message of each queued job of a user with its current position. Position
+   * 0 means the job is next and keeps the plain "sending" text.
+   */
+  private async refreshQueuePositions(userId: number): Promise<void> {
+    const telegram = this.telegram;
+    if (!telegram) {
+      return;
+    }
+
+    try {
+      const jobs = await this.queue.listActiveForUser(userId);
+      const running = jobs.filter((job) => job.status === 'running').length;
+      const queued = jobs.filter((job) => job.status === 'queued' && job.stage === 'queued');
+      for (const [index, job] of queued.entries()) {
+        const ahead = running + index;
+        const text =
+          ahead === 0
+            ? this.i18n.t(job.payload.language, 'videoSending')
+            : this.i18n.t(job.payload.language, 'videoQueued', { position: ahead });
+        await this.editStatus(telegram, job.payload, text, this.cancelKeyboard(job.payload.language, job.id));
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to refresh queue positions for user ${userId}: ${String(error)}`);
+    }
+  }
+
+  /**
+   * Sends the topic's assets in order, skipping those a failed attempt already sent. The result is
+   * the video's when the topic has one; `unavailable` only when nothing at all could be sent.
+   */
+  private async deliverTopic(
+    telegram: Telegram,
+    job: VideoJob,
+    option: SupportTopic,
+    onStage: (stage: VideoJobStage, progress?: StageProgress) => Promise<void>,
+    signal: AbortSignal,
+  ): Promise<DeliveryResult> {
+    const { payload } = job;
+    const assets = topicAssets(option);
+    let videoResult: DeliveryResult | null = null;
+    let sentAny = job.assetsSent > 0;
+
+    for (const [index, asset] of assets.entries()) {
+      if (index < job.assetsSent) {
+        continue;
+      }
+
+      if (asset.type === 'video') {
+        videoResult = hasVideo(option)
+          ? await this.delivery.deliver(telegram, payload.chatId, payload.language, option, onStage, signal)
+          : { outcome: 'unavailable', messageIds: [] };
+        if (videoResult.outcome !== 'unavailable') {
+          sentAny = true;
+          await this.sendChapterMenu(telegram, payload, option, videoResult.messageIds);
+        }
+      } else {
+        await onStage('uploading');
+        const sent = await this.assets.send(telegram, payload.chatId, payload.language, asset, option.storageBackend);
+        sentAny = sent || sentAny;
+      }
+      await this.queue.update(job.id, { assetsSent: index + 1 });
+    }
+
+    if (videoResult && (videoResult.outcome !== 'unavailable' || !sentAny)) {
+      return videoResult;
+    }
+    return { outcome: sentAny ? 'sent' : 'unavailable', messageIds: [] };
+  }
+
+  /**
+   * Posts the topic's chapter buttons as a reply to the video, so timestamps sent for a chapter tap
+   * can reply to the same video and act as seek links. Split videos get no reply target because a
+   * timestamp would only seek within one part.
+   */
+  private async sendChapterMenu(
+    telegram: Telegram,
+    payload: VideoJobPayload,
+    option: SupportTopic,
+    messageIds: number[],
+  ): Promise<void> {
+    const menu = this.menuService.buildChapterMenu(option, payload.language);
+    if (!menu) {
+      return;
+    }
+
+    try {
+      await telegram.sendMessage(payload.chatId, menu.text, {
+        ...menu.markup,
+        ...(messageIds.length === 1
+          ? { reply_parameters: { message_id: messageIds[0], allow_sending_without_reply: true } }
+          : {}),
+      });
+    } catch (error) {
+      this.logger.warn(`Failed to send chapters of ${option.key}: ${String(error)}`);
+    }
+  }
+
+  private cancelKeyboard(language: Language, jobId: string) {
+    return Markup.inlineKeyboard([
+      Markup.button.callback(
+        this.i18n.t(language, 'videoCancelButton'),
+        encodeCallbackData(CallbackAction.VideoJob, CANCEL_VIDEO_JOB, jobId),
+      ),
+    ]);
+  }
+
+  /**
+   * Backoff before the next attempt, or null when the job should fail now: attempts are used up or
+   * Telegram rejected the request for a reason a retry cannot fix (blocked bot, bad request).
+   */
+  private retryDelay(error: unknown, attempt: number): number | null {
+    if (attempt >= this.maxAttempts || this.stopping) {
+      return null;
+    }
+
+    if (error instanceof TelegramError) {
+      const retryAfter = error.parameters?.retry_after;
+      if (retryAfter) {
+        return retryAfter * 1000;
+      }
+      if (error.code >= 400 && error.code < 500) {
+        return null;
+      }
+    }
+
+    return this.retryDelayMs * 2 ** (attempt - 1);
+  }
+
+  /**
+   * Records the job's outcome and tells the listeners; a failing listener never fails the job.
+   * Admin sends are not user requests and stay out of the analytics.
+   */
+  private finish(job: VideoJob, outcome: InteractionOutcome): void {
+    const { payload } = job;
+    void this.analytics.recordVideoRequest(
+      payload.origin === 'admin' ? undefined : payload.user,
+      payload.language,
+      payload.topicKey,
+      outcome,
+      Date.now() - Date.parse(job.createdAt),
+    );
+
+    const telegram = this.telegram;
+    if (!telegram) {
+      return;
+    }
+    for (const listener of this.finishedListeners) {
+      void listener(telegram, job, outcome).catch((error) =>
+        this.logger.warn(`Video job ${job.id} listener failed: ${String(error)}`),
+      );
+    }
+  }
+
+  private async editStatus(
+    telegram: Telegram,
+    payload: VideoJobPayload,
+    text: string,
+    markup?: ReturnType<typeof Markup.inlineKeyboard>,
+  ): Promise<void> {
+    try {
+      await telegram.editMessageText(payload.chatId, payload.statusMessageId, undefined, text, markup);
+    } catch (error) {
+      if (String(error).includes('message is not modified')) {
+        return;
+      }
+      this.logger.debug(`Unable to edit message ${payload.statusMessageId}: ${String(error)}`);
+    }
+  }
+}
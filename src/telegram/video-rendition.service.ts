@@ -0,0 +1,135 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+
+import { SupabaseService } from '../supabase/supabase.service';
+
+export type VideoRendition = {
+  storagePath: string;
+  sourceVersion: string;
+  /** Bucket paths of the encoded video; more than one when it had to be split into parts. */
+  renditionPaths: string[];
+  width: number | null;
+  height: number | null;
+  /** Combined size of all parts. */
+  sizeBytes: number | null;
+};
+
+type RenditionRow = {
+  storage_path: string;
+  source_version: string;
+  rendition_path: string;
+  part_paths: string[] | null;
+  width: number | null;
+  height: number | null;
+  size_bytes: number | null;
+};
+
+/**
+ * Tracks the Telegram-ready re-encode of each source video that is stored back in the bucket. An
+ * entry only counts for the source version (ETag) it was encoded from, so replacing a source video
+ * makes the next request or warm-up encode it again.
+ */
+@Injectable()
+export class VideoRenditionService implements OnModuleInit {
+  private readonly logger = new Logger(VideoRenditionService.name);
+  private readonly entries = new Map<string, VideoRendition>();
+  private readonly tableName: string;
+  private readonly pathPrefix: string;
+  private persistenceEnabled = true;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly supabaseService: SupabaseService,
+  ) {
+    this.tableName = this.configService.get<string>('VIDEO_RENDITION_TABLE') ?? 'video_renditions';
+    this.pathPrefix = (this.configService.get<string>('VIDEO_RENDITION_PREFIX') ?? 'telegram-renditions')
+      .trim()
+      .replace(/^\/+|\/+$/g, '');
+  }
+
+  async onModuleInit(): Promise<void> {
+    const client = this.supabaseService.getClient();
+    if (!client) {
+      this.persistenceEnabled = false;
+      return;
+    }
+
+    const { data, error } = await client
+      .from(this.tableName)
+      .select('storage_path, source_version, rendition_path, part_paths, width, height, size_bytes');
+
+    if (error) {
+      this.persistenceEnabled = false;
+      this.logger.warn(
+        `Video rendition table "${this.tableName}" unavailable; tracking renditions in memory only. Error: ${error.message}`,
+      );
+      return;
+    }
+
+    for (const row of (data ?? []) as RenditionRow[]) {
+      this.entries.set(row.storage_path, this.fromRow(row));
+    }
+    this.logger.log(`Loaded ${this.entries.size} video renditions`);
+  }
+
+  /**
+   * Bucket path of the rendition for a source video, e.g. `guides/vps.mov` becomes
+   * `telegram-renditions/guides/vps.mp4`, and its second part `telegram-renditions/guides/vps.part2.mp4`.
+   */
+  renditionPathFor(storagePath: string, part: number | null = null): string {
+    const parsed = path.posix.parse(storagePath.replace(/^\/+/, ''));
+    const suffix = part === null ? '' : `.part${part}`;
+    const relative = path.posix.join(parsed.dir, `${parsed.name}${suffix}.mp4`);
+    return this.pathPrefix ? `${this.pathPrefix}/${relative}` : relative;
+  }
+
+  /**
+   * Returns the rendition encoded from the given source version, or null when there is none yet.
+   */
+  get(storagePath: string, sourceVersion: string): VideoRendition | null {
+    const entry = this.entries.get(storagePath);
+    return entry && entry.sourceVersion === sourceVersion ? entry : null;
+  }
+
+  async set(entry: VideoRendition): Promise<void> {
+    this.entries.set(entry.storagePath, entry);
+
+    const client = this.supabaseService.getClient();
+    if (!client || !this.persistenceEnabled) {
+      return;
+    }
+
+    const { error } = await client
+      .from(this.tableName)
+      .upsert(this.toRow(entry), { onConflict: 'storage_path' });
+
+    if (error) {
+      this.logger.warn(`Failed to persist rendition of ${entry.storagePath}: ${error.message}`);
+    }
+  }
+
+  private fromRow(row: RenditionRow): VideoRendition {
+    return {
+      storagePath: row.storage_path,
+      sourceVersion: row.source_version,
+      renditionPaths: row.part_paths?.length ? row.part_paths : [row.rendition_path],
+      width: row.width ?? null,
+      height: row.height ?? null,
+      sizeBytes: row.size_bytes ?? null,
+    };
+  }
+
+  private toRow(entry: VideoRendition): RenditionRow & { updated_at: string } {
+    return {
+      storage_path: entry.storagePath,
+      source_version: entry.sourceVersion,
+      rendition_path: entry.renditionPaths[0],
+      part_paths: entry.renditionPaths.length > 1 ? entry.renditionPaths : null,
+      width: entry.width,
+      height: entry.height,
+      size_bytes: entry.sizeBytes,
+      updated_at: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,156 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { SupportTopic } from '../catalog/support-topic';
+import { TopicCatalogService } from '../catalog/topic-catalog.service';
+import { StorageBackendName } from '../storage/storage-provider';
+import { VideoDeliveryService } from './video-delivery.service';
+
+export type WarmupReport = {
+  startedAt: string;
+  finishedAt: string | null;
+  /** Storage paths whose rendition already matched the source. */
+  ready: string[];
+  /** Storage paths encoded and uploaded by this run. */
+  encoded: string[];
+  /** Storage paths referenced by the catalog but not found in storage. */
+  missing: string[];
+  failed: Array<{ storagePath: string; error: string }>;
+};
+
+type WarmupSource = { profileName: string | undefined; backend: StorageBackendName | undefined };
+
+export type WarmupStatus = {
+  running: boolean;
+  report: WarmupReport | null;
+};
+
+/**
+ * Pre-encodes every video referenced by the catalog (including per-language overrides) so user
+ * requests find a Telegram-ready rendition in the bucket instead of waiting for ffmpeg. Runs once
+ * after startup unless disabled, and again whenever an admin triggers it; videos are encoded one at
+ * a time.
+ */
+@Injectable()
+export class VideoWarmupService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(VideoWarmupService.name);
+  private readonly warmOnStart: boolean;
+  private current: WarmupReport | null = null;
+  private running: Promise<void> | null = null;
+  private abort: AbortController | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly catalog: TopicCatalogService,
+    private readonly delivery: VideoDeliveryService,
+  ) {
+    this.warmOnStart =
+      (this.configService.get<string>('VIDEO_WARMUP_ON_START') ?? 'true').toLowerCase().trim() !== 'false';
+  }
+
+  onApplicationBootstrap(): void {
+    if (this.warmOnStart) {
+      this.start();
+    }
+  }
+
+  /**
+   * Starts a warm-up in the background. Returns false when one is already running.
+   */
+  start(): boolean {
+    if (this.running) {
+      return false;
+    }
+
+    this.abort = new AbortController();
+    this.running = this.run(this.abort.signal)
+      .catch((error) => this.logger.error(`Video warm-up crashed: ${String(error)}`))
+      .finally(() => {
+        this.running = null;
+        this.abort = null;
+      });
+    return true;
+  }
+
+  getStatus(): WarmupStatus {
+    return { running: this.running !== null, report: this.current };
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    this.abort?.abort();
+    await this.running;
+  }
+
+  private async run(signal: AbortSignal): Promise<void> {
+    const report: WarmupReport = {
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      ready: [],
+      encoded: [],
+      missing: [],
+      failed: [],
+    };
+    this.current = report;
+
+    const storagePaths = this.collectStoragePaths();
+    if (!(await this.delivery.checkFfmpegAvailable())) {
+      report.failed = [...storagePaths.keys()].map((storagePath) => ({
+        storagePath,
+        error: 'ffmpeg is not available',
+      }));
+      report.finishedAt = new Date().toISOString();
+      return;
+    }
+
+    this.logger.log(`Warming ${storagePaths.size} videos`);
+    for (const [storagePath, { profileName, backend }] of storagePaths) {
+      if (signal.aborted) {
+        break;
+      }
+
+      try {
+        const result = await this.delivery.warmRendition(storagePath, profileName, signal, backend);
+        report[result].push(storagePath);
+      } catch (error) {
+        if (signal.aborted) {
+          break;
+        }
+        report.failed.push({ storagePath, error: String(error) });
+        this.logger.warn(`Failed to encode ${storagePath}: ${String(error)}`);
+      }
+    }
+
+    report.finishedAt = new Date().toISOString();
+    this.logger.log(
+      `Video warm-up finished: ${report.ready.length} ready, ${report.encoded.length} encoded, ${report.missing.length} missing, ${report.failed.length} failed`,
+    );
+    if (report.missing.length > 0) {
+      this.logger.warn(`Videos missing from the bucket: ${report.missing.join(', ')}`);
+    }
+  }
+
+  /**
+   * Storage paths mapped to the encoding profile and storage backend of the first topic that uses
+   * them.
+   */
+  private collectStoragePaths(): Map<string, WarmupSource> {
+    const paths = new Map<string, WarmupSource>();
+    const add = (storagePath: string, topic: SupportTopic) => {
+      if (!paths.has(storagePath)) {
+        paths.set(storagePath, { profileName: topic.encodingProfile, backend: topic.storageBackend });
+      }
+    };
+
+    for (const topic of this.catalog.getAllTopics()) {
+      if (topic.storagePath) {
+        add(topic.storagePath, topic);
+      }
+      for (const translation of Object.values(topic.translations ?? {})) {
+        if (translation?.storagePath) {
+          add(translation.storagePath, topic);
+        }
+      }
+    }
+    return new Map([...paths.entries()].sort(([a], [b]) => a.localeCompare(b)));
+  }
+}
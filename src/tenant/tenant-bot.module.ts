@@ -0,0 +1,38 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { AnalyticsModule } from '../analytics/analytics.module';
+import { AuthModule } from '../auth/auth.module';
+import { CatalogModule } from '../catalog/catalog.module';
+import { HealthModule } from '../health/health.module';
+import { I18nModule } from '../i18n/i18n.module';
+import { StorageModule } from '../storage/storage.module';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { TelegramModule } from '../telegram/telegram.module';
+import { TenantConfigService, TenantDefinition } from './tenant-config';
+
+/**
+ * Root module of one tenant's bot. It runs as its own application context, so every service gets
+ * its own instance and the tenant's ConfigService; HTTP stays with the main application.
+ */
+@Module({})
+export class TenantBotModule {
+  static forTenant(tenant: TenantDefinition): DynamicModule {
+    return {
+      module: TenantBotModule,
+      global: true,
+      imports: [
+        SupabaseModule,
+        StorageModule,
+        AuthModule,
+        I18nModule,
+        CatalogModule,
+        AnalyticsModule,
+        TelegramModule,
+        HealthModule,
+      ],
+      providers: [{ provide: ConfigService, useValue: new TenantConfigService(tenant) }],
+      exports: [ConfigService],
+    };
+  }
+}
@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+
+import { BOT_SCOPED_TABLES, TenantConfigError, TenantConfigService, validateTenants } from './tenant-config';
+
+const ENV = {
+  BOT_TOKEN: 'default-token',
+  WEBHOOK_URL: 'https://bots.example.com/telegram/webhook',
+  SUPABASE_URL: 'https://project.supabase.co',
+  ACME_TOKEN: 'acme-token',
+};
+
+describe('validateTenants', () => {
+  it('resolves environment references and derives the webhook URL from the key', () => {
+    const raw = { tenants: [{ key: 'acme', settings: { BOT_TOKEN: '${ACME_TOKEN}' } }] };
+    const [tenant] = validateTenants(raw, 'test', ENV);
+    assert.equal(tenant.settings.BOT_TOKEN, 'acme-token');
+    assert.equal(tenant.settings.WEBHOOK_URL, 'https://bots.example.com/telegram/acme/webhook');
+    assert.equal(tenant.settings.TELEGRAM_BOT_TOKEN, '');
+    assert.equal(tenant.settings.TELEGRAM_WEBHOOK_URL, '');
+  });
+
+  it('prefixes every bot-scoped table the tenant leaves out with its key', () => {
+    const [tenant] = validateTenants(
+      [{ key: 'acme-eu', settings: { BOT_TOKEN: 'acme-token', CATALOG_TABLE: 'support_topics' } }],
+      'test',
+      { ...ENV, BROADCAST_TABLE: 'announcements' },
+    );
+    assert.equal(tenant.settings.BROADCAST_TABLE, 'acme_eu_announcements');
+    assert.equal(tenant.settings.SUPPORT_TICKET_TABLE, 'acme_eu_support_tickets');
+    assert.equal(tenant.settings.ADMIN_ROLE_TABLE, 'acme_eu_telegram_admin_roles');
+    assert.equal(tenant.settings.ANALYTICS_STATS_FUNCTION, 'acme_eu_telegram_interaction_stats');
+    assert.equal(tenant.settings.CATALOG_TABLE, 'support_topics');
+    for (const name of Object.keys(BOT_SCOPED_TABLES)) {
+      assert.ok(tenant.settings[name], `${name} is scoped`);
+    }
+  });
+
+  it('keeps the plain table names for a tenant with its own Supabase project', () => {
+    const [tenant] = validateTenants(
+      [{ key: 'acme', settings: { BOT_TOKEN: 'acme-token', SUPABASE_URL: 'https://acme.supabase.co' } }],
+      'test',
+      ENV,
+    );
+    assert.equal(tenant.settings.BROADCAST_TABLE, undefined);
+  });
+
+  it('lists every problem at once', () => {
+    assert.throws(
+      () =>
+        validateTenants(
+          [
+            { key: 'Bad Key', settings: { BOT_TOKEN: 'x' } },
+            { key: 'dup', settings: { BOT_TOKEN: 'default-token' } },
+            { key: 'missing', settings: { BOT_TOKEN: '${NOPE}' } },
+          ],
+          'test',
+          ENV,
+        ),
+      (error: unknown) => {
+        assert.ok(error instanceof TenantConfigError);
+        assert.equal(error.issues.length, 3);
+        return true;
+      },
+    );
+  });
+});
+
+describe('TenantConfigService', () => {
+  afterEach(() => {
+    delete process.env.TENANT_SPEC_SETTING;
+  });
+
+  it('prefers the tenant settings and falls back to the environment and the default', () => {
+    process.env.TENANT_SPEC_SETTING = 'from-env';
+    const config = new TenantConfigService({ key: 'acme', settings: { BOT_TOKEN: 'acme-token', BLANK: '' } });
+
+    assert.equal(config.tenantKey, 'acme');
+    assert.equal(config.get('BOT_TOKEN'), 'acme-token');
+    assert.equal(config.get('BLANK', 'fallback'), '');
+    assert.equal(config.get('TENANT_SPEC_SETTING'), 'from-env');
+    assert.equal(config.get('TENANT_SPEC_UNSET', 'fallback'), 'fallback');
+  });
+});
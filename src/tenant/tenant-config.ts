@@ -0,0 +1,184 @@
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * One extra bot served from this deployment. `settings` are the tenant's own values for the
+ * regular settings (BOT_TOKEN, SUPABASE_BUCKET, CATALOG_FILE, MESSAGES_FILE, ...); everything it
+ * does not set comes from the deployment's environment.
+ */
+export type TenantDefinition = {
+  key: string;
+  settings: Record<string, string>;
+};
+
+export class TenantConfigError extends Error {
+  constructor(
+    readonly source: string,
+    readonly issues: string[],
+  ) {
+    super(`Invalid tenants from ${source}: ${issues.join('; ')}`);
+    this.name = 'TenantConfigError';
+  }
+}
+
+// The key is a URL path segment of the tenant's webhook.
+const TENANT_KEY_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+const SETTING_NAME_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+const ENV_REFERENCE_PATTERN = /\$\{([A-Z][A-Z0-9_]*)\}/g;
+// Legacy aliases of the deployment would otherwise leak into every tenant.
+const BLANKED_ALIASES = ['TELEGRAM_BOT_TOKEN', 'TELEGRAM_WEBHOOK_URL'];
+// Supabase tables (and the stats function) holding one bot's data, with their default names. A tenant
+// in the deployment's Supabase project that does not name its own gets `<key>_<name>`, so bots never
+// read or resume each other's rows.
+export const BOT_SCOPED_TABLES: Record<string, string> = {
+  ADMIN_AUDIT_TABLE: 'admin_audit_log',
+  ADMIN_ROLE_TABLE: 'telegram_admin_roles',
+  ANALYTICS_EVENT_TABLE: 'telegram_interactions',
+  ANALYTICS_STATS_FUNCTION: 'telegram_interaction_stats',
+  ANALYTICS_USER_TABLE: 'telegram_users',
+  BLOCKLIST_TABLE: 'blocked_users',
+  BROADCAST_TABLE: 'broadcasts',
+  CATALOG_CATEGORY_TABLE: 'support_categories',
+  CATALOG_TABLE: 'support_topics',
+  SETUP_PROGRESS_TABLE: 'setup_progress',
+  SIGNED_URL_CACHE_TABLE: 'signed_url_cache',
+  SUPPORT_MESSAGE_TABLE: 'support_ticket_messages',
+  SUPPORT_TICKET_TABLE: 'support_tickets',
+  TELEGRAM_FILE_CACHE_TABLE: 'telegram_file_cache',
+  TELEGRAM_USER_LANGUAGE_TABLE: 'telegram_user_languages',
+  VERIFICATION_TABLE: 'account_verifications',
+  VIDEO_RENDITION_TABLE: 'video_renditions',
+};
+const DEFAULT_WEBHOOK_SUFFIX = '/telegram/webhook';
+
+/**
+ * Validates a raw tenant list (`[...]` or `{ tenants: [...] }`). Setting values may reference
+ * environment variables as `${NAME}` so tokens stay out of the file. A tenant without WEBHOOK_URL
+ * gets the deployment's WEBHOOK_URL with `/telegram/webhook` replaced by `/telegram/<key>/webhook`,
+ * or polls when that URL has another shape. Unless the tenant uses another Supabase project, every
+ * table in BOT_SCOPED_TABLES it leaves out is prefixed with its key.
+ * Throws TenantConfigError listing every problem.
+ */
+export function validateTenants(
+  raw: unknown,
+  source: string,
+  env: Record<string, string | undefined>,
+): TenantDefinition[] {
+  const container = raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as Record<string, unknown>) : null;
+  const entries = Array.isArray(raw) ? raw : Array.isArray(container?.tenants) ? container.tenants : null;
+  if (!entries) {
+    throw new TenantConfigError(source, ['expected an array of tenants or an object with a "tenants" array']);
+  }
+
+  const issues: string[] = [];
+  const tenants: TenantDefinition[] = [];
+  const seenKeys = new Set<string>();
+  const seenTokens = new Set<string>(env.BOT_TOKEN ? [env.BOT_TOKEN] : []);
+
+  entries.forEach((entry, index) => {
+    const where = `tenant #${index + 1}`;
+    if (!entry || typeof entry !== 'object') {
+      issues.push(`${where} is not an object`);
+      return;
+    }
+
+    const value = entry as Record<string, unknown>;
+    const entryIssues: string[] = [];
+    if (typeof value.key !== 'string' || !TENANT_KEY_PATTERN.test(value.key)) {
+      entryIssues.push(`${where} has invalid key (lowercase letters, digits, "-" and "_", max 32 chars)`);
+    } else if (seenKeys.has(value.key)) {
+      entryIssues.push(`${where} duplicates key "${value.key}"`);
+    }
+
+    const settings = resolveSettings(value.settings, where, env, entryIssues);
+    const token = settings?.BOT_TOKEN;
+    if (settings && !token) {
+      entryIssues.push(`${where} is missing setting "BOT_TOKEN"`);
+    } else if (token && seenTokens.has(token)) {
+      entryIssues.push(`${where} reuses the BOT_TOKEN of another bot`);
+    }
+
+    if (entryIssues.length > 0 || !settings || !token) {
+      issues.push(...entryIssues);
+      return;
+    }
+
+    const key = value.key as string;
+    seenKeys.add(key);
+    seenTokens.add(token);
+    for (const alias of BLANKED_ALIASES) {
+      settings[alias] ??= '';
+    }
+    if (!settings.SUPABASE_URL || settings.SUPABASE_URL === env.SUPABASE_URL) {
+      const prefix = key.replace(/-/g, '_');
+      for (const [name, defaultName] of Object.entries(BOT_SCOPED_TABLES)) {
+        settings[name] ??= `${prefix}_${env[name] || defaultName}`;
+      }
+    }
+    if (!settings.WEBHOOK_URL) {
+      // Never the deployment's own URL: Telegram would deliver this tenant's updates to the default bot.
+      settings.WEBHOOK_URL = env.WEBHOOK_URL?.endsWith(DEFAULT_WEBHOOK_SUFFIX)
+        ? `${env.WEBHOOK_URL.slice(0, -DEFAULT_WEBHOOK_SUFFIX.length)}/telegram/${key}/webhook`
+        : '';
+    }
+    tenants.push({ key, settings });
+  });
+
+  if (issues.length > 0) {
+    throw new TenantConfigError(source, issues);
+  }
+  return tenants;
+}
+
+function resolveSettings(
+  raw: unknown,
+  where: string,
+  env: Record<string, string | undefined>,
+  issues: string[],
+): Record<string, string> | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    issues.push(`${where} is missing the "settings" object`);
+    return null;
+  }
+
+  const settings: Record<string, string> = {};
+  for (const [name, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!SETTING_NAME_PATTERN.test(name)) {
+      issues.push(`${where} has invalid setting name "${name}" (upper case, digits and "_")`);
+      continue;
+    }
+    if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+      issues.push(`${where} has non-scalar setting "${name}"`);
+      continue;
+    }
+
+    settings[name] = String(value).replace(ENV_REFERENCE_PATTERN, (match, reference: string) => {
+      const resolved = env[reference];
+      if (resolved === undefined) {
+        issues.push(`${where} setting "${name}" references unset environment variable ${reference}`);
+        return match;
+      }
+      return resolved;
+    });
+  }
+  return settings;
+}
+
+/**
+ * ConfigService of a tenant's bot: the tenant's settings first, then the deployment's environment.
+ */
+export class TenantConfigService extends ConfigService {
+  constructor(private readonly tenant: TenantDefinition) {
+    super();
+  }
+
+  get tenantKey(): string {
+    return this.tenant.key;
+  }
+
+  override get(propertyPath: string, ...rest: unknown[]): unknown {
+    if (propertyPath in this.tenant.settings) {
+      return this.tenant.settings[propertyPath];
+    }
+    return (super.get as (...args: unknown[]) => unknown)(propertyPath, ...rest);
+  }
+}
@@ -0,0 +1,35 @@
+import { Controller, Get, NotFoundException, Param, ServiceUnavailableException } from '@nestjs/common';
+
+import { HealthService } from '../health/health.service';
+import { TenantRegistryService } from './tenant-registry.service';
+
+@Controller('health/tenants')
+export class TenantHealthController {
+  constructor(private readonly tenants: TenantRegistryService) {}
+
+  @Get()
+  list() {
+    return { tenants: this.tenants.listTenants() };
+  }
+
+  /**
+   * Readiness of one tenant's bot, answered like `/health/ready`.
+   */
+  @Get(':tenant')
+  async ready(@Param('tenant') tenant: string) {
+    const state = this.tenants.listTenants().find((candidate) => candidate.key === tenant);
+    if (!state) {
+      throw new NotFoundException(`Tenant ${tenant} not found`);
+    }
+
+    const context = this.tenants.get(tenant);
+    if (!context) {
+      throw new ServiceUnavailableException({ status: 'degraded', tenant: state });
+    }
+    const report = await context.get(HealthService).getReadiness();
+    if (report.status !== 'ready') {
+      throw new ServiceUnavailableException(report);
+    }
+    return report;
+  }
+}
@@ -0,0 +1,83 @@
+import {
+  INestApplicationContext,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+import { TenantBotModule } from './tenant-bot.module';
+import { validateTenants } from './tenant-config';
+
+export type TenantState = {
+  key: string;
+  status: 'running' | 'failed';
+  error: string | null;
+};
+
+/**
+ * Starts one bot per tenant listed in TENANTS_FILE next to the default bot. A tenant that fails to
+ * start (bad token, unreachable Telegram) is reported as failed without taking the others down.
+ */
+@Injectable()
+export class TenantRegistryService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(TenantRegistryService.name);
+  private readonly contexts = new Map<string, INestApplicationContext>();
+  private readonly states = new Map<string, TenantState>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    const file = this.configService.get<string>('TENANTS_FILE')?.trim();
+    if (!file) {
+      return;
+    }
+
+    const contents = await fs.readFile(path.resolve(file), 'utf8');
+    const extension = path.extname(file).toLowerCase();
+    const parsed: unknown = extension === '.yaml' || extension === '.yml' ? parseYaml(contents) : JSON.parse(contents);
+    const tenants = validateTenants(parsed, file, process.env);
+
+    // One at a time: each bot registers its webhook and warms caches on startup.
+    for (const tenant of tenants) {
+      try {
+        const context = await NestFactory.createApplicationContext(TenantBotModule.forTenant(tenant), {
+          abortOnError: false,
+        });
+        this.contexts.set(tenant.key, context);
+        this.states.set(tenant.key, { key: tenant.key, status: 'running', error: null });
+        this.logger.log(`Started bot for tenant ${tenant.key}`);
+      } catch (error) {
+        this.states.set(tenant.key, { key: tenant.key, status: 'failed', error: String(error) });
+        this.logger.error(`Failed to start bot for tenant ${tenant.key}: ${String(error)}`);
+      }
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    for (const [key, context] of this.contexts) {
+      try {
+        await context.close();
+      } catch (error) {
+        this.logger.warn(`Failed to stop bot for tenant ${key}: ${String(error)}`);
+      }
+    }
+    this.contexts.clear();
+  }
+
+  /**
+   * The application context of a running tenant's bot, or null for unknown and failed tenants.
+   */
+  get(key: string): INestApplicationContext | null {
+    return this.contexts.get(key) ?? null;
+  }
+
+  listTenants(): TenantState[] {
+    return [...this.states.values()];
+  }
+}
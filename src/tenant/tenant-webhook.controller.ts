@@ -0,0 +1,24 @@
+import { Body, Controller, Headers, HttpCode, NotFoundException, Param, Post } from '@nestjs/common';
+import { Update } from 'telegraf/types';
+
+import { TelegramService } from '../telegram/telegram.service';
+import { TenantRegistryService } from './tenant-registry.service';
+
+@Controller('telegram/:tenant')
+export class TenantWebhookController {
+  constructor(private readonly tenants: TenantRegistryService) {}
+
+  @Post('webhook')
+  @HttpCode(200)
+  handleWebhook(
+    @Param('tenant') tenant: string,
+    @Body() update: Update,
+    @Headers('x-telegram-bot-api-secret-token') secretToken?: string,
+  ) {
+    const context = this.tenants.get(tenant);
+    if (!context) {
+      throw new NotFoundException(`Tenant ${tenant} not found`);
+    }
+    return context.get(TelegramService).handleWebhookUpdate(update, secretToken);
+  }
+}
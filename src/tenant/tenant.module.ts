@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+
+import { TenantHealthController } from './tenant-health.controller';
+import { TenantRegistryService } from './tenant-registry.service';
+import { TenantWebhookController } from './tenant-webhook.controller';
+
+@Module({
+  providers: [TenantRegistryService],
+  controllers: [TenantWebhookController, TenantHealthController],
+})
+export class TenantModule {}
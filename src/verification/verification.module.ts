@@ -0,0 +1,36 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { SupabaseService } from '../supabase/supabase.service';
+import {
+  InMemoryVerificationRepository,
+  SupabaseVerificationRepository,
+  VerificationRepository,
+} from './verification.repository';
+import { VerificationService } from './verification.service';
+
+@Module({
+  providers: [
+    {
+      provide: VerificationRepository,
+      inject: [ConfigService, SupabaseService],
+      useFactory: (configService: ConfigService, supabaseService: SupabaseService) => {
+        const client = supabaseService.getClient();
+        if (!client) {
+          new Logger(VerificationModule.name).warn(
+            'Supabase is not configured; account verifications are kept in memory and lost on restart.',
+          );
+          return new InMemoryVerificationRepository();
+        }
+
+        return new SupabaseVerificationRepository(
+          client,
+          configService.get<string>('VERIFICATION_TABLE') ?? 'account_verifications',
+        );
+      },
+    },
+    VerificationService,
+  ],
+  exports: [VerificationService],
+})
+export class VerificationModule {}
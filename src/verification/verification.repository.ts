@@ -0,0 +1,208 @@
+import { Logger } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export type VerificationStatus = 'pending' | 'approved' | 'rejected';
+
+export type Verification = {
+  id: number;
+  userId: number;
+  chatId: number;
+  username: string | null;
+  language: string;
+  exnessAccountId: string;
+  bhubEmail: string;
+  status: VerificationStatus;
+  submittedAt: string;
+  reviewedAt: string | null;
+  /** Telegram user id of the admin who approved or rejected the request. */
+  reviewedBy: number | null;
+};
+
+export type NewVerification = Pick<
+  Verification,
+  'userId' | 'chatId' | 'username' | 'language' | 'exnessAccountId' | 'bhubEmail'
+>;
+
+/**
+ * Storage for account verification requests. A user may submit again after a rejection; their
+ * latest request decides whether they are verified. Used as the Nest injection token; see
+ * VerificationModule for the binding.
+ */
+export abstract class VerificationRepository {
+  abstract findLatestByUser(userId: number): Promise<Verification | null>;
+  abstract create(verification: NewVerification): Promise<Verification | null>;
+  /**
+   * Approves or rejects a pending request. Returns null when the request is unknown or was already
+   * reviewed, so two admins tapping at once cannot both decide.
+   */
+  abstract review(
+    id: number,
+    status: Exclude<VerificationStatus, 'pending'>,
+    reviewerId: number,
+  ): Promise<Verification | null>;
+  /** Drops a request that never reached the operator chat, so the user can submit again. */
+  abstract remove(id: number): Promise<void>;
+}
+
+type VerificationRow = {
+  id: number;
+  user_id: number;
+  chat_id: number;
+  username: string | null;
+  language: string;
+  exness_account_id: string;
+  bhub_email: string;
+  status: VerificationStatus;
+  submitted_at: string;
+  reviewed_at: string | null;
+  reviewed_by: number | null;
+};
+
+export class SupabaseVerificationRepository extends VerificationRepository {
+  private readonly logger = new Logger(SupabaseVerificationRepository.name);
+
+  constructor(
+    private readonly client: SupabaseClient,
+    private readonly table: string,
+  ) {
+    super();
+  }
+
+  async findLatestByUser(userId: number): Promise<Verification | null> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .select('*')
+      .eq('user_id', userId)
+      .order('submitted_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to look up verification of user ${userId}: ${error.message}`);
+      return null;
+    }
+    return data ? this.fromRow(data as VerificationRow) : null;
+  }
+
+  async create(verification: NewVerification): Promise<Verification | null> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .insert({
+        user_id: verification.userId,
+        chat_id: verification.chatId,
+        username: verification.username,
+        language: verification.language,
+        exness_account_id: verification.exnessAccountId,
+        bhub_email: verification.bhubEmail,
+        status: 'pending',
+        submitted_at: new Date().toISOString(),
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      this.logger.error(`Failed to store verification of user ${verification.userId}: ${error.message}`);
+      return null;
+    }
+    return this.fromRow(data as VerificationRow);
+  }
+
+  async review(
+    id: number,
+    status: Exclude<VerificationStatus, 'pending'>,
+    reviewerId: number,
+  ): Promise<Verification | null> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .update({ status, reviewed_at: new Date().toISOString(), reviewed_by: reviewerId })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to review verification ${id}: ${error.message}`);
+      return null;
+    }
+    return data ? this.fromRow(data as VerificationRow) : null;
+  }
+
+  async remove(id: number): Promise<void> {
+    const { error } = await this.client.from(this.table).delete().eq('id', id);
+
+    if (error) {
+      this.logger.warn(`Failed to remove verification ${id}: ${error.message}`);
+    }
+  }
+
+  private fromRow(row: VerificationRow): Verification {
+    return {
+      id: Number(row.id),
+      userId: Number(row.user_id),
+      chatId: Number(row.chat_id),
+      username: row.username,
+      language: row.language,
+      exnessAccountId: row.exness_account_id,
+      bhubEmail: row.bhub_email,
+      status: row.status,
+      submittedAt: row.submitted_at,
+      reviewedAt: row.reviewed_at,
+      reviewedBy: row.reviewed_by === null ? null : Number(row.reviewed_by),
+    };
+  }
+}
+
+/**
+ * Process-local store for development without Supabase; requests are lost on restart.
+ */
+export class InMemoryVerificationRepository extends VerificationRepository {
+  private readonly verifications = new Map<number, Verification>();
+  private nextId = 1;
+
+  async findLatestByUser(userId: number): Promise<Verification | null> {
+    let latest: Verification | null = null;
+    for (const verification of this.verifications.values()) {
+      if (verification.userId === userId && (!latest || verification.id > latest.id)) {
+        latest = verification;
+      }
+    }
+    return latest;
+  }
+
+  async create(verification: NewVerification): Promise<Verification | null> {
+    const created: Verification = {
+      ...verification,
+      id: this.nextId++,
+      status: 'pending',
+      submittedAt: new Date().toISOString(),
+      reviewedAt: null,
+      reviewedBy: null,
+    };
+    this.verifications.set(created.id, created);
+    return created;
+  }
+
+  async review(
+    id: number,
+    status: Exclude<VerificationStatus, 'pending'>,
+    reviewerId: number,
+  ): Promise<Verification | null> {
+    const verification = this.verifications.get(id);
+    if (!verification || verification.status !== 'pending') {
+      return null;
+    }
+
+    const reviewed: Verification = {
+      ...verification,
+      status,
+      reviewedAt: new Date().toISOString(),
+      reviewedBy: reviewerId,
+    };
+    this.verifications.set(id, reviewed);
+    return reviewed;
+  }
+
+  async remove(id: number): Promise<void> {
+    this.verifications.delete(id);
+  }
+}
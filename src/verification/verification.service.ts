@@ -0,0 +1,288 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Context, Markup } from 'telegraf';
+
+import { TelegramAdminService } from '../auth/telegram-admin.service';
+import { localizeTopic, SupportTopic } from '../catalog/support-topic';
+import { parseChatId } from '../common/config-values';
+import { I18nService } from '../i18n/i18n.service';
+import { Language } from '../i18n/language';
+import { UserLanguageService } from '../i18n/user-language.service';
+import { CallbackAction, encodeCallbackData } from '../telegram/callback-data';
+import { describeUser, safeAnswerCbQuery } from '../telegram/telegram-context';
+import { Verification, VerificationRepository } from './verification.repository';
+
+type Draft = {
+  exnessAccountId: string | null;
+  expiresAt: number;
+};
+
+const DRAFT_TTL_MS = 15 * 60 * 1000;
+const START = 'start';
+const CANCEL = 'cancel';
+const APPROVE = 'approve';
+const REJECT = 'reject';
+
+// Exness account numbers are plain digits; Bhub logs in with an email address.
+const EXNESS_ACCOUNT_PATTERN = /^\d{6,12}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+const MAX_EMAIL_LENGTH = 254;
+
+/**
+ * `/verify` collects a user's Exness account ID and Bhub email, then posts the request to the
+ * operator chat where an admin approves or rejects it. Topics marked `requiresVerification` are only
+ * sent to users whose latest request was approved.
+ */
+@Injectable()
+export class VerificationService {
+  private readonly logger = new Logger(VerificationService.name);
+  private readonly drafts = new Map<number, Draft>();
+  private readonly reviewChatId: number | null;
+  private readonly reviewThreadId: number | null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly verifications: VerificationRepository,
+    private readonly admins: TelegramAdminService,
+    private readonly i18n: I18nService,
+    private readonly userLanguage: UserLanguageService,
+  ) {
+    const ownChat = this.configService.get<string>('VERIFICATION_CHAT_ID') || null;
+    this.reviewChatId = parseChatId(ownChat ?? this.configService.get<string>('SUPPORT_CHAT_ID'));
+    this.reviewThreadId = parseChatId(
+      ownChat
+        ? this.configService.get<string>('VERIFICATION_THREAD_ID')
+        : this.configService.get<string>('SUPPORT_THREAD_ID'),
+    );
+
+    if (!this.reviewChatId) {
+      this.logger.warn(
+        'Neither VERIFICATION_CHAT_ID nor SUPPORT_CHAT_ID is set; /verify is disabled and gated topics stay locked.',
+      );
+    }
+  }
+
+  /**
+   * Whether the user may receive the topic: always for ungated topics, otherwise only once their
+   * verification was approved.
+   */
+  async isAllowed(userId: number, topic: SupportTopic): Promise<boolean> {
+    if (!topic.requiresVerification) {
+      return true;
+    }
+    const latest = await this.verifications.findLatestByUser(userId);
+    return latest?.status === 'approved';
+  }
+
+  /**
+   * Message shown instead of a gated topic, with a button that starts `/verify`.
+   */
+  buildRequiredNotice(topic: SupportTopic, language: Language) {
+    return {
+      text: this.i18n.t(language, 'verificationRequired', { label: localizeTopic(topic, language).label }),
+      markup: Markup.inlineKeyboard([
+        Markup.button.callback(
+          this.i18n.t(language, 'verifyButton'),
+          encodeCallbackData(CallbackAction.Verify, START),
+        ),
+      ]),
+    };
+  }
+
+  async handleCommand(ctx: Context): Promise<void> {
+    const user = ctx.from;
+    if (!user || ctx.chat?.type !== 'private') {
+      return;
+    }
+
+    const language = await this.userLanguage.resolve(user);
+    if (!this.reviewChatId) {
+      await ctx.reply(this.i18n.t(language, 'verifyUnavailable'));
+      return;
+    }
+
+    const latest = await this.verifications.findLatestByUser(user.id);
+    if (latest?.status === 'approved') {
+      await ctx.reply(this.i18n.t(language, 'verifyAlreadyVerified'));
+      return;
+    }
+    if (latest?.status === 'pending') {
+      await ctx.reply(this.i18n.t(language, 'verifyPending'));
+      return;
+    }
+
+    this.drafts.set(user.id, { exnessAccountId: null, expiresAt: Date.now() + DRAFT_TTL_MS });
+    await ctx.reply(this.i18n.t(language, 'verifyAskAccount'), this.cancelKeyboard(language));
+  }
+
+  /**
+   * Captures the answers of a user in the middle of `/verify`. Returns false for everyone else so
+   * the message is handled normally.
+   */
+  async handleMessage(ctx: Context): Promise<boolean> {
+    const user = ctx.from;
+    const message = ctx.message;
+    const chatId = ctx.chat?.id;
+    const draft = user ? this.getDraft(user.id) : null;
+    if (!user || !message || !draft || ctx.chat?.type !== 'private' || typeof chatId !== 'number') {
+      return false;
+    }
+
+    const language = await this.userLanguage.resolve(user);
+    const text = 'text' in message ? message.text.trim() : '';
+
+    if (!draft.exnessAccountId) {
+      const accountId = text.replace(/[\s-]/g, '');
+      if (!EXNESS_ACCOUNT_PATTERN.test(accountId)) {
+        await ctx.reply(this.i18n.t(language, 'verifyInvalidAccount'), this.cancelKeyboard(language));
+        return true;
+      }
+      draft.exnessAccountId = accountId;
+      await ctx.reply(this.i18n.t(language, 'verifyAskEmail'), this.cancelKeyboard(language));
+      return true;
+    }
+
+    const email = text.toLowerCase();
+    if (email.length > MAX_EMAIL_LENGTH || !EMAIL_PATTERN.test(email)) {
+      await ctx.reply(this.i18n.t(language, 'verifyInvalidEmail'), this.cancelKeyboard(language));
+      return true;
+    }
+
+    this.drafts.delete(user.id);
+    const verification = await this.verifications.create({
+      userId: user.id,
+      chatId,
+      username: user.username ?? null,
+      language,
+      exnessAccountId: draft.exnessAccountId,
+      bhubEmail: email,
+    });
+    if (!verification || !(await this.postForReview(ctx, verification))) {
+      if (verification) {
+        await this.verifications.remove(verification.id);
+      }
+      await ctx.reply(this.i18n.t(language, 'verifyUnavailable'));
+      return true;
+    }
+
+    await ctx.reply(this.i18n.t(language, 'verifySubmitted'));
+    return true;
+  }
+
+  async handleCallback(ctx: Context, args: string[]): Promise<void> {
+    const [action, rawId] = args;
+    const userId = ctx.from?.id;
+
+    if (action === START) {
+      await safeAnswerCbQuery(ctx);
+      await this.handleCommand(ctx);
+      return;
+    }
+
+    if (action === CANCEL && userId) {
+      const language = await this.userLanguage.resolve(ctx.from);
+      this.drafts.delete(userId);
+      await safeAnswerCbQuery(ctx, this.i18n.t(language, 'verifyCancelled'));
+      try {
+        await ctx.editMessageText(this.i18n.t(language, 'verifyCancelled'));
+      } catch (error) {
+        this.logger.debug(`Unable to edit cancelled verification prompt: ${String(error)}`);
+      }
+      return;
+    }
+
+    if ((action === APPROVE || action === REJECT) && ctx.chat?.id === this.reviewChatId) {
+      if (!userId || !this.admins.isAdmin(userId)) {
+        await safeAnswerCbQuery(ctx, 'Only admins can review verifications.');
+        return;
+      }
+      await this.review(ctx, Number(rawId), action === APPROVE ? 'approved' : 'rejected', userId);
+      return;
+    }
+
+    await safeAnswerCbQuery(ctx);
+  }
+
+  private async review(
+    ctx: Context,
+    id: number,
+    status: 'approved' | 'rejected',
+    reviewerId: number,
+  ): Promise<void> {
+    const reviewed = await this.verifications.review(id, status, reviewerId);
+    if (!reviewed) {
+      await safeAnswerCbQuery(ctx, `Verification #${id} was already reviewed.`);
+      return;
+    }
+
+    const decision = status === 'approved' ? '✅ Approved' : '❌ Rejected';
+    await safeAnswerCbQuery(ctx, `${decision} #${id}`);
+    try {
+      await ctx.editMessageText(`${this.describeRequest(reviewed)}\n\n${decision} by ${describeUser(ctx.from)}`);
+    } catch (error) {
+      this.logger.debug(`Unable to update review message of verification #${id}: ${String(error)}`);
+    }
+
+    const language = await this.userLanguage.resolve({ id: reviewed.userId, language_code: reviewed.language });
+    try {
+      await ctx.telegram.sendMessage(
+        reviewed.chatId,
+        this.i18n.t(language, status === 'approved' ? 'verifyApproved' : 'verifyRejected'),
+      );
+    } catch (error) {
+      this.logger.warn(`Failed to notify user ${reviewed.userId} about verification #${id}: ${String(error)}`);
+    }
+  }
+
+  private async postForReview(ctx: Context, verification: Verification): Promise<boolean> {
+    if (!this.reviewChatId) {
+      return false;
+    }
+
+    try {
+      await ctx.telegram.sendMessage(
+        this.reviewChatId,
+        `${this.describeRequest(verification)}\nFrom ${describeUser(ctx.from)} [${verification.language}]`,
+        {
+          message_thread_id: this.reviewThreadId ?? undefined,
+          ...Markup.inlineKeyboard([
+            Markup.button.callback(
+              '✅ Approve',
+              encodeCallbackData(CallbackAction.Verify, APPROVE, String(verification.id)),
+            ),
+            Markup.button.callback(
+              '❌ Reject',
+              encodeCallbackData(CallbackAction.Verify, REJECT, String(verification.id)),
+            ),
+          ]),
+        },
+      );
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to post verification #${verification.id} for review: ${String(error)}`);
+      return false;
+    }
+  }
+
+  private describeRequest(verification: Verification): string {
+    return `🔐 Verification #${verification.id}\nExness account: ${verification.exnessAccountId}\nBhub email: ${verification.bhubEmail}`;
+  }
+
+  private cancelKeyboard(language: Language) {
+    return Markup.inlineKeyboard([
+      Markup.button.callback(
+        this.i18n.t(language, 'verifyCancelButton'),
+        encodeCallbackData(CallbackAction.Verify, CANCEL),
+      ),
+    ]);
+  }
+
+  private getDraft(userId: number): Draft | null {
+    const draft = this.drafts.get(userId);
+    if (draft && draft.expiresAt < Date.now()) {
+      this.drafts.delete(userId);
+      return null;
+    }
+    return draft ?? null;
+  }
+}